@@ -18,9 +18,16 @@ import { useRouter } from 'expo-router';
 
 import { Colors, Typography, Spacing, BorderRadius } from '../../constants/Colors';
 import { useDownloadStore } from '../../stores/downloadStore';
+import { useRecordingStore } from '../../stores/recordingStore';
 import { downloadManager } from '../../services/downloadManager';
 import { formatBytes, formatEta, formatSpeed } from '../../services/downloadUtils';
-import type { DownloadItem, DownloadTask } from '../../types';
+import type { DownloadItem, DownloadTask, ScheduledRecording } from '../../types';
+
+const formatTime = (ms: number) =>
+    new Date(ms).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (ms: number) =>
+    new Date(ms).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
 
 // -----------------------------------------------------------------------
 // Active download card
@@ -30,6 +37,7 @@ function ActiveDownloadCard({ task }: { task: DownloadTask }) {
     const isPaused = task.status === 'paused';
     const isQueued = task.status === 'queued';
     const isFailed = task.status === 'failed';
+    const isRecording = !!task.recording;
 
     const handleAction = useCallback(() => {
         if (isFailed) {
@@ -38,13 +46,26 @@ function ActiveDownloadCard({ task }: { task: DownloadTask }) {
     }, [task.id, isFailed]);
 
     const handleCancel = useCallback(() => {
-        Alert.alert('Cancelar download?', task.title, [
+        if (isRecording && isDownloading) {
+            // Parar mantém o que já foi gravado; cancelar apaga
+            Alert.alert('Parar gravação?', task.title, [
+                { text: 'Continuar', style: 'cancel' },
+                { text: 'Descartar', style: 'destructive', onPress: () => downloadManager.cancel(task.id) },
+                { text: 'Parar e salvar', onPress: () => downloadManager.stopRecording(task.id) },
+            ]);
+            return;
+        }
+        Alert.alert(isRecording ? 'Cancelar gravação?' : 'Cancelar download?', task.title, [
             { text: 'Não', style: 'cancel' },
             { text: 'Cancelar', style: 'destructive', onPress: () => downloadManager.cancel(task.id) },
         ]);
-    }, [task.id, task.title]);
+    }, [task.id, task.title, isRecording, isDownloading]);
 
-    const statusLabel = isDownloading
+    const statusLabel = isRecording && isDownloading
+        ? `Gravando até ${formatTime(task.recording!.endTime)}`
+        : isRecording && isQueued
+        ? 'Iniciando gravação...'
+        : isDownloading
         ? task.speedBps
             ? `${formatSpeed(task.speedBps)} · ${task.eta ? 'ETA ' + formatEta(task.eta) : ''}`
             : 'Baixando...'
@@ -57,7 +78,7 @@ function ActiveDownloadCard({ task }: { task: DownloadTask }) {
         : task.status;
 
     const pct = Math.round(task.progress * 100);
-    const barColor = isFailed ? Colors.error : Colors.primary;
+    const barColor = isFailed ? Colors.error : isRecording ? Colors.live : Colors.primary;
     const actionIcon = isFailed ? 'refresh' : undefined;
     const actionColor = isFailed ? Colors.error : Colors.primary;
 
@@ -65,8 +86,8 @@ function ActiveDownloadCard({ task }: { task: DownloadTask }) {
         <View style={[styles.activeCard, isFailed && styles.activeCardFailed]}>
             <Image
                 source={{ uri: task.posterUrl ?? '' }}
-                style={styles.activePoster}
-                contentFit="cover"
+                style={[styles.activePoster, isRecording && styles.activeLogo]}
+                contentFit={isRecording ? 'contain' : 'cover'}
                 cachePolicy="memory-disk"
             />
             <View style={styles.activeInfo}>
@@ -92,6 +113,9 @@ function ActiveDownloadCard({ task }: { task: DownloadTask }) {
                             {formatBytes(task.bytesDownloaded)} / {formatBytes(task.bytesTotal)}
                         </Text>
                     )}
+                    {!isFailed && isRecording && task.bytesDownloaded > 0 && (
+                        <Text style={styles.bytesLabel}>{formatBytes(task.bytesDownloaded)}</Text>
+                    )}
                 </View>
             </View>
 
@@ -103,7 +127,11 @@ function ActiveDownloadCard({ task }: { task: DownloadTask }) {
                     </TouchableOpacity>
                 )}
                 <TouchableOpacity onPress={handleCancel} style={styles.actionBtn}>
-                    <Ionicons name="close" size={20} color={Colors.textSecondary} />
+                    <Ionicons
+                        name={isRecording && isDownloading ? 'stop' : 'close'}
+                        size={20}
+                        color={isRecording && isDownloading ? Colors.live : Colors.textSecondary}
+                    />
                 </TouchableOpacity>
             </View>
         </View>
@@ -225,6 +253,91 @@ function SeriesDownloadRow({ seriesId, episodes }: { seriesId: string; episodes:
     );
 }
 
+// -----------------------------------------------------------------------
+// Recording row (completed live recording)
+// -----------------------------------------------------------------------
+function RecordingRow({ item }: { item: DownloadItem }) {
+    const router = useRouter();
+
+    const handlePlay = useCallback(() => {
+        router.push({
+            pathname: '/media-player/[id]' as any,
+            params: {
+                id: item.id,
+                url: encodeURIComponent(item.localPath),
+                title: item.title,
+                offline: '1',
+            },
+        });
+    }, [item, router]);
+
+    const handleDelete = useCallback(() => {
+        Alert.alert('Excluir gravação?', `"${item.title}" será removida do dispositivo.`, [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Excluir', style: 'destructive', onPress: () => downloadManager.removeDownload(item.id) },
+        ]);
+    }, [item]);
+
+    return (
+        <TouchableOpacity style={styles.seriesRow} onPress={handlePlay} activeOpacity={0.8}>
+            <Image
+                source={{ uri: item.posterUrl ?? '' }}
+                style={styles.recordingLogo}
+                contentFit="contain"
+                cachePolicy="memory-disk"
+            />
+            <View style={styles.seriesInfo}>
+                <Text style={styles.seriesTitle} numberOfLines={1}>{item.title}</Text>
+                {item.subtitle && (
+                    <Text style={styles.seriesMeta} numberOfLines={1}>{item.subtitle}</Text>
+                )}
+                <Text style={styles.seriesMeta}>
+                    {item.duration ? `${Math.round(item.duration / 60)} min · ` : ''}{formatBytes(item.fileSize)}
+                </Text>
+            </View>
+            <TouchableOpacity onPress={handleDelete} style={styles.actionBtn}>
+                <Ionicons name="trash-outline" size={18} color={Colors.error} />
+            </TouchableOpacity>
+        </TouchableOpacity>
+    );
+}
+
+// -----------------------------------------------------------------------
+// Scheduled recording row
+// -----------------------------------------------------------------------
+function ScheduledRecordingRow({ recording }: { recording: ScheduledRecording }) {
+    const handleCancel = useCallback(() => {
+        Alert.alert('Cancelar agendamento?', recording.title, [
+            { text: 'Não', style: 'cancel' },
+            {
+                text: 'Cancelar',
+                style: 'destructive',
+                onPress: () => useRecordingStore.getState().removeRecording(recording.id),
+            },
+        ]);
+    }, [recording.id, recording.title]);
+
+    return (
+        <View style={styles.seriesRow}>
+            <Image
+                source={{ uri: recording.channelLogo ?? '' }}
+                style={styles.recordingLogo}
+                contentFit="contain"
+                cachePolicy="memory-disk"
+            />
+            <View style={styles.seriesInfo}>
+                <Text style={styles.seriesTitle} numberOfLines={1}>{recording.title}</Text>
+                <Text style={styles.seriesMeta} numberOfLines={1}>
+                    {recording.channelName} · {formatDay(recording.startTime)} {formatTime(recording.startTime)}–{formatTime(recording.endTime)}
+                </Text>
+            </View>
+            <TouchableOpacity onPress={handleCancel} style={styles.actionBtn}>
+                <Ionicons name="close" size={20} color={Colors.textSecondary} />
+            </TouchableOpacity>
+        </View>
+    );
+}
+
 // -----------------------------------------------------------------------
 // Empty state
 // -----------------------------------------------------------------------
@@ -236,7 +349,7 @@ function EmptyState() {
             </View>
             <Text style={styles.emptyTitle}>Nenhum download</Text>
             <Text style={styles.emptyBody}>
-                Baixe filmes e episódios para assistir{'\n'}sem internet, quando quiser.
+                Baixe filmes e episódios ou grave canais{'\n'}para assistir sem internet, quando quiser.
             </Text>
         </View>
     );
@@ -250,6 +363,7 @@ export default function DownloadsScreen() {
 
     const items = useDownloadStore((s) => s.items);
     const tasks = useDownloadStore((s) => s.tasks);
+    const scheduled = useRecordingStore((s) => s.recordings);
     const getTotalBytes = useDownloadStore((s) => s.getTotalBytes);
 
     const activeTasks = useMemo(
@@ -268,6 +382,14 @@ export default function DownloadsScreen() {
         [items]
     );
 
+    const recordingItems = useMemo(
+        () =>
+            Object.values(items)
+                .filter((i) => i.itemType === 'recording')
+                .sort((a, b) => b.downloadedAt - a.downloadedAt),
+        [items]
+    );
+
     // Group episodes by seriesId
     const seriesGroups = useMemo(() => {
         const episodes = Object.values(items).filter((i) => i.itemType === 'episode');
@@ -281,7 +403,12 @@ export default function DownloadsScreen() {
     }, [items]);
 
     const totalBytes = getTotalBytes();
-    const hasContent = activeTasks.length > 0 || movieItems.length > 0 || seriesGroups.length > 0;
+    const hasContent =
+        activeTasks.length > 0 ||
+        scheduled.length > 0 ||
+        movieItems.length > 0 ||
+        seriesGroups.length > 0 ||
+        recordingItems.length > 0;
 
     const handleDeleteAll = useCallback(() => {
         Alert.alert(
@@ -345,6 +472,16 @@ export default function DownloadsScreen() {
                                 </View>
                             )}
 
+                            {/* Scheduled recordings */}
+                            {scheduled.length > 0 && (
+                                <View style={styles.section}>
+                                    <Text style={styles.sectionTitle}>Agendadas</Text>
+                                    {scheduled.map((recording) => (
+                                        <ScheduledRecordingRow key={recording.id} recording={recording} />
+                                    ))}
+                                </View>
+                            )}
+
                             {/* Movies */}
                             {movieItems.length > 0 && (
                                 <View style={styles.section}>
@@ -370,6 +507,16 @@ export default function DownloadsScreen() {
                                     ))}
                                 </View>
                             )}
+
+                            {/* Recordings */}
+                            {recordingItems.length > 0 && (
+                                <View style={styles.section}>
+                                    <Text style={styles.sectionTitle}>Gravações</Text>
+                                    {recordingItems.map((item) => (
+                                        <RecordingRow key={item.id} item={item} />
+                                    ))}
+                                </View>
+                            )}
                         </>
                     }
                 />
@@ -439,6 +586,10 @@ const styles = StyleSheet.create({
         borderRadius: BorderRadius.sm,
         backgroundColor: Colors.surfaceVariant,
     },
+    activeLogo: {
+        height: 52,
+        padding: 4,
+    },
     activeInfo: {
         flex: 1,
         gap: 4,
@@ -571,6 +722,12 @@ const styles = StyleSheet.create({
         borderRadius: BorderRadius.sm,
         backgroundColor: Colors.surfaceVariant,
     },
+    recordingLogo: {
+        width: 52,
+        height: 52,
+        borderRadius: BorderRadius.sm,
+        backgroundColor: Colors.surfaceVariant,
+    },
     seriesInfo: {
         flex: 1,
     },
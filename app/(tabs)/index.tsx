@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback, useState, useMemo } from 'react';
+import React, { useEffect, useCallback, useState, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,27 +7,45 @@ import {
   TextInput,
   TouchableOpacity,
   Switch,
+  AppState,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 
 import { Colors, Typography, Spacing, BorderRadius } from '../../constants/Colors';
 import { useChannelStore } from '../../stores/channelStore';
 import { useFavoritesStore } from '../../stores/favoritesStore';
 import { useSettingsStore } from '../../stores/settingsStore';
+import { usePlaylistStore } from '../../stores/playlistStore';
+import { useXtreamStore } from '../../stores/xtreamStore';
+import { useHealthStore } from '../../stores/healthStore';
+import { useLiveHistoryStore } from '../../stores/liveHistoryStore';
+import { useLineupStore } from '../../stores/lineupStore';
+import { useResolutionStore } from '../../stores/resolutionStore';
+import { useSourceStore, PRO_SOURCE_ID } from '../../stores/sourceStore';
+import { refreshDueSources } from '../../services/sourceManager';
 import { initEPGService, onEPGProgress, onEPGStateChange, isEPGLoaded } from '../../services/epgService';
+import { formatBytes } from '../../services/downloadUtils';
+import { channelMatchesId } from '../../services/channelMerge';
 import CategoryTabs from '../../components/CategoryTabs';
 import ChannelList from '../../components/ChannelList';
 import PinModal from '../../components/PinModal';
 import EPGGuideModal from '../../components/EPGGuideModal';
 
+// Tempo máximo após abrir o app para retomar o último canal (fontes carregando)
+const RESUME_WAIT_MS = 8000;
+// Espera os stores reidratarem antes de checar fontes vencidas
+const SOURCE_REFRESH_DELAY_MS = 5000;
+
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const [pinModalVisible, setPinModalVisible] = useState(false);
   const [pendingCategory, setPendingCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
-  const [epgProgress, setEpgProgress] = useState({ progress: 0, loaded: 0, total: 0 });
+  const [epgProgress, setEpgProgress] = useState({ progress: 0, bytesRead: 0, bytesTotal: 0 });
   const [isLoadingEPG, setIsLoadingEPG] = useState(false);
 
   const [showEPGGuide, setShowEPGGuide] = useState(false);
@@ -37,14 +55,28 @@ export default function HomeScreen() {
     setCategory, 
     getFilteredChannels, 
     getCategories,
-    isProList,
-    setProList,
+    getAllChannels,
     proChannels,
     fetchProChannels,
+    proListSummary,
+    proListError,
+    clearProListSummary,
   } = useChannelStore();
   
+  const playlistChannels = usePlaylistStore(state => state.channels);
+  const xtreamChannels = useXtreamStore(state => state.channels);
+  const healthRecords = useHealthStore(state => state.records);
+  const liveHistory = useLiveHistoryStore(state => state.entries);
+  const lineupOrder = useLineupStore(state => state.order);
+  const lineupHidden = useLineupStore(state => state.hidden);
+  const lineupOverrides = useLineupStore(state => state.overrides);
+  const lineupGroups = useLineupStore(state => state.groups);
+  const resolutionRecords = useResolutionStore(state => state.records);
+  const sourceSettings = useSourceStore(state => state.settings);
+  const setSourceEnabled = useSourceStore(state => state.setEnabled);
+  const proEnabled = useSourceStore(state => state.getSettings(PRO_SOURCE_ID).enabled);
   const { favorites } = useFavoritesStore();
-  const { adultUnlocked, unlockAdult, showEPG } = useSettingsStore();
+  const { adultUnlocked, unlockAdult, showEPG, onlyWorkingChannels, resumeLastChannel } = useSettingsStore();
 
   // Auto-init EPG se habilitado nas configurações
   useEffect(() => {
@@ -55,9 +87,49 @@ export default function HomeScreen() {
 
   // Memoize categories to prevent re-creation on every render
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  const categories = useMemo(() => getCategories(adultUnlocked), [adultUnlocked, getCategories, isProList, proChannels]);
+  const categories = useMemo(() => getCategories(adultUnlocked), [adultUnlocked, getCategories, sourceSettings, proChannels, playlistChannels, xtreamChannels, lineupGroups]);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  const allChannels = useMemo(() => getFilteredChannels(adultUnlocked, favorites), [adultUnlocked, favorites, getFilteredChannels, isProList, proChannels]);
+  const allChannels = useMemo(() => getFilteredChannels(adultUnlocked, favorites), [adultUnlocked, favorites, getFilteredChannels, sourceSettings, proChannels, playlistChannels, xtreamChannels, healthRecords, onlyWorkingChannels, liveHistory, lineupOrder, lineupHidden, lineupOverrides, lineupGroups, resolutionRecords]);
+
+  // Categoria sumiu (fonte desativada, grupo apagado): volta para Todos
+  useEffect(() => {
+    if (!categories.includes(selectedCategory)) setCategory('Todos');
+  }, [categories, selectedCategory, setCategory]);
+
+  // Lista Pro ativa (também após reidratar as fontes): mostra o cache e revalida
+  useEffect(() => {
+    if (proEnabled) fetchProChannels();
+  }, [proEnabled, fetchProChannels]);
+
+  // Atualiza as fontes com intervalo vencido — depois da reidratação dos stores e ao voltar para o app
+  useEffect(() => {
+    const timer = setTimeout(refreshDueSources, SOURCE_REFRESH_DELAY_MS);
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') refreshDueSources();
+    });
+    return () => { clearTimeout(timer); sub.remove(); };
+  }, []);
+
+  // Retoma o último canal assistido ao abrir o app (opcional nas configurações).
+  // Os stores reidratam de forma assíncrona, então tenta até o canal aparecer.
+  const resumeDoneRef = useRef(false);
+  const lastChannelId = liveHistory[0]?.channelId;
+  useEffect(() => {
+    const timer = setTimeout(() => { resumeDoneRef.current = true; }, RESUME_WAIT_MS);
+    return () => clearTimeout(timer);
+  }, []);
+  useEffect(() => {
+    if (resumeDoneRef.current || !resumeLastChannel || !lastChannelId) return;
+    // Usuário já abriu um canal por conta própria
+    if (useChannelStore.getState().currentChannelId) {
+      resumeDoneRef.current = true;
+      return;
+    }
+    const channel = getAllChannels(adultUnlocked).find(ch => channelMatchesId(ch, lastChannelId));
+    if (!channel) return;
+    resumeDoneRef.current = true;
+    router.push({ pathname: '/player/[id]', params: { id: channel.id } });
+  }, [resumeLastChannel, lastChannelId, adultUnlocked, getAllChannels, router, sourceSettings, proChannels, playlistChannels, xtreamChannels]);
 
   // Filtra por busca
   const channels = useMemo(() => {
@@ -70,8 +142,8 @@ export default function HomeScreen() {
   }, [allChannels, searchQuery]);
 
   useEffect(() => {
-    const unsubProg = onEPGProgress((progress, loaded, total) => {
-      setEpgProgress({ progress, loaded, total });
+    const unsubProg = onEPGProgress((progress, bytesRead, bytesTotal) => {
+      setEpgProgress({ progress, bytesRead, bytesTotal });
     });
     const unsubState = onEPGStateChange((state) => {
       setIsLoadingEPG(state === 'loading');
@@ -80,11 +152,16 @@ export default function HomeScreen() {
   }, []);
 
   const handleTogglePro = useCallback((val: boolean) => {
-    setProList(val);
-    if (val && proChannels.length === 0) {
-      fetchProChannels();
-    }
-  }, [setProList, fetchProChannels, proChannels.length]);
+    // O efeito de proEnabled carrega a lista
+    setSourceEnabled(PRO_SOURCE_ID, val);
+  }, [setSourceEnabled]);
+
+  // Resumo da atualização da lista Pro some sozinho
+  useEffect(() => {
+    if (!proListSummary) return;
+    const timer = setTimeout(clearProListSummary, 6000);
+    return () => clearTimeout(timer);
+  }, [proListSummary, clearProListSummary]);
 
   const handleSelectCategory = useCallback((category: string) => {
     if (category === 'Adulto' && !adultUnlocked) {
@@ -127,19 +204,29 @@ export default function HomeScreen() {
           <View>
             <Text style={styles.title}>Saimo TV</Text>
             <Text style={styles.subtitle}>{channels.length} canais</Text>
+            {proEnabled && (proListSummary || proListError) && (
+              <Text style={[styles.subtitle, proListError ? styles.proListError : styles.proListSummary]}>
+                {proListError ?? `Lista Pro atualizada: ${proListSummary}`}
+              </Text>
+            )}
           </View>
           <View style={styles.headerActions}>
             <View style={styles.proToggleContainer}>
-              <Text style={styles.proToggleText}>Lite</Text>
               <Switch
-                value={isProList}
+                value={proEnabled}
                 onValueChange={handleTogglePro}
                 trackColor={{ false: Colors.surface, true: Colors.primary }}
-                thumbColor={isProList ? '#fff' : '#ccc'}
+                thumbColor={proEnabled ? '#fff' : '#ccc'}
                 ios_backgroundColor={Colors.surface}
               />
               <Text style={styles.proToggleText}>Pro</Text>
             </View>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={() => router.push('/multiview')}
+            >
+              <Ionicons name="grid-outline" size={22} color={Colors.text} />
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.searchButton}
               onPress={() => setShowEPGGuide(true)}
@@ -182,7 +269,9 @@ export default function HomeScreen() {
         {isLoadingEPG && (
           <View style={styles.epgProgressContainer}>
             <Text style={styles.epgProgressText}>
-              Carregando guia... {epgProgress.progress}%
+              Carregando guia... {epgProgress.bytesTotal > 0
+                ? `${epgProgress.progress}% (${formatBytes(epgProgress.bytesRead)} de ${formatBytes(epgProgress.bytesTotal)})`
+                : formatBytes(epgProgress.bytesRead)}
             </Text>
             <View style={styles.epgProgressBar}>
               <View
@@ -246,6 +335,12 @@ const styles = StyleSheet.create({
     fontSize: Typography.h1.fontSize,
     fontWeight: '700',
   },
+  proListSummary: {
+    color: Colors.success,
+  },
+  proListError: {
+    color: Colors.warning,
+  },
   subtitle: {
     color: Colors.textSecondary,
     fontSize: Typography.caption.fontSize,
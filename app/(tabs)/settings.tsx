@@ -11,17 +11,25 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { Colors, Typography, Spacing, BorderRadius } from '../../constants/Colors';
-import { useSettingsStore } from '../../stores/settingsStore';
+import { useSettingsStore, TIMESHIFT_OPTIONS, RECORDING_PADDING_OPTIONS } from '../../stores/settingsStore';
 import { useFavoritesStore } from '../../stores/favoritesStore';
+import { usePlaylistStore } from '../../stores/playlistStore';
+import { useXtreamStore } from '../../stores/xtreamStore';
+import { useChannelStore } from '../../stores/channelStore';
+import { useHealthStore } from '../../stores/healthStore';
+import { useLiveHistoryStore } from '../../stores/liveHistoryStore';
+import { useReminderStore } from '../../stores/reminderStore';
 import { clearEPGCache } from '../../services/epgService';
 import { clearAllCaches } from '../../services/streamingService';
 import PinModal from '../../components/PinModal';
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const [pinModalVisible, setPinModalVisible] = useState(false);
   const [pinMode, setPinMode] = useState<'verify' | 'change'>('change');
   
@@ -32,15 +40,44 @@ export default function SettingsScreen() {
     setShowChannelNumber,
     autoplay,
     setAutoplay,
+    onlyWorkingChannels,
+    setOnlyWorkingChannels,
+    resumeLastChannel,
+    setResumeLastChannel,
+    timeshiftMinutes,
+    setTimeshiftMinutes,
+    recordingPaddingBefore,
+    recordingPaddingAfter,
+    setRecordingPadding,
     adultUnlocked,
     lockAdult,
     unlockAdult,
   } = useSettingsStore();
   
   const { clearFavorites } = useFavoritesStore();
+  const playlistCount = usePlaylistStore(state => state.playlists.length);
+  const xtreamCount = useXtreamStore(state => state.accounts.length);
+  const { isChecking, progress: healthProgress, startCheck, cancelCheck } = useHealthStore();
+  const historyCount = useLiveHistoryStore(state => state.entries.length);
+  const reminderCount = useReminderStore(state => state.reminders.length);
+  const clearLiveHistory = useLiveHistoryStore(state => state.clearHistory);
 
   const [pinAction, setPinAction] = useState<'change' | 'unlock'>('change');
 
+  // Cada toque passa para a próxima duração (o Alert do Android só tem 3 botões)
+  const handleCycleTimeshift = useCallback(() => {
+    const idx = TIMESHIFT_OPTIONS.indexOf(timeshiftMinutes);
+    setTimeshiftMinutes(TIMESHIFT_OPTIONS[(idx + 1) % TIMESHIFT_OPTIONS.length]);
+  }, [timeshiftMinutes, setTimeshiftMinutes]);
+
+  const handleCyclePadding = useCallback(() => {
+    const idx = RECORDING_PADDING_OPTIONS.findIndex(
+      ([before, after]) => before === recordingPaddingBefore && after === recordingPaddingAfter
+    );
+    const [before, after] = RECORDING_PADDING_OPTIONS[(idx + 1) % RECORDING_PADDING_OPTIONS.length];
+    setRecordingPadding(before, after);
+  }, [recordingPaddingBefore, recordingPaddingAfter, setRecordingPadding]);
+
   const handleChangePIN = useCallback(() => {
     setPinAction('change');
     setPinMode('change');
@@ -76,6 +113,22 @@ export default function SettingsScreen() {
     );
   }, []);
 
+  const handleHealthCheck = useCallback(() => {
+    if (isChecking) {
+      cancelCheck();
+      return;
+    }
+    const all = useChannelStore.getState().getAllChannels(adultUnlocked);
+    Alert.alert(
+      'Verificar canais',
+      `Testar ${all.length} canais? A verificação também detecta a resolução (4K/FHD/HD/SD), roda em segundo plano e pode levar alguns minutos.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Verificar', onPress: () => { startCheck(all); } },
+      ]
+    );
+  }, [isChecking, cancelCheck, startCheck, adultUnlocked]);
+
   const handleClearFavorites = useCallback(() => {
     Alert.alert(
       'Limpar Favoritos',
@@ -94,6 +147,21 @@ export default function SettingsScreen() {
     );
    }, [clearFavorites]);
 
+  const handleClearLiveHistory = useCallback(() => {
+    Alert.alert(
+      'Limpar Recentes',
+      'Deseja apagar o histórico de canais assistidos?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Limpar',
+          style: 'destructive',
+          onPress: () => clearLiveHistory(),
+        },
+      ]
+    );
+  }, [clearLiveHistory]);
+
   const handleClearMediaCache = useCallback(() => {
     Alert.alert(
       'Limpar Cache de Mídia',
@@ -172,6 +240,118 @@ export default function SettingsScreen() {
               thumbColor={Colors.text}
             />
           </View>
+
+          <View style={styles.divider} />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="time-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Abrir último canal ao iniciar</Text>
+            </View>
+            <Switch
+              value={resumeLastChannel}
+              onValueChange={setResumeLastChannel}
+              trackColor={{ false: Colors.border, true: Colors.primary }}
+              thumbColor={Colors.text}
+            />
+          </View>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={handleCycleTimeshift}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="pause-circle-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Pausar TV ao vivo</Text>
+            </View>
+            <View style={styles.statusBadge}>
+              <Text style={styles.statusText}>
+                {timeshiftMinutes > 0 ? `Até ${timeshiftMinutes} min` : 'Desligado'}
+              </Text>
+            </View>
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={handleCyclePadding}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="recording-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Margem das gravações</Text>
+            </View>
+            <View style={styles.statusBadge}>
+              <Text style={styles.statusText}>
+                {recordingPaddingBefore || recordingPaddingAfter
+                  ? `${recordingPaddingBefore} min antes · ${recordingPaddingAfter} depois`
+                  : 'Sem margem'}
+              </Text>
+            </View>
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="pulse-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Somente canais funcionando</Text>
+            </View>
+            <Switch
+              value={onlyWorkingChannels}
+              onValueChange={setOnlyWorkingChannels}
+              trackColor={{ false: Colors.border, true: Colors.primary }}
+              thumbColor={Colors.text}
+            />
+          </View>
+        </View>
+
+        {/* Fontes de canais */}
+        <Text style={styles.sectionTitle}>Fontes de canais</Text>
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/sources')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="git-merge-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Gerenciar fontes</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/lineup')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="reorder-four-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Organizar canais</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/playlists')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="list-circle-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Playlists M3U</Text>
+            </View>
+            {playlistCount > 0 && (
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusText}>{playlistCount}</Text>
+              </View>
+            )}
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/xtream')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="server-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Contas Xtream Codes</Text>
+            </View>
+            {xtreamCount > 0 && (
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusText}>{xtreamCount}</Text>
+              </View>
+            )}
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
         </View>
 
         {/* Controle Parental */}
@@ -214,6 +394,26 @@ export default function SettingsScreen() {
         {/* Dados */}
         <Text style={styles.sectionTitle}>Dados</Text>
         <View style={styles.section}>
+          <TouchableOpacity style={styles.settingRow} onPress={handleHealthCheck}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="medkit-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>
+                {isChecking
+                  ? `Verificando canais ${healthProgress.done}/${healthProgress.total}`
+                  : 'Verificar canais'}
+              </Text>
+            </View>
+            {isChecking ? (
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusText}>Parar</Text>
+              </View>
+            ) : (
+              <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
           <TouchableOpacity style={styles.settingRow} onPress={handleClearCache}>
             <View style={styles.settingInfo}>
               <Ionicons name="refresh-outline" size={22} color={Colors.primary} />
@@ -221,6 +421,42 @@ export default function SettingsScreen() {
             </View>
             <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
           </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/epg-feeds')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="layers-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Fontes do guia</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/epg-matching')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="link-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Correspondência do guia</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/reminders')}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="notifications-outline" size={22} color={Colors.primary} />
+              <Text style={styles.settingLabel}>Lembretes de programas</Text>
+            </View>
+            {reminderCount > 0 ? (
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusText}>{reminderCount}</Text>
+              </View>
+            ) : (
+              <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+            )}
+          </TouchableOpacity>
           
           <View style={styles.divider} />
           
@@ -234,6 +470,22 @@ export default function SettingsScreen() {
           
           <View style={styles.divider} />
           
+          <TouchableOpacity style={styles.settingRow} onPress={handleClearLiveHistory}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="time-outline" size={22} color={Colors.error} />
+              <Text style={styles.settingLabel}>Limpar canais recentes</Text>
+            </View>
+            {historyCount > 0 ? (
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusText}>{historyCount}</Text>
+              </View>
+            ) : (
+              <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
           <TouchableOpacity style={styles.settingRow} onPress={handleClearMediaCache}>
             <View style={styles.settingInfo}>
               <Ionicons name="trash-outline" size={22} color={Colors.error} />
@@ -10,7 +10,10 @@ import { Colors } from '../constants/Colors';
 import Updater from '../components/Updater';
 import { downloadManager } from '../services/downloadManager';
 import { useDownloadStore } from '../stores/downloadStore';
+import { useReminderStore } from '../stores/reminderStore';
 import { initNotifications } from '../services/downloadNotifications';
+import { startRecordingScheduler } from '../services/recordingScheduler';
+import { startResolutionIndexer } from '../services/resolutionIndexer';
 
 // Enable layout animations for 120fps transitions
 enableLayoutAnimations(true);
@@ -36,8 +39,25 @@ export default function RootLayout() {
     // downloadManager.init reuses initNotifications (idempotent) + reconciles bg downloads
     downloadManager.init().catch((e) => console.warn('[Layout] downloadManager.init error:', e));
 
+    // Lembretes de programas que já passaram não aparecem mais na lista
+    if (useReminderStore.persist.hasHydrated()) useReminderStore.getState().pruneReminders();
+    const unsubReminders = useReminderStore.persist.onFinishHydration(() => useReminderStore.getState().pruneReminders());
+
+    // Gravações agendadas começam na hora enquanto o app estiver aberto
+    const stopRecordingScheduler = startRecordingScheduler();
+
+    // Categorias 4K/FHD/HD/SD pelo manifesto, lido em segundo plano quando as listas carregam
+    const stopResolutionIndexer = startResolutionIndexer();
+
     // Tap notification → open content
-    const sub = Notifications.addNotificationResponseReceivedListener((response) => {
+    let mounted = true;
+    let lastHandled: string | null = null;
+    const openFromNotification = (response: Notifications.NotificationResponse) => {
+      // A resposta que abriu o app pode chegar pelos dois caminhos
+      const key = `${response.notification.request.identifier}:${response.notification.date}`;
+      if (key === lastHandled) return;
+      lastHandled = key;
+
       const data = response.notification.request.content.data as any;
       if (!data) return;
 
@@ -56,6 +76,14 @@ export default function RootLayout() {
           return;
         }
       }
+      if (data.type === 'reminder' && data.channelId) {
+        // App aberto pelo toque: o store ainda pode estar carregando do disco
+        const remove = () => useReminderStore.getState().removeReminder(data.reminderId);
+        if (useReminderStore.persist.hasHydrated()) remove();
+        else useReminderStore.persist.onFinishHydration(remove);
+        router.push({ pathname: '/player/[id]', params: { id: data.channelId } });
+        return;
+      }
       if (data.type === 'progress') {
         // Tapping the ongoing progress notification should NOT do anything 
         // (the user specifically requested it to not interfere/open).
@@ -64,9 +92,23 @@ export default function RootLayout() {
 
       // Default: open downloads tab
       router.push('/(tabs)/downloads' as any);
-    });
+    };
+    const sub = Notifications.addNotificationResponseReceivedListener(openFromNotification);
 
-    return () => sub.remove();
+    // Toque com o app fechado: o listener ainda não existia, a resposta fica guardada
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (!mounted || !response) return;
+      Notifications.clearLastNotificationResponse();
+      openFromNotification(response);
+    }).catch(() => {});
+
+    return () => {
+      mounted = false;
+      sub.remove();
+      unsubReminders();
+      stopRecordingScheduler();
+      stopResolutionIndexer();
+    };
   }, [router]);
 
   return (
@@ -96,6 +138,13 @@ export default function RootLayout() {
             presentation: 'fullScreenModal',
           }}
         />
+        <Stack.Screen
+          name="multiview"
+          options={{
+            animation: 'fade',
+            presentation: 'fullScreenModal',
+          }}
+        />
       </Stack>
     </SafeAreaProvider>
   );
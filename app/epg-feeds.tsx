@@ -0,0 +1,311 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useEpgFeedStore, feedLabel, type EpgFeed } from '../stores/epgFeedStore';
+import { getEpgFeedStatus, onEPGStateChange } from '../services/epgService';
+
+function formatDate(ts: number): string {
+  const d = new Date(ts);
+  return `${d.toLocaleDateString('pt-BR')} ${d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export default function EpgFeedsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  // Status das fontes muda a cada leitura do guia
+  const [, setEpgState] = useState('idle');
+
+  const { feeds, addFeed, removeFeed, setEnabled, moveFeed, resetFeeds } = useEpgFeedStore();
+
+  useEffect(() => onEPGStateChange(setEpgState), []);
+
+  const handleAdd = useCallback(() => {
+    try {
+      addFeed(url, name);
+      setName('');
+      setUrl('');
+    } catch (e: any) {
+      Alert.alert('Fonte inválida', e?.message || 'Não foi possível adicionar a fonte.');
+    }
+  }, [name, url, addFeed]);
+
+  const handleRemove = useCallback((feed: EpgFeed) => {
+    Alert.alert(
+      'Remover fonte',
+      `Deseja remover "${feedLabel(feed)}" do guia?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Remover', style: 'destructive', onPress: () => removeFeed(feed.id) },
+      ]
+    );
+  }, [removeFeed]);
+
+  const handleReset = useCallback(() => {
+    Alert.alert(
+      'Restaurar padrão',
+      'Voltar a usar só a fonte padrão do guia?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Restaurar', onPress: resetFeeds },
+      ]
+    );
+  }, [resetFeeds]);
+
+  const renderItem = useCallback(({ item, index }: { item: EpgFeed; index: number }) => {
+    const status = getEpgFeedStatus(item.id);
+    return (
+      <View style={[styles.feedRow, !item.enabled && styles.feedRowDisabled]}>
+        <View style={styles.order}>
+          <TouchableOpacity onPress={() => moveFeed(item.id, -1)} disabled={index === 0} hitSlop={6}>
+            <Ionicons name="chevron-up" size={18} color={index === 0 ? Colors.textMuted : Colors.textSecondary} />
+          </TouchableOpacity>
+          <Text style={styles.orderText}>{index + 1}</Text>
+          <TouchableOpacity onPress={() => moveFeed(item.id, 1)} disabled={index === feeds.length - 1} hitSlop={6}>
+            <Ionicons
+              name="chevron-down"
+              size={18}
+              color={index === feeds.length - 1 ? Colors.textMuted : Colors.textSecondary}
+            />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.feedInfo}>
+          <Text style={styles.feedName} numberOfLines={1}>{feedLabel(item)}</Text>
+          <Text style={styles.feedMeta} numberOfLines={1}>{item.url}</Text>
+          {status?.error ? (
+            <Text style={styles.feedError} numberOfLines={1}>{status.error}</Text>
+          ) : status ? (
+            <Text style={styles.feedMeta} numberOfLines={1}>
+              {status.channels} canais • {status.programmes} programas
+              {status.updatedAt ? ` • ${formatDate(status.updatedAt)}` : ''}
+            </Text>
+          ) : null}
+        </View>
+        <Switch
+          value={item.enabled}
+          onValueChange={(val) => setEnabled(item.id, val)}
+          trackColor={{ false: Colors.surface, true: Colors.primary }}
+          thumbColor={item.enabled ? '#fff' : '#ccc'}
+          ios_backgroundColor={Colors.surface}
+        />
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(item)}>
+          <Ionicons name="trash-outline" size={20} color={Colors.error} />
+        </TouchableOpacity>
+      </View>
+    );
+  }, [feeds.length, moveFeed, setEnabled, handleRemove]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Fontes do guia</Text>
+          <Text style={styles.count}>{feeds.filter(f => f.enabled).length} de {feeds.length} ativas</Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <FlatList
+        data={feeds}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View>
+            <Text style={styles.sectionTitle}>Adicionar XMLTV</Text>
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                placeholder="Nome da fonte (opcional)"
+                placeholderTextColor={Colors.textMuted}
+                value={name}
+                onChangeText={setName}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="https://exemplo.com/guia.xml.gz"
+                placeholderTextColor={Colors.textMuted}
+                value={url}
+                onChangeText={setUrl}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <TouchableOpacity style={styles.button} onPress={handleAdd}>
+                <Text style={styles.buttonText}>Adicionar fonte</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.hint}>
+              Aceita .xml e .xml.gz. Quando duas fontes têm programação para o mesmo horário de um canal,
+              vale a que está mais acima; as outras só completam os horários vazios.
+            </Text>
+            {feeds.length > 0 && <Text style={styles.sectionTitle}>Ordem de prioridade</Text>}
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Nenhuma fonte XMLTV. O guia usa só os provedores de programação embutidos.</Text>
+        }
+        ListFooterComponent={
+          <TouchableOpacity style={[styles.button, styles.buttonSecondary, styles.resetButton]} onPress={handleReset}>
+            <Ionicons name="refresh-outline" size={18} color={Colors.text} />
+            <Text style={styles.buttonText}>Restaurar padrão</Text>
+          </TouchableOpacity>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  sectionTitle: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  hint: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: Spacing.sm,
+  },
+  form: {
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+  },
+  buttonSecondary: {
+    backgroundColor: Colors.surfaceVariant,
+  },
+  buttonText: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  resetButton: {
+    marginTop: Spacing.lg,
+  },
+  feedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.md,
+  },
+  feedRowDisabled: {
+    opacity: 0.6,
+  },
+  order: {
+    alignItems: 'center',
+  },
+  orderText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+  },
+  feedInfo: {
+    flex: 1,
+  },
+  feedName: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  feedMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  feedError: {
+    color: Colors.error,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  divider: {
+    height: Spacing.sm,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+  },
+});
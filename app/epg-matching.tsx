@@ -0,0 +1,374 @@
+import React, { memo, useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useEpgMatchStore } from '../stores/epgMatchStore';
+import {
+  getEpgMatchList,
+  getXmltvChannels,
+  suggestEpgChannels,
+  onEPGStateChange,
+  type EpgMatchInfo,
+} from '../services/epgService';
+import { normalizeChannelName, type XmltvChannelRef } from '../services/epgMatcher';
+
+const ROW_HEIGHT = 60;
+// Busca no XML inteiro pode ter milhares de canais
+const MAX_RESULTS = 50;
+
+function methodLabel(info: EpgMatchInfo): string {
+  switch (info.method) {
+    case 'manual': return info.xmlId ? 'Escolha manual' : 'Sem guia (manual)';
+    case 'epgId': return 'Pelo id de EPG da fonte';
+    case 'name': return 'Pelo nome';
+    default: return 'Sem correspondência';
+  }
+}
+
+interface PickerProps {
+  channel: EpgMatchInfo | null;
+  onSelect: (xmlId: string | null) => void;
+  onAutomatic: () => void;
+  onClose: () => void;
+}
+
+const XmltvPickerModal = memo(({ channel, onSelect, onAutomatic, onClose }: PickerProps) => {
+  const insets = useSafeAreaInsets();
+  const [query, setQuery] = useState('');
+
+  useEffect(() => { setQuery(''); }, [channel?.appId]);
+
+  const results = useMemo((): XmltvChannelRef[] => {
+    if (!channel) return [];
+    const q = normalizeChannelName(query);
+    if (!q) {
+      return suggestEpgChannels(channel.name, 10).map(s => ({ id: s.id, names: [s.name] }));
+    }
+    return getXmltvChannels()
+      .filter(ch => ch.id.toLowerCase().includes(q) || ch.names.some(n => normalizeChannelName(n).includes(q)))
+      .slice(0, MAX_RESULTS);
+  }, [channel, query]);
+
+  const renderItem = useCallback(({ item }: { item: XmltvChannelRef }) => {
+    const selected = item.id === channel?.xmlId;
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => onSelect(item.id)}>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName} numberOfLines={1}>{item.names[0] ?? item.id}</Text>
+          <Text style={styles.rowMeta} numberOfLines={1}>{item.id}</Text>
+        </View>
+        {selected && <Ionicons name="checkmark-circle" size={20} color={Colors.primary} />}
+      </TouchableOpacity>
+    );
+  }, [channel?.xmlId, onSelect]);
+
+  return (
+    <Modal visible={!!channel} transparent animationType="slide" onRequestClose={onClose} supportedOrientations={['portrait', 'landscape']}>
+      <View style={[styles.modal, { paddingTop: insets.top + Spacing.sm }]}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle} numberOfLines={1}>{channel?.name}</Text>
+          <TouchableOpacity onPress={onClose} hitSlop={8}>
+            <Ionicons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={18} color={Colors.textSecondary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Buscar no guia..."
+            placeholderTextColor={Colors.textMuted}
+            value={query}
+            onChangeText={setQuery}
+          />
+        </View>
+
+        <View style={styles.modalActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={onAutomatic}>
+            <Ionicons name="sparkles-outline" size={16} color={Colors.text} />
+            <Text style={styles.actionText}>Automático</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => onSelect(null)}>
+            <Ionicons name="remove-circle-outline" size={16} color={Colors.text} />
+            <Text style={styles.actionText}>Sem guia</Text>
+          </TouchableOpacity>
+        </View>
+
+        {!query && results.length > 0 && <Text style={styles.sectionLabel}>Sugestões</Text>}
+
+        <FlatList
+          data={results}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingBottom: insets.bottom + Spacing.lg }}
+          ListEmptyComponent={<Text style={styles.emptyText}>Nenhum canal do guia encontrado</Text>}
+        />
+      </View>
+    </Modal>
+  );
+});
+
+XmltvPickerModal.displayName = 'XmltvPickerModal';
+
+export default function EpgMatchingScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [showAll, setShowAll] = useState(false);
+  const [epgState, setEpgState] = useState('idle');
+  const [editing, setEditing] = useState<EpgMatchInfo | null>(null);
+
+  const overrides = useEpgMatchStore(state => state.overrides);
+  const setOverride = useEpgMatchStore(state => state.setOverride);
+  const clearOverride = useEpgMatchStore(state => state.clearOverride);
+
+  useEffect(() => onEPGStateChange(setEpgState), []);
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const matches = useMemo(() => getEpgMatchList(), [epgState, overrides]);
+  const unmatchedCount = matches.filter(m => !m.xmlId).length;
+  const hasGuide = getXmltvChannels().length > 0;
+
+  const visible = useMemo(() => {
+    const list = showAll ? matches : matches.filter(m => !m.xmlId);
+    return [...list].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+  }, [matches, showAll]);
+
+  const handleSelect = useCallback((xmlId: string | null) => {
+    if (editing) setOverride(editing.appId, xmlId);
+    setEditing(null);
+  }, [editing, setOverride]);
+
+  const handleAutomatic = useCallback(() => {
+    if (editing) clearOverride(editing.appId);
+    setEditing(null);
+  }, [editing, clearOverride]);
+
+  const renderItem = useCallback(({ item }: { item: EpgMatchInfo }) => (
+    <TouchableOpacity style={styles.row} onPress={() => setEditing(item)} disabled={!hasGuide}>
+      <Ionicons
+        name={item.xmlId ? 'checkmark-circle-outline' : 'help-circle-outline'}
+        size={22}
+        color={item.xmlId ? Colors.primary : Colors.textSecondary}
+      />
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.rowMeta} numberOfLines={1}>
+          {item.xmlName ? `${item.xmlName} • ` : ''}{methodLabel(item)}
+        </Text>
+      </View>
+      <Ionicons name="create-outline" size={18} color={Colors.textSecondary} />
+    </TouchableOpacity>
+  ), [hasGuide]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Correspondência do guia</Text>
+          <Text style={styles.count}>{unmatchedCount} de {matches.length} sem guia</Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <View style={styles.filters}>
+        {[false, true].map(all => {
+          const active = showAll === all;
+          return (
+            <TouchableOpacity
+              key={String(all)}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setShowAll(all)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {all ? 'Todos' : 'Sem correspondência'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <FlatList
+        data={visible}
+        renderItem={renderItem}
+        keyExtractor={item => item.appId}
+        getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+        initialNumToRender={20}
+        windowSize={7}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 40 }}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {hasGuide ? 'Todos os canais têm guia' : 'O guia de TV ainda não foi carregado'}
+          </Text>
+        }
+      />
+
+      <XmltvPickerModal
+        channel={editing}
+        onSelect={handleSelect}
+        onAutomatic={handleAutomatic}
+        onClose={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  filters: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceVariant,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+  },
+  chipText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  chipTextActive: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xxxl,
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+  modalTitle: {
+    flex: 1,
+    color: Colors.text,
+    ...Typography.h3,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.body.fontSize,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceVariant,
+  },
+  actionText: {
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+  },
+  sectionLabel: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.xs,
+  },
+});
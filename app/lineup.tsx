@@ -0,0 +1,612 @@
+import React, { memo, useState, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  Modal,
+  Animated,
+  PanResponder,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import type { Channel } from '../types';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useChannelStore, filterChannelsByCategory } from '../stores/channelStore';
+import { usePlaylistStore } from '../stores/playlistStore';
+import { useXtreamStore } from '../stores/xtreamStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSourceStore } from '../stores/sourceStore';
+import { useFavoritesStore } from '../stores/favoritesStore';
+import { useLineupStore, getOverride, isInGroup, type ChannelGroup } from '../stores/lineupStore';
+import { channelIdsOf } from '../services/channelMerge';
+import CategoryTabs from '../components/CategoryTabs';
+
+const ROW_HEIGHT = 64;
+
+interface LineupRowProps {
+  channel: Channel;
+  index: number;
+  isHidden: boolean;
+  isDragging: boolean;
+  dragY: Animated.Value;
+  onDragStart: (index: number) => void;
+  onDragEnd: (index: number, dy: number) => void;
+  onToggleHidden: (channel: Channel, hidden: boolean) => void;
+  onEdit: (channel: Channel) => void;
+}
+
+const LineupRow = memo(({
+  channel,
+  index,
+  isHidden,
+  isDragging,
+  dragY,
+  onDragStart,
+  onDragEnd,
+  onToggleHidden,
+  onEdit,
+}: LineupRowProps) => {
+  // Arrastar pela alça; a linha acompanha o dedo e solta na posição mais próxima
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: () => {
+      dragY.setValue(0);
+      onDragStart(index);
+    },
+    onPanResponderMove: (_, g) => dragY.setValue(g.dy),
+    onPanResponderRelease: (_, g) => onDragEnd(index, g.dy),
+    onPanResponderTerminate: () => onDragEnd(index, 0),
+  }), [index, dragY, onDragStart, onDragEnd]);
+
+  return (
+    <Animated.View
+      style={[
+        styles.row,
+        isHidden && styles.rowHidden,
+        isDragging && styles.rowDragging,
+        isDragging && { transform: [{ translateY: dragY }] },
+      ]}
+    >
+      <View style={styles.dragHandle} {...panResponder.panHandlers}>
+        <Ionicons name="reorder-three" size={24} color={Colors.textSecondary} />
+      </View>
+      <Text style={styles.number}>{channel.channelNumber ?? ''}</Text>
+      {channel.logo ? (
+        <Image source={{ uri: channel.logo }} style={styles.logo} contentFit="contain" />
+      ) : (
+        <View style={styles.logo}>
+          <Ionicons name="tv-outline" size={18} color={Colors.textSecondary} />
+        </View>
+      )}
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowName} numberOfLines={1}>{channel.name}</Text>
+        <Text style={styles.rowCategory} numberOfLines={1}>{channel.category}</Text>
+      </View>
+      <TouchableOpacity style={styles.rowAction} onPress={() => onEdit(channel)} hitSlop={6}>
+        <Ionicons name="create-outline" size={20} color={Colors.text} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.rowAction} onPress={() => onToggleHidden(channel, !isHidden)} hitSlop={6}>
+        <Ionicons
+          name={isHidden ? 'eye-off-outline' : 'eye-outline'}
+          size={20}
+          color={isHidden ? Colors.textMuted : Colors.text}
+        />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+});
+
+LineupRow.displayName = 'LineupRow';
+
+export default function LineupScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [category, setCategory] = useState('Todos');
+  const [query, setQuery] = useState('');
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+
+  // Edição de canal
+  const [editing, setEditing] = useState<Channel | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editLogo, setEditLogo] = useState('');
+
+  // Gerenciar grupos
+  const [showGroups, setShowGroups] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+
+  const adultUnlocked = useSettingsStore(state => state.adultUnlocked);
+  const { favorites } = useFavoritesStore();
+  const { getAllChannels, getCategories, proChannels } = useChannelStore();
+  const sourceSettings = useSourceStore(state => state.settings);
+  const playlistChannels = usePlaylistStore(state => state.channels);
+  const xtreamChannels = useXtreamStore(state => state.channels);
+  const {
+    order,
+    hidden,
+    overrides,
+    groups,
+    moveChannel,
+    setHidden,
+    setOverride,
+    createGroup,
+    renameGroup,
+    deleteGroup,
+    toggleInGroup,
+    resetLineup,
+  } = useLineupStore();
+
+  // Lista completa, incluindo ocultos
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const allChannels = useMemo(() => getAllChannels(adultUnlocked, true), [adultUnlocked, getAllChannels, sourceSettings, proChannels, playlistChannels, xtreamChannels, order, overrides]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const categories = useMemo(() => getCategories(adultUnlocked).filter(c => c !== 'Recentes'), [adultUnlocked, getCategories, sourceSettings, proChannels, playlistChannels, xtreamChannels, groups]);
+  const hiddenSet = useMemo(() => new Set(hidden), [hidden]);
+  const isHidden = useCallback((ch: Channel) => channelIdsOf(ch).some(id => hiddenSet.has(id)), [hiddenSet]);
+  const hiddenCount = useMemo(() => allChannels.filter(isHidden).length, [allChannels, isHidden]);
+
+  const visible = useMemo(() => {
+    let list = filterChannelsByCategory(allChannels, category, favorites);
+    const q = query.toLowerCase().trim();
+    if (q) list = list.filter(ch => ch.name.toLowerCase().includes(q));
+    return list;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [allChannels, category, query, favorites, groups]);
+
+  const handleDragStart = useCallback((index: number) => setDraggingIndex(index), []);
+
+  const handleDragEnd = useCallback((index: number, dy: number) => {
+    setDraggingIndex(null);
+    dragY.setValue(0);
+    const target = Math.max(0, Math.min(visible.length - 1, index + Math.round(dy / ROW_HEIGHT)));
+    if (target === index) return;
+    moveChannel(allChannels.map(ch => ch.id), visible[index].id, visible[target].id);
+  }, [visible, allChannels, moveChannel, dragY]);
+
+  const handleEdit = useCallback((channel: Channel) => {
+    const override = getOverride(channel);
+    setEditing(channel);
+    setEditName(override?.name ?? '');
+    setEditLogo(override?.logo ?? '');
+  }, []);
+
+  const handleSaveEdit = useCallback(() => {
+    if (!editing) return;
+    setOverride(editing, { name: editName, logo: editLogo });
+    setEditing(null);
+  }, [editing, editName, editLogo, setOverride]);
+
+  const handleReset = useCallback(() => {
+    Alert.alert(
+      'Restaurar lineup',
+      'Voltar à ordem original, mostrar todos os canais e remover nomes/logos personalizados? Os grupos são mantidos.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Restaurar', style: 'destructive', onPress: resetLineup },
+      ]
+    );
+  }, [resetLineup]);
+
+  // Nome de grupo não pode repetir categoria existente (as abas usam o nome)
+  const isNameTaken = useCallback((name: string, exceptGroupId?: string) => {
+    const n = name.trim().toLowerCase();
+    const baseCats = getCategories(true).filter(c => !groups.some(g => g.name === c));
+    return baseCats.some(c => c.toLowerCase() === n)
+      || groups.some(g => g.id !== exceptGroupId && g.name.toLowerCase() === n);
+  }, [getCategories, groups]);
+
+  const handleCreateGroup = useCallback(() => {
+    const name = newGroupName.trim();
+    if (!name) return;
+    if (isNameTaken(name)) {
+      Alert.alert('Nome em uso', `Já existe uma categoria ou grupo chamado "${name}".`);
+      return;
+    }
+    createGroup(name);
+    setNewGroupName('');
+  }, [newGroupName, isNameTaken, createGroup]);
+
+  const handleRenameGroup = useCallback((group: ChannelGroup, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === group.name) return;
+    if (isNameTaken(trimmed, group.id)) {
+      Alert.alert('Nome em uso', `Já existe uma categoria ou grupo chamado "${trimmed}".`);
+      return;
+    }
+    if (category === group.name) setCategory(trimmed);
+    renameGroup(group.id, trimmed);
+  }, [isNameTaken, renameGroup, category]);
+
+  const handleDeleteGroup = useCallback((group: ChannelGroup) => {
+    Alert.alert(
+      'Excluir grupo',
+      `Excluir o grupo "${group.name}"? Os canais continuam na lista.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: () => {
+            if (category === group.name) setCategory('Todos');
+            deleteGroup(group.id);
+          },
+        },
+      ]
+    );
+  }, [deleteGroup, category]);
+
+  const renderItem = useCallback(({ item, index }: { item: Channel; index: number }) => (
+    <LineupRow
+      channel={item}
+      index={index}
+      isHidden={isHidden(item)}
+      isDragging={draggingIndex === index}
+      dragY={dragY}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onToggleHidden={setHidden}
+      onEdit={handleEdit}
+    />
+  ), [isHidden, draggingIndex, dragY, handleDragStart, handleDragEnd, setHidden, handleEdit]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Organizar canais</Text>
+          <Text style={styles.count}>{allChannels.length - hiddenCount} visíveis · {hiddenCount} ocultos</Text>
+        </View>
+        <TouchableOpacity style={styles.backButton} onPress={() => setShowGroups(true)}>
+          <Ionicons name="folder-outline" size={22} color={Colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.backButton, { marginLeft: Spacing.sm }]} onPress={handleReset}>
+          <Ionicons name="refresh" size={22} color={Colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={18} color={Colors.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Buscar canal..."
+          placeholderTextColor={Colors.textMuted}
+          value={query}
+          onChangeText={setQuery}
+        />
+      </View>
+
+      <CategoryTabs categories={categories} selectedCategory={category} onSelectCategory={setCategory} />
+
+      <FlatList
+        data={visible}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        extraData={draggingIndex}
+        scrollEnabled={draggingIndex === null}
+        getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+        initialNumToRender={20}
+        windowSize={9}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 40 }}
+        ListHeaderComponent={
+          <Text style={styles.hint}>
+            Arraste pela alça para mudar a ordem. A numeração dos canais segue a ordem desta lista.
+          </Text>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>Nenhum canal encontrado</Text>}
+      />
+
+      {/* Editar canal */}
+      <Modal visible={!!editing} transparent animationType="fade" onRequestClose={() => setEditing(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle} numberOfLines={1}>{editing?.name}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Nome personalizado"
+              placeholderTextColor={Colors.textMuted}
+              value={editName}
+              onChangeText={setEditName}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="URL do logo (opcional)"
+              placeholderTextColor={Colors.textMuted}
+              value={editLogo}
+              onChangeText={setEditLogo}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+
+            {groups.length > 0 && editing && (
+              <>
+                <Text style={styles.sectionTitle}>Grupos</Text>
+                <View style={styles.chips}>
+                  {groups.map(g => {
+                    const inGroup = isInGroup(g, editing);
+                    return (
+                      <TouchableOpacity
+                        key={g.id}
+                        style={[styles.chip, inGroup && styles.chipActive]}
+                        onPress={() => toggleInGroup(g.id, editing)}
+                      >
+                        <Ionicons name={inGroup ? 'checkmark' : 'add'} size={14} color={Colors.text} />
+                        <Text style={styles.chipText}>{g.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={[styles.button, styles.buttonSecondary, styles.modalButton]} onPress={() => setEditing(null)}>
+                <Text style={styles.buttonText}>Cancelar</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.modalButton]} onPress={handleSaveEdit}>
+                <Text style={styles.buttonText}>Salvar</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Grupos */}
+      <Modal visible={showGroups} transparent animationType="fade" onRequestClose={() => setShowGroups(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Meus grupos</Text>
+            {groups.length === 0 && (
+              <Text style={styles.hint}>Grupos aparecem como abas ao lado de Favoritos.</Text>
+            )}
+            {groups.map(g => (
+              <View key={g.id} style={styles.groupRow}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  defaultValue={g.name}
+                  placeholderTextColor={Colors.textMuted}
+                  onEndEditing={(e) => handleRenameGroup(g, e.nativeEvent.text)}
+                />
+                <Text style={styles.groupCount}>{g.channelIds.length}</Text>
+                <TouchableOpacity onPress={() => handleDeleteGroup(g)} hitSlop={6}>
+                  <Ionicons name="trash-outline" size={20} color={Colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <View style={styles.groupRow}>
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                placeholder="Novo grupo"
+                placeholderTextColor={Colors.textMuted}
+                value={newGroupName}
+                onChangeText={setNewGroupName}
+                onSubmitEditing={handleCreateGroup}
+              />
+              <TouchableOpacity onPress={handleCreateGroup} hitSlop={6}>
+                <Ionicons name="add-circle" size={28} color={Colors.primary} />
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity style={[styles.button, { marginTop: Spacing.sm }]} onPress={() => setShowGroups(false)}>
+              <Text style={styles.buttonText}>Fechar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.body.fontSize,
+  },
+  hint: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: Spacing.lg,
+    gap: Spacing.sm,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  rowHidden: {
+    opacity: 0.45,
+  },
+  rowDragging: {
+    backgroundColor: Colors.surfaceVariant,
+    zIndex: 10,
+    elevation: 6,
+  },
+  dragHandle: {
+    height: '100%',
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.md,
+  },
+  number: {
+    width: 32,
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    textAlign: 'right',
+  },
+  logo: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  rowCategory: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  rowAction: {
+    padding: Spacing.xs,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xxxl,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  modalCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  modalTitle: {
+    color: Colors.text,
+    fontSize: Typography.h3.fontSize,
+    fontWeight: '700',
+    marginBottom: Spacing.xs,
+  },
+  sectionTitle: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceVariant,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+  },
+  chipText: {
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '500',
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  groupCount: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+  },
+  buttonSecondary: {
+    backgroundColor: Colors.surfaceVariant,
+  },
+  modalButton: {
+    flex: 1,
+  },
+  buttonText: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  BackHandler,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as ScreenOrientation from 'expo-screen-orientation';
+import * as NavigationBar from 'expo-navigation-bar';
+
+import type { Channel } from '../types';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useChannelStore } from '../stores/channelStore';
+import { usePlaylistStore } from '../stores/playlistStore';
+import { useXtreamStore } from '../stores/xtreamStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSourceStore } from '../stores/sourceStore';
+import { useMultiViewStore, MULTIVIEW_MAX_TILES } from '../stores/multiViewStore';
+import MultiViewTile from '../components/MultiViewTile';
+import ChannelPickerModal from '../components/ChannelPickerModal';
+
+export default function MultiViewScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { channelIds, audioChannelId, addChannel, replaceChannel, removeChannel, setAudioChannel } = useMultiViewStore();
+  const adultUnlocked = useSettingsStore(state => state.adultUnlocked);
+  const proChannels = useChannelStore(state => state.proChannels);
+  const sourceSettings = useSourceStore(state => state.settings);
+  const playlistChannels = usePlaylistStore(state => state.channels);
+  const xtreamChannels = useXtreamStore(state => state.channels);
+
+  // null = fechado; 'add' = novo quadro; id = trocar o canal desse quadro
+  const [pickerTarget, setPickerTarget] = useState<string | null>(null);
+
+  const tiles = useMemo(() => {
+    const all = useChannelStore.getState().getAllChannels(adultUnlocked);
+    const byId = new Map<string, Channel>();
+    for (const ch of all) {
+      byId.set(ch.id, ch);
+      ch.aliasIds?.forEach(id => { if (!byId.has(id)) byId.set(id, ch); });
+    }
+    return channelIds.map(id => byId.get(id)).filter((ch): ch is Channel => !!ch);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelIds, adultUnlocked, sourceSettings, proChannels, playlistChannels, xtreamChannels]);
+
+  // Mesma orientação do player: paisagem e barra de navegação escondida
+  useEffect(() => {
+    (async () => {
+      try {
+        await ScreenOrientation.lockAsync(ScreenOrientation.OrientationLock.LANDSCAPE);
+        if (Platform.OS === 'android') {
+          await NavigationBar.setVisibilityAsync('hidden');
+          await NavigationBar.setBehaviorAsync('overlay-swipe');
+        }
+      } catch {}
+    })();
+    return () => {
+      (async () => {
+        try {
+          await ScreenOrientation.lockAsync(ScreenOrientation.OrientationLock.PORTRAIT_UP);
+          if (Platform.OS === 'android') {
+            await NavigationBar.setVisibilityAsync('visible');
+          }
+        } catch {}
+      })();
+    };
+  }, []);
+
+  useEffect(() => {
+    const sub = BackHandler.addEventListener('hardwareBackPress', () => {
+      if (pickerTarget) { setPickerTarget(null); return true; }
+      return false;
+    });
+    return () => sub.remove();
+  }, [pickerTarget]);
+
+  const handlePick = useCallback((channel: Channel) => {
+    if (pickerTarget === 'add') addChannel(channel.id);
+    else if (pickerTarget) replaceChannel(pickerTarget, channel.id);
+    setPickerTarget(null);
+  }, [pickerTarget, addChannel, replaceChannel]);
+
+  const handleReplace = useCallback((channelId: string) => setPickerTarget(channelId), []);
+
+  const canAdd = tiles.length < MULTIVIEW_MAX_TILES;
+  const lowBitrate = tiles.length > 2;
+
+  // 1 quadro: tela cheia; 2: lado a lado; 3–4: grade 2x2
+  const rows: (Channel | null)[][] = useMemo(() => {
+    if (tiles.length <= 2) return [tiles];
+    const slots: (Channel | null)[] = [...tiles];
+    if (slots.length < MULTIVIEW_MAX_TILES) slots.push(null);
+    return [slots.slice(0, 2), slots.slice(2, 4)];
+  }, [tiles]);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar hidden />
+
+      {tiles.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="grid-outline" size={56} color={Colors.textSecondary} />
+          <Text style={styles.emptyTitle}>Multi-view</Text>
+          <Text style={styles.emptyText}>
+            Assista até {MULTIVIEW_MAX_TILES} canais ao mesmo tempo. Toque em um quadro para ouvir o áudio dele.
+          </Text>
+          <TouchableOpacity style={styles.addButton} onPress={() => setPickerTarget('add')}>
+            <Ionicons name="add" size={20} color={Colors.text} />
+            <Text style={styles.addButtonText}>Adicionar canal</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.grid}>
+          {rows.map((row, r) => (
+            <View key={r} style={styles.gridRow}>
+              {row.map((channel, c) => channel ? (
+                <MultiViewTile
+                  key={channel.id}
+                  channel={channel}
+                  hasAudio={channel.id === audioChannelId}
+                  lowBitrate={lowBitrate}
+                  onSelectAudio={setAudioChannel}
+                  onReplace={handleReplace}
+                  onRemove={removeChannel}
+                />
+              ) : (
+                <TouchableOpacity key={`empty-${c}`} style={styles.emptySlot} onPress={() => setPickerTarget('add')}>
+                  <Ionicons name="add-circle-outline" size={36} color={Colors.textSecondary} />
+                  <Text style={styles.emptySlotText}>Adicionar canal</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Top bar */}
+      <View style={[styles.topBar, { paddingTop: insets.top + Spacing.xs }]} pointerEvents="box-none">
+        <TouchableOpacity style={styles.iconButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={Colors.text} />
+        </TouchableOpacity>
+        {tiles.length > 0 && canAdd && tiles.length <= 2 && (
+          <TouchableOpacity style={styles.iconButton} onPress={() => setPickerTarget('add')}>
+            <Ionicons name="add" size={22} color={Colors.text} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ChannelPickerModal
+        visible={pickerTarget !== null}
+        title={pickerTarget === 'add' ? 'Adicionar ao multi-view' : 'Trocar canal'}
+        excludeIds={channelIds}
+        onSelect={handlePick}
+        onClose={() => setPickerTarget(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  grid: {
+    flex: 1,
+  },
+  gridRow: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  emptySlot: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderStyle: 'dashed',
+  },
+  emptySlotText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.xxl,
+    gap: Spacing.md,
+  },
+  emptyTitle: {
+    color: Colors.text,
+    ...Typography.h2,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.body.fontSize,
+    textAlign: 'center',
+    maxWidth: 420,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.primary,
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  addButtonText: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  topBar: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  iconButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.overlay,
+    borderRadius: BorderRadius.full,
+  },
+});
@@ -5,7 +5,13 @@ import { useLocalSearchParams } from 'expo-router';
 import { Colors } from '../../constants/Colors';
 import { getChannelById } from '../../data/channels';
 import { useChannelStore } from '../../stores/channelStore';
+import { usePlaylistStore } from '../../stores/playlistStore';
+import { useXtreamStore } from '../../stores/xtreamStore';
+import { withOverride } from '../../stores/lineupStore';
+import { useSourceStore } from '../../stores/sourceStore';
 import VideoPlayer from '../../components/VideoPlayer';
+import type { CatchupSession } from '../../services/catchupService';
+import { channelMatchesId } from '../../services/channelMerge';
 import type { Channel } from '../../types';
 
 export default function PlayerScreen() {
@@ -16,16 +22,32 @@ export default function PlayerScreen() {
     category?: string;
     logo?: string;
     channelNumber?: string;
+    /** Programa do arquivo (catch-up), em ms */
+    catchupStart?: string;
+    catchupEnd?: string;
+    catchupTitle?: string;
   }>();
   const proChannels = useChannelStore(state => state.proChannels);
+  const sourceSettings = useSourceStore(state => state.settings);
+  const playlistChannels = usePlaylistStore(state => state.channels);
+  const xtreamChannels = useXtreamStore(state => state.channels);
 
-  const channel = useMemo<Channel | null>(() => {
+  const resolved = useMemo<Channel | null>(() => {
+    // Lista mesclada das fontes ativas (streams alternativos de outras fontes, ids antigos em aliasIds)
+    const merged = useChannelStore.getState().getAllChannels(true, true)
+      .find(ch => channelMatchesId(ch, params.id));
+    if (merged) return merged;
     // Always prefer local data (has DRM, headers, streams)
     const local = getChannelById(params.id);
     if (local) return local;
     // Pro channel not in local data — build from params
     const pro = proChannels.find(ch => ch.id === params.id);
     if (pro) return pro;
+    // Canal de playlist M3U importada ou conta Xtream
+    for (const list of [...Object.values(playlistChannels), ...Object.values(xtreamChannels)]) {
+      const found = list.find(ch => ch.id === params.id);
+      if (found) return found;
+    }
     // Last resort: params only (no DRM info)
     if (params.url && params.name && params.category) {
       const num = params.channelNumber ? Number(params.channelNumber) : undefined;
@@ -39,7 +61,16 @@ export default function PlayerScreen() {
       };
     }
     return null;
-  }, [params.id, params.url, params.name, params.category, params.logo, params.channelNumber, proChannels]);
+  }, [params.id, params.url, params.name, params.category, params.logo, params.channelNumber, sourceSettings, proChannels, playlistChannels, xtreamChannels]);
+  // Nome/logo personalizados no lineup
+  const channel = useMemo(() => resolved && withOverride(resolved), [resolved]);
+
+  const catchup = useMemo<CatchupSession | undefined>(() => {
+    const start = Number(params.catchupStart);
+    const end = Number(params.catchupEnd);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) return undefined;
+    return { start, end, title: params.catchupTitle ?? '' };
+  }, [params.catchupStart, params.catchupEnd, params.catchupTitle]);
 
   if (!channel) {
     return <View style={styles.container} />;
@@ -47,7 +78,7 @@ export default function PlayerScreen() {
 
   return (
     <View style={styles.container}>
-      <VideoPlayer channel={channel} />
+      <VideoPlayer channel={channel} catchup={catchup} />
     </View>
   );
 }
@@ -0,0 +1,293 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { usePlaylistStore, type Playlist } from '../stores/playlistStore';
+
+function formatDate(ts: number): string {
+  const d = new Date(ts);
+  return `${d.toLocaleDateString('pt-BR')} ${d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export default function PlaylistsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  const { playlists, isImporting, addFromUrl, importFile, refreshPlaylist, removePlaylist } = usePlaylistStore();
+
+  const handleAddUrl = useCallback(async () => {
+    if (!/^https?:\/\//i.test(url.trim())) {
+      Alert.alert('URL inválida', 'Informe um endereço http(s) para a playlist.');
+      return;
+    }
+    try {
+      const pl = await addFromUrl(name, url);
+      setName('');
+      setUrl('');
+      Alert.alert('Playlist importada', `${pl.channelCount} canais adicionados em "${pl.name}".`);
+    } catch (e: any) {
+      Alert.alert('Erro ao importar', e?.message || 'Não foi possível baixar a playlist.');
+    }
+  }, [name, url, addFromUrl]);
+
+  const handleImportFile = useCallback(async () => {
+    try {
+      const pl = await importFile();
+      if (pl) Alert.alert('Playlist importada', `${pl.channelCount} canais adicionados em "${pl.name}".`);
+    } catch (e: any) {
+      Alert.alert('Erro ao importar', e?.message || 'Não foi possível ler o arquivo.');
+    }
+  }, [importFile]);
+
+  const handleRefresh = useCallback(async (id: string) => {
+    setRefreshingId(id);
+    await refreshPlaylist(id);
+    setRefreshingId(null);
+  }, [refreshPlaylist]);
+
+  const handleRemove = useCallback((pl: Playlist) => {
+    Alert.alert(
+      'Remover playlist',
+      `Deseja remover "${pl.name}" e seus ${pl.channelCount} canais?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Remover', style: 'destructive', onPress: () => removePlaylist(pl.id) },
+      ]
+    );
+  }, [removePlaylist]);
+
+  const renderItem = useCallback(({ item }: { item: Playlist }) => (
+    <View style={styles.playlistRow}>
+      <Ionicons
+        name={item.kind === 'url' ? 'globe-outline' : 'document-text-outline'}
+        size={22}
+        color={Colors.primary}
+      />
+      <View style={styles.playlistInfo}>
+        <Text style={styles.playlistName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.playlistMeta} numberOfLines={1}>
+          {item.channelCount} canais • {formatDate(item.updatedAt)}
+        </Text>
+        {item.error ? (
+          <Text style={styles.playlistError} numberOfLines={1}>{item.error}</Text>
+        ) : null}
+      </View>
+      {refreshingId === item.id ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.iconButton} />
+      ) : (
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleRefresh(item.id)}>
+          <Ionicons name="refresh-outline" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(item)}>
+        <Ionicons name="trash-outline" size={20} color={Colors.error} />
+      </TouchableOpacity>
+    </View>
+  ), [refreshingId, handleRefresh, handleRemove]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Playlists M3U</Text>
+          <Text style={styles.count}>{playlists.length} importadas</Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <FlatList
+        data={playlists}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        ListHeaderComponent={
+          <View>
+            <Text style={styles.sectionTitle}>Adicionar por URL</Text>
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                placeholder="Nome da lista (opcional)"
+                placeholderTextColor={Colors.textMuted}
+                value={name}
+                onChangeText={setName}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="https://exemplo.com/lista.m3u"
+                placeholderTextColor={Colors.textMuted}
+                value={url}
+                onChangeText={setUrl}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <TouchableOpacity
+                style={[styles.button, isImporting && styles.buttonDisabled]}
+                onPress={handleAddUrl}
+                disabled={isImporting}
+              >
+                {isImporting ? (
+                  <ActivityIndicator size="small" color={Colors.text} />
+                ) : (
+                  <Text style={styles.buttonText}>Importar URL</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.buttonSecondary]}
+                onPress={handleImportFile}
+                disabled={isImporting}
+              >
+                <Ionicons name="folder-open-outline" size={18} color={Colors.text} />
+                <Text style={styles.buttonText}>Importar arquivo</Text>
+              </TouchableOpacity>
+            </View>
+            {playlists.length > 0 && <Text style={styles.sectionTitle}>Minhas playlists</Text>}
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            Nenhuma playlist importada. Os canais importados aparecem na aba TV com suas próprias categorias.
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  sectionTitle: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  form: {
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+  },
+  buttonSecondary: {
+    backgroundColor: Colors.surfaceVariant,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  playlistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.md,
+  },
+  playlistInfo: {
+    flex: 1,
+  },
+  playlistName: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  playlistMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  playlistError: {
+    color: Colors.error,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  divider: {
+    height: Spacing.sm,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+  },
+});
@@ -0,0 +1,337 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  TouchableOpacity,
+  SectionList,
+  ActivityIndicator,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import type { Channel, Program } from '../types';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useChannelStore } from '../stores/channelStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSourceStore } from '../stores/sourceStore';
+import { searchPrograms } from '../services/epgService';
+import ReminderButton from '../components/ReminderButton';
+import RecordButton from '../components/RecordButton';
+
+// Espera a digitação parar antes de varrer o guia
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+interface ResultItem {
+  key: string;
+  channel: Channel;
+  program: Program;
+}
+
+interface DaySection {
+  title: string;
+  data: ResultItem[];
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+function dayTitle(date: Date): string {
+  const today = new Date();
+  const tomorrow = new Date(today.getTime() + 86400000);
+  if (date.toDateString() === today.toDateString()) return 'Hoje';
+  if (date.toDateString() === tomorrow.toDateString()) return 'Amanhã';
+  return date.toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: '2-digit' });
+}
+
+export default function ProgramSearchScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [query, setQuery] = useState('');
+  const [sections, setSections] = useState<DaySection[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [resultCount, setResultCount] = useState(0);
+
+  const adultUnlocked = useSettingsStore(state => state.adultUnlocked);
+  const { getAllChannels, proChannels } = useChannelStore();
+  const sourceSettings = useSourceStore(state => state.settings);
+
+  // Id do canal e das fontes mescladas nele → canal exibido
+  const channelById = useMemo(() => {
+    const map = new Map<string, Channel>();
+    for (const ch of getAllChannels(adultUnlocked)) {
+      map.set(ch.id, ch);
+      ch.aliasIds?.forEach(alias => { if (!map.has(alias)) map.set(alias, ch); });
+    }
+    return map;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [adultUnlocked, getAllChannels, proChannels, sourceSettings]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < MIN_QUERY_LENGTH) {
+      setSections([]);
+      setResultCount(0);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchPrograms(q, Array.from(channelById.keys()));
+      if (cancelled) return;
+
+      // Fontes mescladas trazem o mesmo programa mais de uma vez
+      const seen = new Set<string>();
+      const byDay = new Map<string, DaySection>();
+      for (const { appId, program } of found) {
+        const channel = channelById.get(appId);
+        if (!channel) continue;
+        const key = `${channel.id}@${program.startTime.getTime()}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const title = dayTitle(program.startTime);
+        let section = byDay.get(title);
+        if (!section) { section = { title, data: [] }; byDay.set(title, section); }
+        section.data.push({ key, channel, program });
+      }
+      setSections(Array.from(byDay.values()));
+      setResultCount(seen.size);
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, channelById]);
+
+  const renderItem = useCallback(({ item }: { item: ResultItem }) => {
+    const now = Date.now();
+    const live = item.program.startTime.getTime() <= now && item.program.endTime.getTime() > now;
+    return (
+      <View style={styles.resultRow}>
+        <View style={styles.logoBox}>
+          {item.channel.logo ? (
+            <Image source={{ uri: item.channel.logo }} style={styles.logo} contentFit="contain" />
+          ) : (
+            <Ionicons name="tv-outline" size={18} color={Colors.textSecondary} />
+          )}
+        </View>
+        <View style={styles.resultInfo}>
+          <Text style={styles.resultTitle} numberOfLines={1}>{item.program.title}</Text>
+          <Text style={styles.resultMeta} numberOfLines={1}>
+            {formatTime(item.program.startTime)}–{formatTime(item.program.endTime)} • {item.channel.name}
+          </Text>
+          {item.program.category ? (
+            <Text style={styles.resultCategory} numberOfLines={1}>{item.program.category}</Text>
+          ) : null}
+        </View>
+        {live ? (
+          <TouchableOpacity
+            style={styles.watchButton}
+            onPress={() => router.push({ pathname: '/player/[id]', params: { id: item.channel.id } })}
+          >
+            <View style={styles.liveDot} />
+            <Text style={styles.watchText}>AO VIVO</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.actions}>
+            <RecordButton channel={item.channel} program={item.program} size={18} />
+            <ReminderButton channel={item.channel} program={item.program} size={18} />
+          </View>
+        )}
+      </View>
+    );
+  }, [router]);
+
+  const renderSectionHeader = useCallback(({ section }: { section: DaySection }) => (
+    <Text style={styles.sectionTitle}>{section.title}</Text>
+  ), []);
+
+  const tooShort = query.trim().length < MIN_QUERY_LENGTH;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Buscar na programação</Text>
+          <Text style={styles.count}>
+            {tooShort ? 'Próximos 7 dias' : `${resultCount} programas`}
+          </Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={18} color={Colors.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Título, descrição ou categoria..."
+          placeholderTextColor={Colors.textMuted}
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {searching && <ActivityIndicator size="small" color={Colors.primary} />}
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.key}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ paddingBottom: insets.bottom + 40 }}
+        ListEmptyComponent={
+          searching ? null : (
+            <Text style={styles.emptyText}>
+              {tooShort ? 'Digite pelo menos 2 letras para buscar' : 'Nenhum programa encontrado'}
+            </Text>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.body.fontSize,
+  },
+  sectionTitle: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    backgroundColor: Colors.background,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.border,
+  },
+  logoBox: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  logo: {
+    width: 34,
+    height: 34,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  resultMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  resultCategory: {
+    color: Colors.textMuted,
+    fontSize: 11,
+    marginTop: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  watchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: Colors.live + '22',
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  liveDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.live,
+  },
+  watchText: {
+    color: Colors.live,
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xxxl,
+    paddingHorizontal: Spacing.lg,
+  },
+});
@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import type { ProgramReminder } from '../types';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useReminderStore } from '../stores/reminderStore';
+
+function formatWhen(ts: number): string {
+  const d = new Date(ts);
+  const today = new Date();
+  const tomorrow = new Date(today.getTime() + 86400000);
+  const time = d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  if (d.toDateString() === today.toDateString()) return `Hoje, ${time}`;
+  if (d.toDateString() === tomorrow.toDateString()) return `Amanhã, ${time}`;
+  return `${d.toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit' })}, ${time}`;
+}
+
+export default function RemindersScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { reminders, removeReminder, pruneReminders } = useReminderStore();
+
+  useEffect(() => { pruneReminders(); }, [pruneReminders]);
+
+  const handleRemove = useCallback((reminder: ProgramReminder) => {
+    Alert.alert(
+      'Remover lembrete',
+      `Não avisar mais sobre "${reminder.title}"?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Remover', style: 'destructive', onPress: () => removeReminder(reminder.id) },
+      ]
+    );
+  }, [removeReminder]);
+
+  const renderItem = useCallback(({ item }: { item: ProgramReminder }) => (
+    <TouchableOpacity
+      style={styles.reminderRow}
+      onPress={() => router.push({ pathname: '/player/[id]', params: { id: item.channelId } })}
+    >
+      <Ionicons name="notifications-outline" size={22} color={Colors.primary} />
+      <View style={styles.reminderInfo}>
+        <Text style={styles.reminderTitle} numberOfLines={1}>{item.title}</Text>
+        <Text style={styles.reminderMeta} numberOfLines={1}>
+          {item.channelName} • {formatWhen(item.startTime)}
+        </Text>
+        <Text style={styles.reminderMeta} numberOfLines={1}>Aviso {item.leadMinutes} min antes</Text>
+      </View>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(item)}>
+        <Ionicons name="trash-outline" size={20} color={Colors.error} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  ), [router, handleRemove]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Lembretes</Text>
+          <Text style={styles.count}>{reminders.length} agendados</Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <FlatList
+        data={reminders}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            Nenhum lembrete. Toque no sino ao lado do próximo programa no guia, ou segure um canal e escolha "Lembrar".
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.md,
+  },
+  reminderInfo: {
+    flex: 1,
+  },
+  reminderTitle: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  reminderMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  divider: {
+    height: Spacing.sm,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+  },
+});
@@ -0,0 +1,309 @@
+import React, { memo, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useChannelStore } from '../stores/channelStore';
+import { usePlaylistStore } from '../stores/playlistStore';
+import { useXtreamStore } from '../stores/xtreamStore';
+import { useSourceStore, REFRESH_OPTIONS_HOURS } from '../stores/sourceStore';
+import { listSources, refreshSource, type SourceInfo } from '../services/sourceManager';
+
+function formatDate(ts: number): string {
+  const d = new Date(ts);
+  return `${d.toLocaleDateString('pt-BR')} ${d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+function sourceIcon(source: SourceInfo): keyof typeof Ionicons.glyphMap {
+  switch (source.kind) {
+    case 'bundled': return 'tv-outline';
+    case 'pro': return 'star-outline';
+    case 'xtream': return 'server-outline';
+    default: return source.subKind === 'file' ? 'document-text-outline' : 'globe-outline';
+  }
+}
+
+interface SourceRowProps {
+  source: SourceInfo;
+  refreshing: boolean;
+  onRefresh: (id: string) => void;
+}
+
+const SourceRow = memo(({ source, refreshing, onRefresh }: SourceRowProps) => {
+  const { setEnabled, setRefreshHours, setName } = useSourceStore();
+  const [draftName, setDraftName] = useState(source.name);
+  // Arquivo local e lista embutida não têm o que baixar de novo
+  const showInterval = source.refreshable && source.subKind !== 'file';
+
+  return (
+    <View style={[styles.sourceRow, !source.enabled && styles.sourceRowDisabled]}>
+      <View style={styles.sourceHeader}>
+        <Ionicons name={sourceIcon(source)} size={22} color={Colors.primary} />
+        <TextInput
+          style={styles.nameInput}
+          value={draftName}
+          onChangeText={setDraftName}
+          onEndEditing={() => setName(source.id, draftName === source.defaultName ? '' : draftName)}
+          placeholder={source.defaultName}
+          placeholderTextColor={Colors.textMuted}
+        />
+        <Switch
+          value={source.enabled}
+          onValueChange={(val) => setEnabled(source.id, val)}
+          trackColor={{ false: Colors.surface, true: Colors.primary }}
+          thumbColor={source.enabled ? '#fff' : '#ccc'}
+          ios_backgroundColor={Colors.surface}
+        />
+      </View>
+
+      <Text style={styles.sourceMeta} numberOfLines={1}>
+        {source.channelCount} canais
+        {source.updatedAt ? ` • ${formatDate(source.updatedAt)}` : ''}
+      </Text>
+      {source.error ? (
+        <Text style={styles.sourceError} numberOfLines={2}>{source.error}</Text>
+      ) : null}
+
+      {source.refreshable && (
+        <View style={styles.actionsRow}>
+          {showInterval && (
+            <View style={styles.chips}>
+              {REFRESH_OPTIONS_HOURS.map(hours => {
+                const active = source.refreshHours === hours;
+                return (
+                  <TouchableOpacity
+                    key={hours}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => setRefreshHours(source.id, hours)}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {hours === 0 ? 'Manual' : `${hours}h`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+          {refreshing ? (
+            <ActivityIndicator size="small" color={Colors.primary} style={styles.refreshButton} />
+          ) : (
+            <TouchableOpacity style={styles.refreshButton} onPress={() => onRefresh(source.id)}>
+              <Ionicons name="refresh-outline" size={18} color={Colors.text} />
+              <Text style={styles.refreshText}>Atualizar</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+});
+
+SourceRow.displayName = 'SourceRow';
+
+export default function SourcesScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  const settings = useSourceStore(state => state.settings);
+  const proChannels = useChannelStore(state => state.proChannels);
+  const proListMeta = useChannelStore(state => state.proListMeta);
+  const proListError = useChannelStore(state => state.proListError);
+  const playlists = usePlaylistStore(state => state.playlists);
+  const accounts = useXtreamStore(state => state.accounts);
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const sources = useMemo(() => listSources(), [settings, proChannels, proListMeta, proListError, playlists, accounts]);
+  const enabledCount = sources.filter(s => s.enabled).length;
+
+  const handleRefresh = useCallback(async (id: string) => {
+    setRefreshingId(id);
+    await refreshSource(id);
+    setRefreshingId(null);
+  }, []);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Fontes de canais</Text>
+          <Text style={styles.count}>{enabledCount} de {sources.length} ativas</Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}>
+        <Text style={styles.hint}>
+          Canais repetidos entre as fontes viram um só, com os links das outras fontes como alternativos.
+          A ordem abaixo define qual fonte tem prioridade.
+        </Text>
+
+        {sources.map(source => (
+          <SourceRow
+            key={source.id}
+            source={source}
+            refreshing={refreshingId === source.id}
+            onRefresh={handleRefresh}
+          />
+        ))}
+
+        <View style={styles.addRow}>
+          <TouchableOpacity style={styles.addButton} onPress={() => router.push('/playlists')}>
+            <Ionicons name="list-outline" size={18} color={Colors.text} />
+            <Text style={styles.refreshText}>Playlists M3U</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={() => router.push('/xtream')}>
+            <Ionicons name="server-outline" size={18} color={Colors.text} />
+            <Text style={styles.refreshText}>Contas Xtream</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  hint: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginBottom: Spacing.sm,
+  },
+  sourceRow: {
+    padding: Spacing.md,
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.md,
+  },
+  sourceRowDisabled: {
+    opacity: 0.6,
+  },
+  sourceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  nameInput: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+    paddingVertical: Spacing.xs,
+  },
+  sourceMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  sourceError: {
+    color: Colors.error,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceVariant,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+  },
+  chipText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  chipTextActive: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  refreshButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginLeft: 'auto',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceVariant,
+  },
+  refreshText: {
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceVariant,
+  },
+});
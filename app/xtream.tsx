@@ -0,0 +1,293 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useXtreamStore, type XtreamAccountState } from '../stores/xtreamStore';
+
+function formatExpiry(ts?: number): string {
+  if (!ts) return 'sem validade';
+  return `vence em ${new Date(ts).toLocaleDateString('pt-BR')}`;
+}
+
+export default function XtreamScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [name, setName] = useState('');
+  const [server, setServer] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  const { accounts, isLoggingIn, addAccount, refreshAccount, removeAccount } = useXtreamStore();
+
+  const handleAdd = useCallback(async () => {
+    if (!server.trim() || !username.trim() || !password) {
+      Alert.alert('Dados incompletos', 'Informe servidor, usuário e senha.');
+      return;
+    }
+    try {
+      const acc = await addAccount(name, { server, username, password });
+      setName('');
+      setServer('');
+      setUsername('');
+      setPassword('');
+      Alert.alert('Conta conectada', `${acc.channelCount} canais ao vivo adicionados. Filmes e séries aparecem na aba Filmes.`);
+    } catch (e: any) {
+      Alert.alert('Erro ao conectar', e?.message || 'Não foi possível acessar o servidor.');
+    }
+  }, [name, server, username, password, addAccount]);
+
+  const handleRefresh = useCallback(async (id: string) => {
+    setRefreshingId(id);
+    await refreshAccount(id);
+    setRefreshingId(null);
+  }, [refreshAccount]);
+
+  const handleRemove = useCallback((acc: XtreamAccountState) => {
+    Alert.alert(
+      'Remover conta',
+      `Deseja remover "${acc.name}"? Os canais, filmes e séries dela deixam de aparecer.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Remover', style: 'destructive', onPress: () => removeAccount(acc.id) },
+      ]
+    );
+  }, [removeAccount]);
+
+  const renderItem = useCallback(({ item }: { item: XtreamAccountState }) => (
+    <View style={styles.accountRow}>
+      <Ionicons name="server-outline" size={22} color={Colors.primary} />
+      <View style={styles.accountInfo}>
+        <Text style={styles.accountName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.accountMeta} numberOfLines={1}>
+          {item.channelCount} canais • {formatExpiry(item.expiresAt)}
+        </Text>
+        {item.error ? (
+          <Text style={styles.accountError} numberOfLines={1}>{item.error}</Text>
+        ) : null}
+      </View>
+      {refreshingId === item.id ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.iconButton} />
+      ) : (
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleRefresh(item.id)}>
+          <Ionicons name="refresh-outline" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(item)}>
+        <Ionicons name="trash-outline" size={20} color={Colors.error} />
+      </TouchableOpacity>
+    </View>
+  ), [refreshingId, handleRefresh, handleRemove]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <Text style={styles.title}>Xtream Codes</Text>
+          <Text style={styles.count}>{accounts.length} contas</Text>
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <FlatList
+        data={accounts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View>
+            <Text style={styles.sectionTitle}>Nova conta</Text>
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                placeholder="Nome (opcional)"
+                placeholderTextColor={Colors.textMuted}
+                value={name}
+                onChangeText={setName}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="http://servidor:8080"
+                placeholderTextColor={Colors.textMuted}
+                value={server}
+                onChangeText={setServer}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Usuário"
+                placeholderTextColor={Colors.textMuted}
+                value={username}
+                onChangeText={setUsername}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Senha"
+                placeholderTextColor={Colors.textMuted}
+                value={password}
+                onChangeText={setPassword}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+              <TouchableOpacity
+                style={[styles.button, isLoggingIn && styles.buttonDisabled]}
+                onPress={handleAdd}
+                disabled={isLoggingIn}
+              >
+                {isLoggingIn ? (
+                  <ActivityIndicator size="small" color={Colors.text} />
+                ) : (
+                  <Text style={styles.buttonText}>Conectar</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            {accounts.length > 0 && <Text style={styles.sectionTitle}>Minhas contas</Text>}
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            Nenhuma conta conectada. Canais ao vivo aparecem na aba TV; filmes e séries, na aba Filmes.
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.full,
+  },
+  titleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: Typography.h2.fontSize,
+    fontWeight: '700',
+  },
+  count: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  sectionTitle: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  form: {
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.md,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountName: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  accountMeta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  accountError: {
+    color: Colors.error,
+    fontSize: Typography.caption.fontSize,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  divider: {
+    height: Spacing.sm,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+  },
+});
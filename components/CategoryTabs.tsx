@@ -20,6 +20,7 @@ interface CategoryTabsProps {
 const categoryIcons: Record<string, string> = {
   'Todos': 'grid-outline',
   'Favoritos': 'heart',
+  'Recentes': 'time-outline',
   'TV Aberta': 'tv-outline',
   'Filmes': 'film-outline',
   'Series': 'albums-outline',
@@ -18,7 +18,13 @@ import type { Channel, CurrentProgram } from '../types';
 import { Colors, BorderRadius, Spacing, Typography, Shadows } from '../constants/Colors';
 import { useFavoritesStore } from '../stores/favoritesStore';
 import { useSettingsStore, type SettingsStore } from '../stores/settingsStore';
+import { useHealthStore } from '../stores/healthStore';
+import { useMultiViewStore, MULTIVIEW_MAX_TILES } from '../stores/multiViewStore';
+import { useReminderStore, reminderId } from '../stores/reminderStore';
 import { getCurrentProgram, onEPGUpdate } from '../services/epgService';
+import { lookupByChannel } from '../services/channelMerge';
+import { toggleProgramReminder } from './ReminderButton';
+import ProgramBadges, { episodeLine, hasProgramBadges } from './ProgramBadges';
 
 interface ChannelCardProps {
   channel: Channel;
@@ -31,14 +37,21 @@ const CARD_WIDTH = (width - Spacing.lg * 3) / 2;
 const selectShowEPG = (state: SettingsStore) => state.showEPG;
 const selectShowChannelNumber = (state: SettingsStore) => state.showChannelNumber;
 
+const HEALTH_BADGES = {
+  ok: { color: Colors.success, label: 'ON' },
+  slow: { color: Colors.warning, label: 'LENTO' },
+  dead: { color: Colors.error, label: 'OFF' },
+};
+
 const ChannelCard = memo(({ channel }: ChannelCardProps) => {
   const router = useRouter();
-  const { toggleFavorite, isFavorite } = useFavoritesStore();
+  const { toggleChannelFavorite, isChannelFavorite } = useFavoritesStore();
   const showEPG = useSettingsStore(selectShowEPG);
   const showChannelNumber = useSettingsStore(selectShowChannelNumber);
+  const healthStatus = useHealthStore(state => lookupByChannel(state.records, channel)?.status);
   const client = useRemoteMediaClient();
 
-  const [favorite, setFavorite] = useState(isFavorite(channel.id));
+  const [favorite, setFavorite] = useState(isChannelFavorite(channel));
   const [currentEPG, setCurrentEPG] = useState<CurrentProgram | null>(null);
   const [showOptions, setShowOptions] = useState(false);
   const isMountedRef = useRef(true);
@@ -67,8 +80,8 @@ const ChannelCard = memo(({ channel }: ChannelCardProps) => {
 
   // Sincroniza estado de favorito
   useEffect(() => {
-    setFavorite(isFavorite(channel.id));
-  }, [channel.id, isFavorite]);
+    setFavorite(isChannelFavorite(channel));
+  }, [channel, isChannelFavorite]);
 
   const handlePress = useCallback(() => {
     router.push({
@@ -112,16 +125,35 @@ const ChannelCard = memo(({ channel }: ChannelCardProps) => {
     });
   }, [client, channel]);
 
+  const handleOptionMultiView = useCallback(() => {
+    setShowOptions(false);
+    if (!useMultiViewStore.getState().addChannel(channel.id)) {
+      Alert.alert('Multi-view', `O multi-view já tem ${MULTIVIEW_MAX_TILES} canais. Remova um para adicionar outro.`);
+      return;
+    }
+    router.push('/multiview');
+  }, [channel.id, router]);
+
   const handleOptionFavorite = useCallback(() => {
     setShowOptions(false);
-    toggleFavorite(channel.id);
+    toggleChannelFavorite(channel);
     setFavorite((prev: boolean) => !prev);
-  }, [channel.id, toggleFavorite]);
+  }, [channel, toggleChannelFavorite]);
+
+  // Próximo programa (mesmo com o EPG oculto nos cards)
+  const nextProgram = showOptions ? getCurrentProgram(channel.id)?.next ?? null : null;
+  const nextReminderId = nextProgram ? reminderId(channel.id, nextProgram.startTime) : null;
+  const hasNextReminder = useReminderStore(state => !!nextReminderId && state.reminders.some(r => r.id === nextReminderId));
+
+  const handleOptionReminder = useCallback(() => {
+    setShowOptions(false);
+    if (nextProgram) toggleProgramReminder(channel, nextProgram);
+  }, [channel, nextProgram]);
 
   const handleFavorite = useCallback(() => {
-    toggleFavorite(channel.id);
+    toggleChannelFavorite(channel);
     setFavorite((prev: boolean) => !prev);
-  }, [channel.id, toggleFavorite]);
+  }, [channel, toggleChannelFavorite]);
 
   return (
     <TouchableOpacity
@@ -158,6 +190,14 @@ const ChannelCard = memo(({ channel }: ChannelCardProps) => {
           </View>
         )}
 
+        {/* Resultado da verificação de saúde */}
+        {healthStatus && (
+          <View style={styles.healthBadge}>
+            <View style={[styles.healthDot, { backgroundColor: HEALTH_BADGES[healthStatus].color }]} />
+            <Text style={styles.healthText}>{HEALTH_BADGES[healthStatus].label}</Text>
+          </View>
+        )}
+
         {/* Botão favoritar */}
         <TouchableOpacity 
           style={[styles.favoriteButton, favorite && styles.favoriteButtonActive]}
@@ -195,6 +235,14 @@ const ChannelCard = memo(({ channel }: ChannelCardProps) => {
             <Text style={styles.programTitle} numberOfLines={1}>
               {currentEPG.current.title}
             </Text>
+            {(episodeLine(currentEPG.current) || hasProgramBadges(currentEPG.current)) && (
+              <View style={styles.programMeta}>
+                <ProgramBadges program={currentEPG.current} size="small" />
+                <Text style={styles.episodeText} numberOfLines={1}>
+                  {episodeLine(currentEPG.current)}
+                </Text>
+              </View>
+            )}
             <View style={styles.progressBar}>
               <View 
                 style={[
@@ -235,6 +283,24 @@ const ChannelCard = memo(({ channel }: ChannelCardProps) => {
               <Text style={styles.actionItemText}>Transmitir</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity style={styles.actionItem} onPress={handleOptionMultiView}>
+              <Ionicons name="grid-outline" size={24} color={Colors.text} />
+              <Text style={styles.actionItemText}>Adicionar ao multi-view</Text>
+            </TouchableOpacity>
+
+            {nextProgram && (
+              <TouchableOpacity style={styles.actionItem} onPress={handleOptionReminder}>
+                <Ionicons
+                  name={hasNextReminder ? 'notifications' : 'notifications-outline'}
+                  size={24}
+                  color={hasNextReminder ? Colors.primary : Colors.text}
+                />
+                <Text style={styles.actionItemText} numberOfLines={1}>
+                  {hasNextReminder ? 'Cancelar lembrete' : 'Lembrar'}: {nextProgram.startTime.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })} {nextProgram.title}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity style={styles.actionItem} onPress={handleOptionFavorite}>
               <Ionicons
                 name={favorite ? 'heart' : 'heart-outline'}
@@ -316,6 +382,28 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
+  healthBadge: {
+    position: 'absolute',
+    bottom: Spacing.sm,
+    left: Spacing.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: Colors.overlay,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  healthDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  healthText: {
+    color: Colors.text,
+    fontSize: 9,
+    fontWeight: '700',
+  },
   favoriteButton: {
     position: 'absolute',
     top: Spacing.sm,
@@ -371,6 +459,18 @@ const styles = StyleSheet.create({
     fontSize: Typography.caption.fontSize,
     marginBottom: Spacing.xs,
   },
+  programMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: -2,
+    marginBottom: Spacing.xs,
+  },
+  episodeText: {
+    flex: 1,
+    color: Colors.textMuted,
+    fontSize: 10,
+  },
   progressBar: {
     height: 3,
     backgroundColor: Colors.progressBg,
@@ -421,6 +521,7 @@ const styles = StyleSheet.create({
   actionItemText: {
     color: Colors.text,
     fontSize: Typography.body.fontSize,
+    flexShrink: 1,
   },
   cancelItem: {
     justifyContent: 'center',
@@ -0,0 +1,195 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import type { Channel } from '../types';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useChannelStore, filterChannelsByCategory } from '../stores/channelStore';
+import { useFavoritesStore } from '../stores/favoritesStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSourceStore } from '../stores/sourceStore';
+import CategoryTabs from './CategoryTabs';
+
+interface ChannelPickerModalProps {
+  visible: boolean;
+  title?: string;
+  /** Canais que não podem ser escolhidos (já em uso) */
+  excludeIds?: string[];
+  onSelect: (channel: Channel) => void;
+  onClose: () => void;
+}
+
+const ROW_HEIGHT = 56;
+
+const ChannelPickerModal = memo(({
+  visible,
+  title = 'Escolher canal',
+  excludeIds = [],
+  onSelect,
+  onClose,
+}: ChannelPickerModalProps) => {
+  const insets = useSafeAreaInsets();
+  const [category, setCategory] = useState('Todos');
+  const [query, setQuery] = useState('');
+  const { favorites } = useFavoritesStore();
+  const adultUnlocked = useSettingsStore(state => state.adultUnlocked);
+  const { getAllChannels, getCategories, proChannels } = useChannelStore();
+  const sourceSettings = useSourceStore(state => state.settings);
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const categories = useMemo(() => getCategories(adultUnlocked), [visible, adultUnlocked, getCategories, sourceSettings, proChannels]);
+
+  const channels = useMemo(() => {
+    if (!visible) return [];
+    let list = filterChannelsByCategory(getAllChannels(adultUnlocked), category, favorites);
+    const q = query.toLowerCase().trim();
+    if (q) list = list.filter(ch => ch.name.toLowerCase().includes(q));
+    return list;
+  }, [visible, category, query, favorites, adultUnlocked, getAllChannels, sourceSettings, proChannels]);
+
+  const renderItem = useCallback(({ item }: { item: Channel }) => {
+    const used = excludeIds.includes(item.id);
+    return (
+      <TouchableOpacity
+        style={[styles.row, used && styles.rowDisabled]}
+        onPress={() => onSelect(item)}
+        disabled={used}
+      >
+        {item.logo ? (
+          <Image source={{ uri: item.logo }} style={styles.logo} contentFit="contain" />
+        ) : (
+          <View style={styles.logo}>
+            <Ionicons name="tv-outline" size={20} color={Colors.textSecondary} />
+          </View>
+        )}
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.rowCategory} numberOfLines={1}>{item.category}</Text>
+        </View>
+        {used && <Ionicons name="checkmark-circle" size={20} color={Colors.primary} />}
+      </TouchableOpacity>
+    );
+  }, [excludeIds, onSelect]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose} supportedOrientations={['portrait', 'landscape']}>
+      <View style={[styles.container, { paddingTop: insets.top + Spacing.sm }]}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <TouchableOpacity onPress={onClose} hitSlop={8}>
+            <Ionicons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={18} color={Colors.textSecondary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Buscar canal..."
+            placeholderTextColor={Colors.textMuted}
+            value={query}
+            onChangeText={setQuery}
+          />
+        </View>
+
+        <CategoryTabs categories={categories} selectedCategory={category} onSelectCategory={setCategory} />
+
+        <FlatList
+          data={channels}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+          initialNumToRender={20}
+          windowSize={7}
+          contentContainerStyle={{ paddingBottom: insets.bottom + Spacing.lg }}
+          ListEmptyComponent={<Text style={styles.emptyText}>Nenhum canal encontrado</Text>}
+        />
+      </View>
+    </Modal>
+  );
+});
+
+ChannelPickerModal.displayName = 'ChannelPickerModal';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+  title: {
+    color: Colors.text,
+    ...Typography.h3,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    color: Colors.text,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.body.fontSize,
+  },
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  rowDisabled: {
+    opacity: 0.5,
+  },
+  logo: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    fontWeight: '600',
+  },
+  rowCategory: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xxxl,
+  },
+});
+
+export default ChannelPickerModal;
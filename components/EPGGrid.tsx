@@ -0,0 +1,484 @@
+import React, { memo, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ScrollView,
+  Animated,
+  Platform,
+  type LayoutChangeEvent,
+  type NativeSyntheticEvent,
+  type NativeScrollEvent,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+
+import type { Channel, Program } from '../types';
+import { Colors, Spacing, BorderRadius } from '../constants/Colors';
+import { getChannelEPG, getChannelArchive, onEPGUpdate } from '../services/epgService';
+import { hasCatchup } from '../services/catchupService';
+
+// ─── Layout ─────────────────────────────────────────────────────────────────
+
+const SLOT_MINUTES = 30;
+const SLOT_WIDTH = 150;
+const SLOTS_PER_DAY = (24 * 60) / SLOT_MINUTES;
+const DAY_WIDTH = SLOT_WIDTH * SLOTS_PER_DAY;
+const CHANNEL_COL = 96;
+const ROW_HEIGHT = 64;
+const HEADER_HEIGHT = 32;
+const PX_PER_MS = SLOT_WIDTH / (SLOT_MINUTES * 60000);
+// Faixas renderizadas além das visíveis, de cada lado
+const SLOT_BUFFER = 3;
+export const GRID_DAYS = 7;
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+function startOfDay(offsetDays: number): number {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + offsetDays);
+  return d.getTime();
+}
+
+function dayLabel(offsetDays: number): string {
+  if (offsetDays === 0) return 'Hoje';
+  if (offsetDays === 1) return 'Amanhã';
+  if (offsetDays === -1) return 'Ontem';
+  return new Date(startOfDay(offsetDays)).toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit' });
+}
+
+/** Trecho do dia que está sendo desenhado, em ms */
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+// ─── Row ────────────────────────────────────────────────────────────────────
+
+interface GridRowProps {
+  channel: Channel;
+  dayStart: number;
+  /** Dias de passado a buscar (0 = só a programação normal, de ontem em diante) */
+  archiveDays: number;
+  window: TimeWindow;
+  scrollX: Animated.Value;
+  onProgramPress: (channel: Channel, program: Program) => void;
+  onChannelPress: (channel: Channel) => void;
+}
+
+const GridRow = memo(({ channel, dayStart, archiveDays, window, scrollX, onProgramPress, onChannelPress }: GridRowProps) => {
+  const load = useCallback(
+    () => (archiveDays > 0 ? getChannelArchive(channel.id, archiveDays) : getChannelEPG(channel.id)),
+    [channel.id, archiveDays]
+  );
+  const [programs, setPrograms] = useState<Program[]>(load);
+  const archive = useMemo(() => hasCatchup(channel), [channel]);
+
+  useEffect(() => {
+    setPrograms(load());
+    return onEPGUpdate((id) => {
+      if (id === channel.id) setPrograms(load());
+    });
+  }, [channel.id, load]);
+
+  // Só os programas que cruzam a janela visível viram views
+  const visible = useMemo(
+    () => programs.filter(p => p.endTime.getTime() > window.start && p.startTime.getTime() < window.end),
+    [programs, window]
+  );
+  const now = Date.now();
+
+  return (
+    <View style={rowStyles.row}>
+      {visible.map(p => {
+        const start = Math.max(p.startTime.getTime(), dayStart);
+        const end = Math.min(p.endTime.getTime(), dayStart + 86400000);
+        const left = CHANNEL_COL + (start - dayStart) * PX_PER_MS;
+        const width = Math.max(2, (end - start) * PX_PER_MS - 2);
+        const live = p.startTime.getTime() <= now && p.endTime.getTime() > now;
+        const past = p.endTime.getTime() <= now;
+        return (
+          <TouchableOpacity
+            key={p.id}
+            style={[rowStyles.cell, live && rowStyles.cellLive, past && !archive && rowStyles.cellPast, { left, width }]}
+            onPress={() => onProgramPress(channel, p)}
+            activeOpacity={0.7}
+          >
+            <View style={rowStyles.cellTitleRow}>
+              {past && archive && <Ionicons name="play-back" size={10} color={Colors.primaryLight} />}
+              <Text style={rowStyles.cellTitle} numberOfLines={1}>{p.title}</Text>
+            </View>
+            {width > 60 && (
+              <Text style={rowStyles.cellTime} numberOfLines={1}>
+                {formatTime(p.startTime)}–{formatTime(p.endTime)}
+              </Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+      {programs.length === 0 && (
+        <Animated.View style={[rowStyles.empty, { transform: [{ translateX: scrollX }] }]}>
+          <Text style={rowStyles.emptyText}>Sem programação</Text>
+        </Animated.View>
+      )}
+
+      {/* Coluna do canal acompanha a rolagem horizontal para ficar sempre à esquerda */}
+      <Animated.View style={[rowStyles.channelCell, { transform: [{ translateX: scrollX }] }]}>
+        <TouchableOpacity style={rowStyles.channelTouch} onPress={() => onChannelPress(channel)} activeOpacity={0.7}>
+          {channel.logo ? (
+            <Image
+              source={{ uri: channel.logo }}
+              style={rowStyles.logo}
+              contentFit="contain"
+              transition={0}
+              cachePolicy="memory-disk"
+              recyclingKey={channel.logo}
+            />
+          ) : null}
+          <Text style={rowStyles.channelName} numberOfLines={channel.logo ? 1 : 2}>{channel.name}</Text>
+        </TouchableOpacity>
+      </Animated.View>
+    </View>
+  );
+});
+
+GridRow.displayName = 'GridRow';
+
+const rowStyles = StyleSheet.create({
+  row: {
+    height: ROW_HEIGHT,
+    width: CHANNEL_COL + DAY_WIDTH,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.border,
+  },
+  cell: {
+    position: 'absolute',
+    top: 4,
+    bottom: 4,
+    paddingHorizontal: Spacing.sm,
+    justifyContent: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xs,
+    overflow: 'hidden',
+  },
+  cellLive: {
+    backgroundColor: Colors.primary + '44',
+  },
+  cellPast: {
+    opacity: 0.5,
+  },
+  cellTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  cellTitle: {
+    flexShrink: 1,
+    color: Colors.text,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  cellTime: {
+    color: Colors.textSecondary,
+    fontSize: 10,
+    marginTop: 2,
+  },
+  empty: {
+    position: 'absolute',
+    left: CHANNEL_COL + Spacing.sm,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: 11,
+    fontStyle: 'italic',
+  },
+  channelCell: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    width: CHANNEL_COL,
+    backgroundColor: Colors.cardBg,
+    borderRightWidth: StyleSheet.hairlineWidth,
+    borderRightColor: Colors.border,
+  },
+  channelTouch: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.xs,
+    gap: 2,
+  },
+  logo: {
+    width: 36,
+    height: 28,
+  },
+  channelName: {
+    color: Colors.text,
+    fontSize: 10,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
+
+// ─── Grid ───────────────────────────────────────────────────────────────────
+
+interface EPGGridProps {
+  channels: Channel[];
+  /** Dias de passado navegáveis (maior arquivo de catch-up entre os canais) */
+  pastDays?: number;
+  onProgramPress: (channel: Channel, program: Program) => void;
+  onChannelPress: (channel: Channel) => void;
+}
+
+export default function EPGGrid({ channels, pastDays = 0, onProgramPress, onChannelPress }: EPGGridProps) {
+  const [dayOffset, setDayOffset] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [firstSlot, setFirstSlot] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const scrollX = useRef(new Animated.Value(0)).current;
+  const scrollRef = useRef<ScrollView>(null);
+  const initialScrollDone = useRef(false);
+
+  const dayStart = useMemo(() => startOfDay(dayOffset), [dayOffset]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Janela em faixas de 30 min — muda só quando a rolagem cruza uma faixa
+  const window = useMemo((): TimeWindow => {
+    const visibleSlots = Math.ceil(viewportWidth / SLOT_WIDTH) + 1;
+    const from = Math.max(0, firstSlot - SLOT_BUFFER);
+    const to = Math.min(SLOTS_PER_DAY, firstSlot + visibleSlots + SLOT_BUFFER);
+    const slotMs = SLOT_MINUTES * 60000;
+    return { start: dayStart + from * slotMs, end: dayStart + to * slotMs };
+  }, [dayStart, firstSlot, viewportWidth]);
+
+  const handleScroll = useMemo(() => Animated.event(
+    [{ nativeEvent: { contentOffset: { x: scrollX } } }],
+    {
+      useNativeDriver: true,
+      listener: (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const slot = Math.floor(e.nativeEvent.contentOffset.x / SLOT_WIDTH);
+        setFirstSlot(prev => (prev === slot ? prev : slot));
+      },
+    }
+  ), [scrollX]);
+
+  const scrollToTime = useCallback((time: number, animated: boolean) => {
+    const x = Math.max(0, (time - dayStart) * PX_PER_MS - SLOT_WIDTH / 2);
+    scrollRef.current?.scrollTo({ x, animated });
+    setFirstSlot(Math.floor(x / SLOT_WIDTH));
+  }, [dayStart]);
+
+  const handleLayout = useCallback((e: LayoutChangeEvent) => {
+    setViewportWidth(e.nativeEvent.layout.width);
+    if (!initialScrollDone.current) {
+      initialScrollDone.current = true;
+      // Abre no horário atual
+      setTimeout(() => scrollToTime(Date.now(), false), 0);
+    }
+  }, [scrollToTime]);
+
+  const handleNow = useCallback(() => {
+    if (dayOffset !== 0) {
+      setDayOffset(0);
+      const x = Math.max(0, (Date.now() - startOfDay(0)) * PX_PER_MS - SLOT_WIDTH / 2);
+      scrollRef.current?.scrollTo({ x, animated: false });
+      setFirstSlot(Math.floor(x / SLOT_WIDTH));
+      return;
+    }
+    scrollToTime(Date.now(), true);
+  }, [dayOffset, scrollToTime]);
+
+  const slotLabels = useMemo(() => Array.from({ length: SLOTS_PER_DAY }, (_, i) => {
+    const d = new Date(dayStart + i * SLOT_MINUTES * 60000);
+    return formatTime(d);
+  }), [dayStart]);
+
+  const keyExtractor = useCallback((item: Channel) => item.id, []);
+  const renderItem = useCallback(({ item }: { item: Channel }) => (
+    <GridRow
+      channel={item}
+      dayStart={dayStart}
+      archiveDays={dayOffset < 0 ? 1 - dayOffset : 0}
+      window={window}
+      scrollX={scrollX}
+      onProgramPress={onProgramPress}
+      onChannelPress={onChannelPress}
+    />
+  ), [dayStart, dayOffset, window, scrollX, onProgramPress, onChannelPress]);
+
+  const nowX = CHANNEL_COL + (now - dayStart) * PX_PER_MS;
+  const showNow = now >= dayStart && now < dayStart + 86400000;
+
+  return (
+    <View style={styles.container}>
+      {/* Dias */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.daysScroll}
+        contentContainerStyle={styles.daysContent}
+      >
+        <TouchableOpacity style={[styles.dayChip, styles.nowChip]} onPress={handleNow} activeOpacity={0.7}>
+          <Text style={styles.dayTextActive}>Agora</Text>
+        </TouchableOpacity>
+        {Array.from({ length: pastDays + GRID_DAYS }, (_, i) => {
+          const offset = i - pastDays;
+          const active = offset === dayOffset;
+          return (
+            <TouchableOpacity
+              key={offset}
+              style={[styles.dayChip, active && styles.dayChipActive]}
+              onPress={() => setDayOffset(offset)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.dayText, active && styles.dayTextActive]}>{dayLabel(offset)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={16}
+        onLayout={handleLayout}
+        bounces={false}
+        style={styles.container}
+      >
+        <View style={styles.timeline}>
+          {/* Régua de horários */}
+          <View style={styles.ruler}>
+            {slotLabels.map((label, i) => (
+              <View key={i} style={[styles.slotLabel, { left: CHANNEL_COL + i * SLOT_WIDTH }]}>
+                <Text style={styles.slotText}>{label}</Text>
+              </View>
+            ))}
+            <Animated.View style={[styles.rulerCorner, { transform: [{ translateX: scrollX }] }]} />
+          </View>
+
+          <FlatList
+            data={channels}
+            keyExtractor={keyExtractor}
+            renderItem={renderItem}
+            extraData={window}
+            getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+            initialNumToRender={10}
+            maxToRenderPerBatch={8}
+            windowSize={Platform.select({ android: 5, ios: 7 })}
+            removeClippedSubviews={Platform.OS === 'android'}
+            showsVerticalScrollIndicator={false}
+          />
+
+          {showNow && (
+            <View pointerEvents="none" style={[styles.nowLine, { left: nowX }]}>
+              <View style={styles.nowDot} />
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  daysScroll: {
+    flexShrink: 0,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.border,
+  },
+  daysContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  dayChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 6,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  dayChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  nowChip: {
+    backgroundColor: Colors.live,
+    borderColor: Colors.live,
+  },
+  dayText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  dayTextActive: {
+    color: Colors.text,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  timeline: {
+    flex: 1,
+    width: CHANNEL_COL + DAY_WIDTH,
+  },
+  ruler: {
+    height: HEADER_HEIGHT,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.border,
+  },
+  slotLabel: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: SLOT_WIDTH,
+    justifyContent: 'center',
+    paddingLeft: Spacing.xs,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderLeftColor: Colors.border,
+  },
+  slotText: {
+    color: Colors.textSecondary,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  rulerCorner: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    width: CHANNEL_COL,
+    backgroundColor: Colors.cardBg,
+  },
+  nowLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: Colors.live,
+  },
+  nowDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: -3,
+    backgroundColor: Colors.live,
+  },
+});
@@ -15,11 +15,16 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 
-import type { Channel, CurrentProgram } from '../types';
+import type { Channel, CurrentProgram, Program } from '../types';
 import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../constants/Colors';
 import { getCurrentProgram, onEPGUpdate } from '../services/epgService';
 import { getAllChannels } from '../data/channels';
 import { useSettingsStore } from '../stores/settingsStore';
+import { catchupStream, getStreamCatchup } from '../services/catchupService';
+import ReminderButton from './ReminderButton';
+import ProgramBadges, { episodeLine } from './ProgramBadges';
+import EPGGrid from './EPGGrid';
+import ProgramDetailsModal from './ProgramDetailsModal';
 
 const { height } = Dimensions.get('window');
 
@@ -92,8 +97,15 @@ const EPGRow = React.memo(({ channel, onPress }: EPGRowProps) => {
               <Text style={rowStyles.programTitle} numberOfLines={1}>
                 {epg.current.title}
               </Text>
+              <ProgramBadges program={epg.current} size="small" />
             </View>
 
+            {episodeLine(epg.current) && (
+              <Text style={rowStyles.episodeText} numberOfLines={1}>
+                {episodeLine(epg.current)}
+              </Text>
+            )}
+
             <View style={rowStyles.progressTrack}>
               <View
                 style={[
@@ -104,10 +116,13 @@ const EPGRow = React.memo(({ channel, onPress }: EPGRowProps) => {
             </View>
 
             {epg.next && (
-              <Text style={rowStyles.nextText} numberOfLines={1}>
-                <Text style={rowStyles.nextLabel}>A seguir · </Text>
-                {formatTime(epg.next.startTime)} {epg.next.title}
-              </Text>
+              <View style={rowStyles.nextRow}>
+                <Text style={rowStyles.nextText} numberOfLines={1}>
+                  <Text style={rowStyles.nextLabel}>A seguir · </Text>
+                  {formatTime(epg.next.startTime)} {epg.next.title}
+                </Text>
+                <ReminderButton channel={channel} program={epg.next} size={14} />
+              </View>
             )}
           </>
         ) : (
@@ -199,6 +214,10 @@ const rowStyles = StyleSheet.create({
     fontWeight: '500',
     flex: 1,
   },
+  episodeText: {
+    color: Colors.textSecondary,
+    fontSize: 11,
+  },
   progressTrack: {
     height: 3,
     backgroundColor: Colors.progressBg,
@@ -210,9 +229,15 @@ const rowStyles = StyleSheet.create({
     backgroundColor: Colors.primary,
     borderRadius: 2,
   },
+  nextRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
   nextText: {
     color: Colors.textMuted,
     fontSize: 11,
+    flex: 1,
   },
   nextLabel: {
     color: Colors.textSecondary,
@@ -244,12 +269,16 @@ interface EPGGuideModalProps {
   onClose: () => void;
   /** When provided, called instead of navigating to the player (used inside VideoPlayer) */
   onChannelPress?: (channel: Channel) => void;
+  /** Same as onChannelPress, for a past programme played from the channel archive */
+  onCatchupPress?: (channel: Channel, program: Program) => void;
 }
 
-export default function EPGGuideModal({ visible, onClose, onChannelPress }: EPGGuideModalProps) {
+export default function EPGGuideModal({ visible, onClose, onChannelPress, onCatchupPress }: EPGGuideModalProps) {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const [selectedCategory, setSelectedCategory] = useState<string>('Todos');
+  const [gridMode, setGridMode] = useState(false);
+  const [details, setDetails] = useState<{ channel: Channel; program: Program } | null>(null);
   const adultUnlocked = useSettingsStore((s) => s.adultUnlocked);
 
   // Normais primeiro, adultos no final (só se liberado) — lazy load natural do FlatList
@@ -276,6 +305,16 @@ export default function EPGGuideModal({ visible, onClose, onChannelPress }: EPGG
     return allChannels.filter((c) => c.category === selectedCategory);
   }, [allChannels, selectedCategory]);
 
+  // Maior arquivo entre os canais listados — define quantos dias para trás a grade mostra
+  const pastDays = useMemo(() => {
+    let days = 0;
+    for (const ch of filteredChannels) {
+      const stream = catchupStream(ch);
+      if (stream) days = Math.max(days, getStreamCatchup(ch, stream)!.days);
+    }
+    return days;
+  }, [filteredChannels]);
+
   const handleChannelPress = useCallback(
     (channel: Channel) => {
       if (onChannelPress) {
@@ -296,6 +335,38 @@ export default function EPGGuideModal({ visible, onClose, onChannelPress }: EPGG
     [onClose, onChannelPress, router]
   );
 
+  const handleCatchup = useCallback(
+    (channel: Channel, program: Program) => {
+      if (onCatchupPress) {
+        onCatchupPress(channel, program);
+        onClose();
+        return;
+      }
+      onClose();
+      setTimeout(() => {
+        router.push({
+          pathname: '/player/[id]',
+          params: {
+            id: channel.id,
+            catchupStart: String(program.startTime.getTime()),
+            catchupEnd: String(program.endTime.getTime()),
+            catchupTitle: program.title,
+          },
+        });
+      }, 300);
+    },
+    [onClose, onCatchupPress, router]
+  );
+
+  const handleSearch = useCallback(() => {
+    onClose();
+    setTimeout(() => router.push('/program-search'), 300);
+  }, [onClose, router]);
+
+  const handleProgramPress = useCallback((channel: Channel, program: Program) => {
+    setDetails({ channel, program });
+  }, []);
+
   const keyExtractor = useCallback((item: Channel) => item.id, []);
   const renderItem = useCallback(
     ({ item }: { item: Channel }) => (
@@ -349,13 +420,32 @@ export default function EPGGuideModal({ visible, onClose, onChannelPress }: EPGG
                   </Text>
                 </View>
               </View>
-              <TouchableOpacity
-                style={styles.closeBtn}
-                onPress={onClose}
-                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-              >
-                <Ionicons name="close" size={20} color={Colors.text} />
-              </TouchableOpacity>
+              <View style={styles.headerActions}>
+                <TouchableOpacity
+                  style={styles.closeBtn}
+                  onPress={() => setGridMode((g) => !g)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Ionicons name={gridMode ? 'list' : 'grid-outline'} size={18} color={Colors.text} />
+                </TouchableOpacity>
+                {/* Busca só fora do player — lá o guia troca de canal sem navegar */}
+                {!onChannelPress && (
+                  <TouchableOpacity
+                    style={styles.closeBtn}
+                    onPress={handleSearch}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <Ionicons name="search" size={18} color={Colors.text} />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.closeBtn}
+                  onPress={onClose}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Ionicons name="close" size={20} color={Colors.text} />
+                </TouchableOpacity>
+              </View>
             </View>
           </View>
 
@@ -386,39 +476,56 @@ export default function EPGGuideModal({ visible, onClose, onChannelPress }: EPGG
             })}
           </ScrollView>
 
-          {/* Channel list */}
-          <FlatList
-            data={filteredChannels}
-            keyExtractor={keyExtractor}
-            renderItem={renderItem}
-            showsVerticalScrollIndicator={false}
-            initialNumToRender={Platform.select({ android: 10, ios: normalCount })}
-            maxToRenderPerBatch={Platform.select({ android: 10, ios: 20 })}
-            windowSize={Platform.select({ android: 5, ios: 10 })}
-            removeClippedSubviews={Platform.OS === 'android'}
-            contentContainerStyle={{ paddingBottom: insets.bottom }}
-            maintainVisibleContentPosition={{
-              minIndexForVisible: 0,
-              autoscrollToTopThreshold: 10,
-            }}
-            ListEmptyComponent={
-              <View style={styles.empty}>
-                <Ionicons
-                  name="calendar-outline"
-                  size={40}
-                  color={Colors.textMuted}
-                />
-                <Text style={styles.emptyText}>
-                  Nenhum canal com programação
-                </Text>
-                <Text style={styles.emptySubText}>
-                  Carregue o guia na tela inicial
-                </Text>
-              </View>
-            }
-          />
+          {/* Grade canais × horários ou lista */}
+          {gridMode ? (
+            <EPGGrid
+              channels={filteredChannels}
+              pastDays={pastDays}
+              onProgramPress={handleProgramPress}
+              onChannelPress={handleChannelPress}
+            />
+          ) : (
+            <FlatList
+              data={filteredChannels}
+              keyExtractor={keyExtractor}
+              renderItem={renderItem}
+              showsVerticalScrollIndicator={false}
+              initialNumToRender={Platform.select({ android: 10, ios: normalCount })}
+              maxToRenderPerBatch={Platform.select({ android: 10, ios: 20 })}
+              windowSize={Platform.select({ android: 5, ios: 10 })}
+              removeClippedSubviews={Platform.OS === 'android'}
+              contentContainerStyle={{ paddingBottom: insets.bottom }}
+              maintainVisibleContentPosition={{
+                minIndexForVisible: 0,
+                autoscrollToTopThreshold: 10,
+              }}
+              ListEmptyComponent={
+                <View style={styles.empty}>
+                  <Ionicons
+                    name="calendar-outline"
+                    size={40}
+                    color={Colors.textMuted}
+                  />
+                  <Text style={styles.emptyText}>
+                    Nenhum canal com programação
+                  </Text>
+                  <Text style={styles.emptySubText}>
+                    Carregue o guia na tela inicial
+                  </Text>
+                </View>
+              }
+            />
+          )}
         </View>
       </View>
+
+      <ProgramDetailsModal
+        channel={details?.channel ?? null}
+        program={details?.program ?? null}
+        onWatch={handleChannelPress}
+        onCatchup={handleCatchup}
+        onClose={() => setDetails(null)}
+      />
     </Modal>
   );
 }
@@ -485,6 +592,11 @@ const styles = StyleSheet.create({
     fontSize: Typography.caption.fontSize,
     marginTop: 1,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
   closeBtn: {
     width: 34,
     height: 34,
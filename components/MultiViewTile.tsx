@@ -0,0 +1,245 @@
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Video, { type OnVideoErrorData } from 'react-native-video';
+
+import type { Channel } from '../types';
+import { Colors, Spacing, BorderRadius, Typography } from '../constants/Colors';
+import { getChannelStreams, getStreamDrm, useStreamStore } from '../stores/streamStore';
+import { buildDrmConfig, describeDrmError } from '../services/drmConfig';
+import { ClearKeyError } from '../services/clearKey';
+
+interface MultiViewTileProps {
+  channel: Channel;
+  hasAudio: boolean;
+  /** Com 3+ quadros limita o bitrate para poupar memória e decodificador */
+  lowBitrate: boolean;
+  onSelectAudio: (channelId: string) => void;
+  onReplace: (channelId: string) => void;
+  onRemove: (channelId: string) => void;
+}
+
+// Sem onLoad nesse tempo o quadro vai para o próximo stream
+const LOAD_TIMEOUT_MS = 20000;
+const LOW_BITRATE = 2_500_000;
+
+const MultiViewTile = memo(({
+  channel,
+  hasAudio,
+  lowBitrate,
+  onSelectAudio,
+  onReplace,
+  onRemove,
+}: MultiViewTileProps) => {
+  const streams = useMemo(() => getChannelStreams(channel), [channel]);
+  const [streamIdx, setStreamIdx] = useState(() => useStreamStore.getState().getPreferredIndex(channel));
+  const [videoKey, setVideoKey] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const triedRef = useRef(1);
+  const loadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stream = streams[streamIdx] ?? streams[0];
+
+  const streamDrm = getStreamDrm(channel, stream);
+  const { drmConfig, drmSetupError } = useMemo(() => {
+    try {
+      return { drmConfig: buildDrmConfig(streamDrm), drmSetupError: null };
+    } catch (e) {
+      if (!(e instanceof ClearKeyError)) throw e;
+      return { drmConfig: undefined, drmSetupError: e.message };
+    }
+  }, [streamDrm]);
+
+  const clearLoadTimer = useCallback(() => {
+    if (loadTimerRef.current) { clearTimeout(loadTimerRef.current); loadTimerRef.current = null; }
+  }, []);
+
+  useEffect(() => clearLoadTimer, [clearLoadTimer]);
+
+  // Falhou: tenta o próximo stream; depois de todos, mostra o erro no quadro
+  const fail = useCallback((message: string | null) => {
+    clearLoadTimer();
+    if (triedRef.current < streams.length) {
+      triedRef.current += 1;
+      setStreamIdx(i => (i + 1) % streams.length);
+      setVideoKey(k => k + 1);
+      return;
+    }
+    setIsLoading(false);
+    setError(message ?? 'Canal indisponível');
+  }, [streams.length, clearLoadTimer]);
+
+  const onLoadStart = useCallback(() => {
+    setIsLoading(true);
+    clearLoadTimer();
+    loadTimerRef.current = setTimeout(() => fail(null), LOAD_TIMEOUT_MS);
+  }, [fail, clearLoadTimer]);
+
+  const onLoad = useCallback(() => {
+    clearLoadTimer();
+    setIsLoading(false);
+    setError(null);
+    triedRef.current = 1;
+    useStreamStore.getState().setLastWorking(channel.id, stream.url);
+  }, [channel.id, stream.url, clearLoadTimer]);
+
+  const onError = useCallback((e: OnVideoErrorData) => {
+    console.warn(`[MultiView] erro em ${channel.name}:`, e?.error?.errorString ?? e?.error?.localizedDescription);
+    fail(describeDrmError(e));
+  }, [channel.name, fail]);
+
+  const handleRetry = useCallback(() => {
+    triedRef.current = 1;
+    setError(null);
+    setIsLoading(true);
+    setStreamIdx(useStreamStore.getState().getPreferredIndex(channel));
+    setVideoKey(k => k + 1);
+  }, [channel]);
+
+  const shownError = drmSetupError ?? error;
+
+  return (
+    <Pressable
+      style={[styles.tile, hasAudio && styles.tileAudio]}
+      onPress={() => onSelectAudio(channel.id)}
+      focusable={false}
+    >
+      {!drmSetupError && (
+        <Video
+          key={videoKey}
+          source={{ uri: stream.url, headers: stream.headers }}
+          drm={drmConfig}
+          style={StyleSheet.absoluteFill}
+          resizeMode="contain"
+          muted={!hasAudio}
+          // Só o quadro com áudio pede foco de áudio ao sistema
+          disableFocus={!hasAudio}
+          maxBitRate={lowBitrate ? LOW_BITRATE : undefined}
+          onLoadStart={onLoadStart}
+          onLoad={onLoad}
+          onError={onError}
+          bufferConfig={{
+            minBufferMs: 5000,
+            maxBufferMs: 15000,
+            bufferForPlaybackMs: 2000,
+            bufferForPlaybackAfterRebufferMs: 3000,
+          }}
+          controls={false}
+          repeat
+          ignoreSilentSwitch="ignore"
+          playInBackground={false}
+          focusable={false}
+        />
+      )}
+
+      {isLoading && !shownError && (
+        <View style={styles.overlay} pointerEvents="none">
+          <ActivityIndicator size="small" color={Colors.primary} />
+        </View>
+      )}
+
+      {shownError && (
+        <View style={styles.overlay}>
+          <Ionicons name="alert-circle-outline" size={28} color={Colors.error} />
+          <Text style={styles.errorText} numberOfLines={3}>{shownError}</Text>
+          {!drmSetupError && (
+            <TouchableOpacity style={styles.retryButton} onPress={handleRetry}>
+              <Ionicons name="refresh" size={14} color={Colors.text} />
+              <Text style={styles.retryText}>Tentar novamente</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Barra do quadro */}
+      <View style={styles.tileBar}>
+        <Ionicons
+          name={hasAudio ? 'volume-high' : 'volume-mute'}
+          size={14}
+          color={hasAudio ? Colors.primary : Colors.textSecondary}
+        />
+        <Text style={styles.tileName} numberOfLines={1}>{channel.name}</Text>
+        <TouchableOpacity style={styles.tileAction} onPress={() => onReplace(channel.id)} hitSlop={8}>
+          <Ionicons name="swap-horizontal" size={16} color={Colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.tileAction} onPress={() => onRemove(channel.id)} hitSlop={8}>
+          <Ionicons name="close" size={16} color={Colors.text} />
+        </TouchableOpacity>
+      </View>
+    </Pressable>
+  );
+});
+
+MultiViewTile.displayName = 'MultiViewTile';
+
+const styles = StyleSheet.create({
+  tile: {
+    flex: 1,
+    backgroundColor: '#000',
+    borderWidth: 2,
+    borderColor: 'transparent',
+    overflow: 'hidden',
+  },
+  tileAudio: {
+    borderColor: Colors.primary,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.overlayLight,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+  },
+  errorText: {
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    backgroundColor: Colors.primary,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.xs,
+  },
+  retryText: {
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+  },
+  tileBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    backgroundColor: Colors.overlay,
+  },
+  tileName: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+  },
+  tileAction: {
+    padding: 2,
+  },
+});
+
+export default MultiViewTile;
@@ -0,0 +1,95 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+import type { Program } from '../types';
+import { Colors, BorderRadius } from '../constants/Colors';
+
+// Cores da classificação indicativa brasileira
+const RATING_COLORS: Record<string, string> = {
+  L: '#10B981',
+  '10': '#3B82F6',
+  '12': '#F59E0B',
+  '14': '#F97316',
+  '16': '#EF4444',
+  '18': '#111827',
+};
+
+/** "T2 E5", "Ep. 5" ou o texto que a emissora usa */
+export function formatEpisode(program: Program): string | null {
+  const info = program.episodeInfo;
+  if (!info) return null;
+  if (info.season && info.episode) return `T${info.season} E${info.episode}`;
+  if (info.episode) return `Ep. ${info.episode}`;
+  return info.label ?? null;
+}
+
+/** Linha do episódio: numeração e título, quando houver */
+export function episodeLine(program: Program): string | null {
+  const parts = [formatEpisode(program), program.episodeInfo?.episodeTitle].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+export function hasProgramBadges(program: Program): boolean {
+  return !!(program.isNew || program.isRerun || program.rating);
+}
+
+interface ProgramBadgesProps {
+  program: Program;
+  size?: 'small' | 'normal';
+}
+
+const ProgramBadges = memo(({ program, size = 'normal' }: ProgramBadgesProps) => {
+  if (!hasProgramBadges(program)) return null;
+  const small = size === 'small';
+  const ratingKey = program.rating?.toUpperCase().replace(/^A?(\d+)$/, '$1');
+  const ratingColor = ratingKey ? RATING_COLORS[ratingKey] ?? Colors.surfaceVariant : undefined;
+
+  return (
+    <View style={styles.row}>
+      {program.isNew && (
+        <View style={[styles.badge, small && styles.badgeSmall, { backgroundColor: Colors.success + '33' }]}>
+          <Text style={[styles.text, small && styles.textSmall, { color: Colors.successLight }]}>INÉDITO</Text>
+        </View>
+      )}
+      {program.isRerun && (
+        <View style={[styles.badge, small && styles.badgeSmall, { backgroundColor: Colors.surfaceVariant }]}>
+          <Text style={[styles.text, small && styles.textSmall, { color: Colors.textSecondary }]}>REPRISE</Text>
+        </View>
+      )}
+      {program.rating && (
+        <View style={[styles.badge, small && styles.badgeSmall, { backgroundColor: ratingColor }]}>
+          <Text style={[styles.text, small && styles.textSmall, { color: Colors.text }]}>{program.rating}</Text>
+        </View>
+      )}
+    </View>
+  );
+});
+
+ProgramBadges.displayName = 'ProgramBadges';
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 0,
+  },
+  badge: {
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+  },
+  badgeSmall: {
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+  text: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  textSmall: {
+    fontSize: 8,
+  },
+});
+
+export default ProgramBadges;
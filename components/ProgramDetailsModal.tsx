@@ -0,0 +1,269 @@
+import React, { memo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import type { Channel, Program, ProgramCreditRole } from '../types';
+import { Colors, Typography, Spacing, BorderRadius } from '../constants/Colors';
+import { useReminderStore, reminderId } from '../stores/reminderStore';
+import { useRecordingStore, recordingId, findProgramRecordingTask } from '../stores/recordingStore';
+import { useDownloadStore } from '../stores/downloadStore';
+import { canCatchup } from '../services/catchupService';
+import { toggleProgramReminder } from './ReminderButton';
+import { toggleProgramRecording } from './RecordButton';
+import ProgramBadges, { episodeLine } from './ProgramBadges';
+
+interface ProgramDetailsModalProps {
+  channel: Channel | null;
+  program: Program | null;
+  onWatch: (channel: Channel) => void;
+  /** Assistir pelo arquivo do canal (catch-up) */
+  onCatchup?: (channel: Channel, program: Program) => void;
+  onClose: () => void;
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+// Ordem em que os créditos aparecem
+const CREDIT_LABELS: [ProgramCreditRole, string][] = [
+  ['presenter', 'Apresentação'],
+  ['director', 'Direção'],
+  ['actor', 'Elenco'],
+  ['writer', 'Roteiro'],
+  ['adapter', 'Adaptação'],
+  ['producer', 'Produção'],
+  ['composer', 'Música'],
+  ['editor', 'Edição'],
+  ['commentator', 'Comentários'],
+  ['guest', 'Convidados'],
+];
+
+const ProgramDetailsModal = memo(({ channel, program, onWatch, onCatchup, onClose }: ProgramDetailsModalProps) => {
+  const insets = useSafeAreaInsets();
+  const id = channel && program ? reminderId(channel.id, program.startTime) : null;
+  const hasReminder = useReminderStore(state => !!id && state.reminders.some(r => r.id === id));
+  const recId = channel && program ? recordingId(channel.id, program.startTime) : null;
+  const isScheduled = useRecordingStore(state => !!recId && state.recordings.some(r => r.id === recId));
+  const isRecording = useDownloadStore(state => !!channel && !!program && !!findProgramRecordingTask(state.tasks, channel, program));
+
+  if (!channel || !program) return null;
+
+  const now = Date.now();
+  const live = program.startTime.getTime() <= now && program.endTime.getTime() > now;
+  const future = program.startTime.getTime() > now;
+  const archived = !!onCatchup && canCatchup(channel, program, now);
+  const duration = Math.round((program.endTime.getTime() - program.startTime.getTime()) / 60000);
+  const day = program.startTime.toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: '2-digit' });
+  const episode = episodeLine(program);
+  const categories = program.categories ?? (program.category ? [program.category] : []);
+  const credits = CREDIT_LABELS
+    .filter(([role]) => program.credits?.[role]?.length)
+    .map(([role, label]) => ({ label, names: program.credits![role]!.join(', ') }));
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose} supportedOrientations={['portrait', 'landscape']}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={[styles.card, { marginBottom: insets.bottom + Spacing.lg }]}>
+          <View style={styles.header}>
+            <Text style={styles.channelName} numberOfLines={1}>{channel.name}</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={8}>
+              <Ionicons name="close" size={22} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.titleRow}>
+            {program.thumbnail ? (
+              <Image source={{ uri: program.thumbnail }} style={styles.thumbnail} contentFit="cover" />
+            ) : null}
+            <View style={styles.titleInfo}>
+              <Text style={styles.title}>{program.title}</Text>
+              {episode ? <Text style={styles.episode}>{episode}</Text> : null}
+            </View>
+          </View>
+          <Text style={styles.meta}>
+            {day} • {formatTime(program.startTime)}–{formatTime(program.endTime)} ({duration} min)
+            {program.year ? ` • ${program.year}` : ''}
+          </Text>
+          <View style={styles.tagsRow}>
+            <ProgramBadges program={program} />
+            {categories.length > 0 && (
+              <Text style={styles.category} numberOfLines={1}>{categories.join(' • ')}</Text>
+            )}
+          </View>
+
+          {program.description || credits.length > 0 ? (
+            <ScrollView style={styles.descriptionBox}>
+              {program.description ? <Text style={styles.description}>{program.description}</Text> : null}
+              {credits.map(({ label, names }) => (
+                <Text key={label} style={styles.credit}>
+                  <Text style={styles.creditLabel}>{label}: </Text>
+                  {names}
+                </Text>
+              ))}
+            </ScrollView>
+          ) : null}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, live && styles.actionPrimary]}
+              onPress={() => { onClose(); onWatch(channel); }}
+            >
+              <Ionicons name="play" size={16} color={Colors.text} />
+              <Text style={styles.actionText}>{live ? 'Assistir agora' : 'Abrir canal'}</Text>
+            </TouchableOpacity>
+            {archived && (
+              <TouchableOpacity
+                style={[styles.actionButton, !live && styles.actionPrimary]}
+                onPress={() => { onClose(); onCatchup!(channel, program); }}
+              >
+                <Ionicons name="play-back" size={16} color={Colors.text} />
+                <Text style={styles.actionText}>{live ? 'Do início' : 'Assistir'}</Text>
+              </TouchableOpacity>
+            )}
+            {future && (
+              <TouchableOpacity
+                style={[styles.actionButton, hasReminder && styles.actionPrimary]}
+                onPress={() => toggleProgramReminder(channel, program)}
+              >
+                <Ionicons name={hasReminder ? 'notifications' : 'notifications-outline'} size={16} color={Colors.text} />
+                <Text style={styles.actionText}>{hasReminder ? 'Lembrete ativo' : 'Lembrar'}</Text>
+              </TouchableOpacity>
+            )}
+            {(live || future) && (
+              <TouchableOpacity
+                style={[styles.actionButton, (isScheduled || isRecording) && styles.actionRecording]}
+                onPress={() => toggleProgramRecording(channel, program)}
+              >
+                <Ionicons name={isScheduled || isRecording ? 'radio-button-on' : 'radio-button-off'} size={16} color={Colors.text} />
+                <Text style={styles.actionText}>{isRecording ? 'Gravando' : isScheduled ? 'Agendado' : 'Gravar'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+});
+
+ProgramDetailsModal.displayName = 'ProgramDetailsModal';
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingHorizontal: Spacing.lg,
+  },
+  card: {
+    backgroundColor: Colors.cardBg,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    gap: Spacing.xs,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.md,
+  },
+  channelName: {
+    flex: 1,
+    color: Colors.primaryLight,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  thumbnail: {
+    width: 96,
+    height: 54,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.surface,
+  },
+  titleInfo: {
+    flex: 1,
+  },
+  title: {
+    color: Colors.text,
+    ...Typography.h3,
+  },
+  episode: {
+    color: Colors.textSecondary,
+    fontSize: Typography.body.fontSize,
+    marginTop: 2,
+  },
+  meta: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  category: {
+    flex: 1,
+    color: Colors.textMuted,
+    fontSize: Typography.caption.fontSize,
+  },
+  descriptionBox: {
+    marginTop: Spacing.sm,
+    maxHeight: 180,
+  },
+  description: {
+    color: Colors.text,
+    fontSize: Typography.body.fontSize,
+    lineHeight: 20,
+  },
+  credit: {
+    color: Colors.textSecondary,
+    fontSize: Typography.caption.fontSize,
+    marginTop: Spacing.sm,
+  },
+  creditLabel: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surfaceVariant,
+  },
+  actionPrimary: {
+    backgroundColor: Colors.primary,
+  },
+  actionRecording: {
+    backgroundColor: Colors.live,
+  },
+  actionText: {
+    color: Colors.text,
+    fontSize: Typography.caption.fontSize,
+    fontWeight: '600',
+  },
+});
+
+export default ProgramDetailsModal;
@@ -0,0 +1,178 @@
+import React, { memo, useCallback } from 'react';
+import { TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import type { Channel, Program } from '../types';
+import { Colors, BorderRadius } from '../constants/Colors';
+import {
+  useRecordingStore,
+  recordingId,
+  findRecordingConflicts,
+  findProgramRecordingTask,
+  MAX_SIMULTANEOUS_RECORDINGS,
+  type RecordingSlot,
+} from '../stores/recordingStore';
+import { useDownloadStore } from '../stores/downloadStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { getChannelStreams, getStreamDrm } from '../stores/streamStore';
+import { downloadManager } from '../services/downloadManager';
+
+// Sem programa no guia, "gravar agora" grava esse tanto
+const DEFAULT_RECORDING_MIN = 60;
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+function canRecord(channel: Channel): boolean {
+  if (getChannelStreams(channel).every(s => getStreamDrm(channel, s))) {
+    Alert.alert('Gravação', 'Canais protegidos por DRM não podem ser gravados.');
+    return false;
+  }
+  return true;
+}
+
+/** Encerra a gravação em andamento mantendo o que já gravou; ainda na fila, só cancela */
+function endRecordingTask(id: string): void {
+  if (useDownloadStore.getState().getTask(id)?.status === 'downloading') {
+    downloadManager.stopRecording(id);
+  } else {
+    downloadManager.cancel(id);
+  }
+}
+
+/** Libera o horário: tira da agenda ou encerra a gravação em andamento */
+function releaseSlot(slot: RecordingSlot): void {
+  if (slot.active) {
+    endRecordingTask(slot.id);
+  } else {
+    useRecordingStore.getState().removeRecording(slot.id);
+  }
+}
+
+/** Confere o limite de gravações simultâneas antes de gravar em [start, end) */
+function withConflictCheck(start: number, end: number, record: () => void): void {
+  const conflicts = findRecordingConflicts(start, end);
+  if (conflicts.length === 0) {
+    record();
+    return;
+  }
+  const list = conflicts
+    .map(c => `• ${c.title} (${c.channelName}, ${formatTime(c.start)}–${formatTime(c.end)})${c.active ? ' — gravando' : ''}`)
+    .join('\n');
+  Alert.alert(
+    'Conflito de gravação',
+    `Já há ${MAX_SIMULTANEOUS_RECORDINGS} gravações nesse horário:\n${list}\n\nSubstituir por esta?`,
+    [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Substituir',
+        style: 'destructive',
+        onPress: () => {
+          conflicts.forEach(releaseSlot);
+          record();
+        },
+      },
+    ]
+  );
+}
+
+/** Agenda ou cancela a gravação do programa (em andamento: começa agora; já gravando: oferece parar) */
+export function toggleProgramRecording(channel: Channel, program: Program): void {
+  const { hasRecording, removeRecording, addRecording } = useRecordingStore.getState();
+
+  if (hasRecording(channel.id, program.startTime)) {
+    removeRecording(recordingId(channel.id, program.startTime));
+    return;
+  }
+  const task = findProgramRecordingTask(useDownloadStore.getState().tasks, channel, program);
+  if (task) {
+    Alert.alert('Parar gravação?', 'O que já foi gravado fica nos downloads.', [
+      { text: 'Continuar', style: 'cancel' },
+      { text: 'Parar', style: 'destructive', onPress: () => endRecordingTask(task.id) },
+    ]);
+    return;
+  }
+  const { recordingPaddingBefore: before, recordingPaddingAfter: after } = useSettingsStore.getState();
+  const now = Date.now();
+  const end = program.endTime.getTime() + after * 60000;
+  if (end <= now) {
+    Alert.alert('Gravação', 'Esse programa já terminou.');
+    return;
+  }
+  if (!canRecord(channel)) return;
+
+  const start = Math.max(now, program.startTime.getTime() - before * 60000);
+  withConflictCheck(start, end, () => {
+    addRecording(channel, program, before, after);
+    // A agenda roda no próprio app (sem tarefa em segundo plano) — avisa para não ser surpresa
+    if (start > now) {
+      Alert.alert(
+        'Gravação agendada',
+        `A gravação começa às ${formatTime(start)} se o Saimo TV estiver aberto. Com o app fechado, ` +
+          'a notificação do início avisa — abra o app para gravar.'
+      );
+    }
+  });
+}
+
+/** Grava o canal a partir de agora: até o fim do programa atual ou por uma hora */
+export function recordChannelNow(channel: Channel, current: Program | null): void {
+  if (current) {
+    toggleProgramRecording(channel, current);
+    return;
+  }
+  if (!canRecord(channel)) return;
+  const start = Date.now();
+  const end = start + DEFAULT_RECORDING_MIN * 60000;
+  withConflictCheck(start, end, () => {
+    downloadManager.enqueueRecording(channel, { title: channel.name, start, end }).catch((e) => {
+      Alert.alert('Gravação', `Não foi possível gravar: ${e?.message ?? e}`);
+    });
+  });
+}
+
+interface RecordButtonProps {
+  channel: Channel;
+  program: Program;
+  size?: number;
+}
+
+const RecordButton = memo(({ channel, program, size = 16 }: RecordButtonProps) => {
+  const id = recordingId(channel.id, program.startTime);
+  const scheduled = useRecordingStore(state => state.recordings.some(r => r.id === id));
+  const recording = useDownloadStore(state => !!findProgramRecordingTask(state.tasks, channel, program));
+  const active = scheduled || recording;
+
+  const handlePress = useCallback(() => {
+    toggleProgramRecording(channel, program);
+  }, [channel, program]);
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, active && styles.buttonActive]}
+      onPress={handlePress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={active ? 'radio-button-on' : 'radio-button-off'}
+        size={size}
+        color={active ? Colors.text : Colors.textSecondary}
+      />
+    </TouchableOpacity>
+  );
+});
+
+RecordButton.displayName = 'RecordButton';
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 4,
+    borderRadius: BorderRadius.full,
+  },
+  buttonActive: {
+    backgroundColor: Colors.live,
+  },
+});
+
+export default RecordButton;
@@ -0,0 +1,85 @@
+import React, { memo, useCallback } from 'react';
+import { TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import type { Channel, Program } from '../types';
+import { Colors, BorderRadius } from '../constants/Colors';
+import { useReminderStore, reminderId, REMINDER_LEAD_OPTIONS } from '../stores/reminderStore';
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+/** Cria ou remove o lembrete do programa, perguntando a antecedência */
+export function toggleProgramReminder(channel: Channel, program: Program): void {
+  const { hasReminder, removeReminder, addReminder } = useReminderStore.getState();
+
+  if (hasReminder(channel.id, program.startTime)) {
+    removeReminder(reminderId(channel.id, program.startTime));
+    return;
+  }
+  if (program.startTime.getTime() <= Date.now()) {
+    Alert.alert('Lembrete', 'Esse programa já começou.');
+    return;
+  }
+
+  const schedule = async (lead: number) => {
+    const ok = await addReminder(channel, program, lead);
+    if (!ok) Alert.alert('Lembrete', 'Não foi possível agendar o lembrete. Verifique as notificações do app.');
+  };
+
+  Alert.alert(
+    program.title,
+    `${channel.name} • ${formatTime(program.startTime)}\nQuando avisar?`,
+    [
+      { text: 'Cancelar', style: 'cancel' },
+      ...REMINDER_LEAD_OPTIONS.map(lead => ({
+        text: `${lead} min antes`,
+        onPress: () => { schedule(lead); },
+      })),
+    ]
+  );
+}
+
+interface ReminderButtonProps {
+  channel: Channel;
+  program: Program;
+  size?: number;
+}
+
+const ReminderButton = memo(({ channel, program, size = 16 }: ReminderButtonProps) => {
+  const id = reminderId(channel.id, program.startTime);
+  const active = useReminderStore(state => state.reminders.some(r => r.id === id));
+
+  const handlePress = useCallback(() => {
+    toggleProgramReminder(channel, program);
+  }, [channel, program]);
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, active && styles.buttonActive]}
+      onPress={handlePress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={active ? 'notifications' : 'notifications-outline'}
+        size={size}
+        color={active ? Colors.text : Colors.textSecondary}
+      />
+    </TouchableOpacity>
+  );
+});
+
+ReminderButton.displayName = 'ReminderButton';
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 4,
+    borderRadius: BorderRadius.full,
+  },
+  buttonActive: {
+    backgroundColor: Colors.primary,
+  },
+});
+
+export default ReminderButton;
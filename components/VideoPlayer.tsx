@@ -10,8 +10,10 @@ import {
   BackHandler,
   Platform,
   ActivityIndicator,
+  PanResponder,
+  Alert,
 } from 'react-native';
-import Video, { DRMType, SelectedTrackType, SelectedVideoTrackType, VideoRef } from 'react-native-video';
+import Video, { SelectedTrackType, SelectedVideoTrackType, VideoRef, type OnVideoErrorData } from 'react-native-video';
 import { CastButton, useRemoteMediaClient } from 'react-native-google-cast';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import * as NavigationBar from 'expo-navigation-bar';
@@ -20,11 +22,24 @@ import { useRouter } from 'expo-router';
 import { Image } from 'expo-image';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-import type { Channel, CurrentProgram } from '../types';
+import type { Channel, ChannelStream, CurrentProgram, Program } from '../types';
 import { Colors, BorderRadius, Spacing, Typography } from '../constants/Colors';
 import { useFavoritesStore } from '../stores/favoritesStore';
+import { useStreamStore, getChannelStreams, getStreamDrm } from '../stores/streamStore';
+import { useChannelStore } from '../stores/channelStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useLiveHistoryStore } from '../stores/liveHistoryStore';
+import { useResolutionStore } from '../stores/resolutionStore';
+import { useDownloadStore } from '../stores/downloadStore';
+import { buildDrmConfig, describeDrmError } from '../services/drmConfig';
+import { ClearKeyError } from '../services/clearKey';
 import { getCurrentProgram, fetchChannelEPG, onEPGUpdate } from '../services/epgService';
+import { buildCatchupUrl, catchupStream, getStreamCatchup, type CatchupSession } from '../services/catchupService';
+import { TimeshiftBuffer } from '../services/timeshiftBuffer';
+import { downloadManager } from '../services/downloadManager';
+import { channelMatchesId } from '../services/channelMerge';
 import EPGGuideModal from './EPGGuideModal';
+import { recordChannelNow } from './RecordButton';
 
 function toResLabel(h: number): string {
   if (h >= 2160) return '4K';
@@ -36,10 +51,45 @@ function toResLabel(h: number): string {
   return `${h}p`;
 }
 
+// Buffer parado por mais que isso conta como falha do stream
+const STALL_TIMEOUT_MS = 15000;
+// Zapping: tempo para confirmar o número digitado e distância mínima do swipe
+const ZAP_ENTRY_TIMEOUT_MS = 2500;
+const ZAP_SWIPE_MIN_DY = 60;
+// Novas tentativas de licença DRM antes de seguir para failover/erro
+const LICENSE_MAX_RETRIES = 2;
+const KEYPAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'del', '0', 'ok'];
+
+function streamLabel(s: ChannelStream, i: number): string {
+  const host = s.url.match(/^\w+:\/\/([^/:?#]+)/)?.[1];
+  const detail = s.quality || host;
+  return detail ? `Fonte ${i + 1} · ${detail}` : `Fonte ${i + 1}`;
+}
+
 function formatTime(d: Date): string {
   return d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
 }
 
+/** Posição no programa do arquivo: m:ss ou h:mm:ss */
+function formatClock(totalSec: number): string {
+  const sec = Math.max(0, Math.floor(totalSec));
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  const ss = String(sec % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
+
+/** Atraso em relação ao ao vivo: mm:ss */
+function formatBehind(totalSec: number): string {
+  const sec = Math.max(0, Math.floor(totalSec));
+  return `${String(Math.floor(sec / 60)).padStart(2, '0')}:${String(sec % 60).padStart(2, '0')}`;
+}
+
+// Passo dos botões de voltar/avançar no arquivo e no timeshift
+const CATCHUP_SKIP_SEC = 30;
+// Timeshift: mais perto do ao vivo que isso volta para o stream original
+const TIMESHIFT_LIVE_EDGE_SEC = 5;
+
 function formatRemaining(min?: number): string {
   if (!min) return '';
   if (min < 60) return `${min}min`;
@@ -50,27 +100,49 @@ function formatRemaining(min?: number): string {
 
 interface VideoPlayerProps {
   channel: Channel;
+  /** Começa tocando este programa do arquivo em vez do ao vivo */
+  catchup?: CatchupSession;
 }
 
-export default function VideoPlayer({ channel }: VideoPlayerProps) {
+export default function VideoPlayer({ channel, catchup: initialCatchup }: VideoPlayerProps) {
   const router = useRouter();
   const insets = useSafeAreaInsets();
 
   const [activeChannel, setActiveChannel] = useState<Channel>(channel);
+  const streams = useMemo(() => getChannelStreams(activeChannel), [activeChannel]);
+  const [streamIdx, setStreamIdx] = useState(() => useStreamStore.getState().getPreferredIndex(channel));
+  const currentStream = streams[streamIdx] ?? streams[0];
 
   const client = useRemoteMediaClient();
   const videoRef = useRef<VideoRef>(null);
 
   const [epg, setEpg] = useState<CurrentProgram | null>(null);
   const [hasError, setHasError] = useState(false);
+  const [drmError, setDrmError] = useState<string | null>(null);
   const [videoResolution, setVideoResolution] = useState<string | null>(null);
   const [showGuide, setShowGuide] = useState(false);
   const [osdVisible, setOsdVisible] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
-  const [menuPage, setMenuPage] = useState<'main' | 'audio' | 'video' | 'cc'>('main');
+  const [menuPage, setMenuPage] = useState<'main' | 'audio' | 'video' | 'cc' | 'source'>('main');
   const [videoKey, setVideoKey] = useState(0);
   const [isCasting, setIsCasting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [showKeypad, setShowKeypad] = useState(false);
+  const [numberBuffer, setNumberBuffer] = useState('');
+  const [zapMessage, setZapMessage] = useState<string | null>(null);
+  const [previousChannel, setPreviousChannel] = useState<Channel | null>(null);
+
+  // ─── Catch-up ───
+  const [catchup, setCatchup] = useState<CatchupSession | null>(initialCatchup ?? null);
+  // Segundos do programa onde a URL atual começa (servidores sem seek pedem uma URL nova)
+  const [catchupOffset, setCatchupOffset] = useState(0);
+  const [catchupPosition, setCatchupPosition] = useState(0);
+  const [paused, setPaused] = useState(false);
+  // Timeshift: segundos atrás do ao vivo, tocando do buffer local, duração já gravada
+  const [behindLive, setBehindLive] = useState(0);
+  const [timeshiftPlaying, setTimeshiftPlaying] = useState(false);
+  const [timeshiftBuffered, setTimeshiftBuffered] = useState(0);
+  const [timeshiftUri, setTimeshiftUri] = useState<string | null>(null);
 
   const [audioTracks, setAudioTracks] = useState<any[]>([]);
   const [videoTracks, setVideoTracks] = useState<any[]>([]);
@@ -79,17 +151,49 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
   const [selectedVideoTrackId, setSelectedVideoTrackId] = useState<number | null>(null);
   const [selectedTextIdx, setSelectedTextIdx] = useState<number | null>(null);
 
-  const { toggleFavorite, isFavorite } = useFavoritesStore();
-  const [favorite, setFavorite] = useState(isFavorite(channel.id));
+  const { toggleChannelFavorite, isChannelFavorite, favorites } = useFavoritesStore();
+  const adultUnlocked = useSettingsStore(state => state.adultUnlocked);
+  const timeshiftMinutes = useSettingsStore(state => state.timeshiftMinutes);
+  const [favorite, setFavorite] = useState(isChannelFavorite(channel));
 
   const osdTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const switchDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const retryIntervalRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stallTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const numberTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const zapMessageTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isRetryingRef = useRef(false);
   const isMountedRef = useRef(true);
   const [isRetrying, setIsRetrying] = useState(false);
 
+  // Refs para os callbacks do <Video> não dependerem do stream atual
+  const activeChannelRef = useRef(activeChannel);
+  activeChannelRef.current = activeChannel;
+  const streamsRef = useRef(streams);
+  streamsRef.current = streams;
+  const streamIdxRef = useRef(streamIdx);
+  streamIdxRef.current = streamIdx;
+  // Streams que falharam desde o último load bem-sucedido
+  const failedCountRef = useRef(0);
+  const licenseRetriesRef = useRef(0);
+  const catchupRef = useRef(catchup);
+  catchupRef.current = catchup;
+  const catchupOffsetRef = useRef(catchupOffset);
+  catchupOffsetRef.current = catchupOffset;
+  // O arquivo carregado tem duração conhecida e aceita seek nativo
+  const nativeSeekRef = useRef(false);
+  const seekWidthRef = useRef(0);
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+  const behindLiveRef = useRef(behindLive);
+  behindLiveRef.current = behindLive;
+  const timeshiftPlayingRef = useRef(timeshiftPlaying);
+  timeshiftPlayingRef.current = timeshiftPlaying;
+  const timeshiftRef = useRef<TimeshiftBuffer | null>(null);
+  // Posição a aplicar quando o buffer local terminar de carregar
+  const pendingSeekRef = useRef<number | null>(null);
+
   // ─── OSD ───
   const showOSD = useCallback(() => {
     setOsdVisible(true);
@@ -107,12 +211,18 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
   // ─── Channel switch ───
   const handleSwitchChannel = useCallback((target: Channel) => {
     if (target.id === activeChannel.id) return;
+    setPreviousChannel(activeChannelRef.current);
     if (retryTimerRef.current)    { clearTimeout(retryTimerRef.current);    retryTimerRef.current    = null; }
     if (retryIntervalRef.current) { clearTimeout(retryIntervalRef.current); retryIntervalRef.current = null; }
     if (switchDebounceRef.current){ clearTimeout(switchDebounceRef.current); switchDebounceRef.current = null; }
+    if (stallTimerRef.current)    { clearTimeout(stallTimerRef.current);    stallTimerRef.current    = null; }
     isRetryingRef.current = false;
+    failedCountRef.current = 0;
+    licenseRetriesRef.current = 0;
     setIsRetrying(false);
     setHasError(false);
+    setDrmError(null);
+    setStreamIdx(useStreamStore.getState().getPreferredIndex(target));
     setVideoResolution(null);
     setAudioTracks([]);
     setVideoTracks([]);
@@ -121,6 +231,9 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
     setSelectedVideoTrackId(null);
     setSelectedTextIdx(null);
     setMenuPage('main');
+    setCatchup(null);
+    setCatchupOffset(0);
+    setPaused(false);
     setIsLoading(true);
     setActiveChannel(target);
     switchDebounceRef.current = setTimeout(() => {
@@ -129,22 +242,103 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
     }, 200);
   }, [activeChannel.id]);
 
+  // Mantém o canal atual sincronizado com o store (lista, zapping, histórico)
+  useEffect(() => {
+    useChannelStore.getState().setCurrentChannel(activeChannel.id);
+  }, [activeChannel.id]);
+
+  // Histórico ao vivo: registra a abertura e soma o tempo assistido ao sair do canal
+  useEffect(() => {
+    const channelId = activeChannel.id;
+    const startedAt = Date.now();
+    useLiveHistoryStore.getState().recordStart(channelId);
+    return () => useLiveHistoryStore.getState().addWatchTime(channelId, Date.now() - startedAt);
+  }, [activeChannel.id]);
+
+  // ─── Zapping ───
+  // Lista filtrada da tela de canais; se o canal atual não estiver nela, usa todos
+  const getZapList = useCallback((): Channel[] => {
+    const store = useChannelStore.getState();
+    const filtered = store.getFilteredChannels(adultUnlocked, favorites);
+    if (filtered.some(ch => ch.id === activeChannelRef.current.id)) return filtered;
+    return store.getAllChannels(adultUnlocked);
+  }, [adultUnlocked, favorites]);
+
+  const flashZapMessage = useCallback((msg: string) => {
+    setZapMessage(msg);
+    if (zapMessageTimerRef.current) clearTimeout(zapMessageTimerRef.current);
+    zapMessageTimerRef.current = setTimeout(() => {
+      if (isMountedRef.current) setZapMessage(null);
+    }, 2000);
+  }, []);
+
+  const zapBy = useCallback((delta: number) => {
+    const list = getZapList();
+    if (list.length < 2) return;
+    const idx = list.findIndex(ch => ch.id === activeChannelRef.current.id);
+    const next = idx < 0 ? list[0] : list[(idx + delta + list.length) % list.length];
+    handleSwitchChannel(next);
+  }, [getZapList, handleSwitchChannel]);
+
+  const handlePreviousChannel = useCallback(() => {
+    if (previousChannel) handleSwitchChannel(previousChannel);
+  }, [previousChannel, handleSwitchChannel]);
+
+  const commitNumber = useCallback((buffer: string) => {
+    if (numberTimerRef.current) { clearTimeout(numberTimerRef.current); numberTimerRef.current = null; }
+    setNumberBuffer('');
+    const num = parseInt(buffer, 10);
+    if (!Number.isFinite(num)) return;
+    const target = getZapList().find(ch => ch.channelNumber === num)
+      ?? useChannelStore.getState().getAllChannels(adultUnlocked).find(ch => ch.channelNumber === num);
+    if (target) {
+      setShowKeypad(false);
+      handleSwitchChannel(target);
+    } else {
+      flashZapMessage(`Canal ${num} não encontrado`);
+    }
+  }, [getZapList, adultUnlocked, handleSwitchChannel, flashZapMessage]);
+
+  const handleKeypadPress = useCallback((key: string) => {
+    if (key === 'ok') { commitNumber(numberBuffer); return; }
+    const next = key === 'del' ? numberBuffer.slice(0, -1) : (numberBuffer + key).slice(-4);
+    setNumberBuffer(next);
+    if (numberTimerRef.current) clearTimeout(numberTimerRef.current);
+    numberTimerRef.current = next
+      ? setTimeout(() => { if (isMountedRef.current) commitNumber(next); }, ZAP_ENTRY_TIMEOUT_MS)
+      : null;
+  }, [numberBuffer, commitNumber]);
+
+  // Swipe vertical no vídeo: para cima = próximo canal, para baixo = anterior
+  const zapByRef = useRef(zapBy);
+  zapByRef.current = zapBy;
+  const swipeEnabledRef = useRef(true);
+  swipeEnabledRef.current = !showMenu && !showGuide && !showKeypad;
+  const panResponder = useMemo(() => PanResponder.create({
+    onMoveShouldSetPanResponder: (_, g) =>
+      swipeEnabledRef.current && Math.abs(g.dy) > 20 && Math.abs(g.dy) > Math.abs(g.dx) * 2,
+    onPanResponderRelease: (_, g) => {
+      if (g.dy <= -ZAP_SWIPE_MIN_DY) zapByRef.current(1);
+      else if (g.dy >= ZAP_SWIPE_MIN_DY) zapByRef.current(-1);
+    },
+  }), []);
+
   // ─── Favorite sync ───
   useEffect(() => {
-    setFavorite(isFavorite(activeChannel.id));
-  }, [activeChannel.id, isFavorite]);
+    setFavorite(isChannelFavorite(activeChannel));
+  }, [activeChannel, isChannelFavorite]);
 
   const handleToggleFavorite = useCallback(() => {
-    toggleFavorite(activeChannel.id);
+    toggleChannelFavorite(activeChannel);
     setFavorite(prev => !prev);
-  }, [activeChannel.id, toggleFavorite]);
+  }, [activeChannel, toggleChannelFavorite]);
 
   // ─── Cast ───
   const handleCast = useCallback(() => {
     if (!client) return;
     client.loadMedia({
       mediaInfo: {
-        contentUrl: activeChannel.url,
+        contentUrl: currentStream.url,
         metadata: {
           type: 'movie',
           title: activeChannel.name,
@@ -154,7 +348,7 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
       autoplay: true,
     });
     setIsCasting(true);
-  }, [client, activeChannel]);
+  }, [client, activeChannel, currentStream.url]);
 
   useEffect(() => {
     if (client) handleCast();
@@ -189,6 +383,9 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
       if (switchDebounceRef.current) clearTimeout(switchDebounceRef.current);
       if (retryTimerRef.current)     clearTimeout(retryTimerRef.current);
       if (retryIntervalRef.current)  clearTimeout(retryIntervalRef.current);
+      if (stallTimerRef.current)     clearTimeout(stallTimerRef.current);
+      if (numberTimerRef.current)    clearTimeout(numberTimerRef.current);
+      if (zapMessageTimerRef.current) clearTimeout(zapMessageTimerRef.current);
     };
   }, []);
 
@@ -222,17 +419,182 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
 
   useEffect(() => {
     const sub = BackHandler.addEventListener('hardwareBackPress', () => {
+      if (showKeypad) { setShowKeypad(false); return true; }
       if (showMenu) { setShowMenu(false); return true; }
       if (showGuide) { setShowGuide(false); return true; }
       handleBack();
       return true;
     });
     return () => sub.remove();
-  }, [showMenu, showGuide, handleBack]);
+  }, [showKeypad, showMenu, showGuide, handleBack]);
+
+  // ─── Failover ───
+  const clearStallTimer = useCallback(() => {
+    if (stallTimerRef.current) { clearTimeout(stallTimerRef.current); stallTimerRef.current = null; }
+  }, []);
+
+  // Avança para o próximo stream. Retorna false quando todos já falharam nesta rodada.
+  const tryNextStream = useCallback((): boolean => {
+    const total = streamsRef.current.length;
+    failedCountRef.current += 1;
+    if (total <= 1 || failedCountRef.current >= total) return false;
+    console.warn(`[Player] fonte ${streamIdxRef.current + 1}/${total} falhou, tentando a próxima`);
+    setStreamIdx(i => (i + 1) % total);
+    setIsLoading(true);
+    setVideoKey(k => k + 1);
+    return true;
+  }, []);
+
+  const handleSelectStream = useCallback((idx: number) => {
+    if (retryTimerRef.current)    { clearTimeout(retryTimerRef.current);    retryTimerRef.current    = null; }
+    if (retryIntervalRef.current) { clearTimeout(retryIntervalRef.current); retryIntervalRef.current = null; }
+    isRetryingRef.current = false;
+    failedCountRef.current = 0;
+    licenseRetriesRef.current = 0;
+    setIsRetrying(false);
+    setHasError(false);
+    setIsLoading(true);
+    setStreamIdx(idx);
+    setMenuPage('main');
+    setVideoKey(k => k + 1);
+  }, []);
+
+  // ─── Catch-up ───
+  const catchupDuration = catchup ? (catchup.end - catchup.start) / 1000 : 0;
+
+  const handleStartCatchup = useCallback((target: Channel, program: Program) => {
+    handleSwitchChannel(target);
+    failedCountRef.current = 0;
+    setCatchup({ title: program.title, start: program.startTime.getTime(), end: program.endTime.getTime() });
+    setCatchupOffset(0);
+    setCatchupPosition(0);
+    setPaused(false);
+    setHasError(false);
+    setIsLoading(true);
+    setVideoKey(k => k + 1);
+  }, [handleSwitchChannel]);
+
+  const handleGoLive = useCallback(() => {
+    setCatchup(null);
+    setCatchupOffset(0);
+    setTimeshiftPlaying(false);
+    setBehindLive(0);
+    pendingSeekRef.current = null;
+    setPaused(false);
+    setHasError(false);
+    setIsLoading(true);
+    setVideoKey(k => k + 1);
+    showOSD();
+  }, [showOSD]);
+
+  const seekCatchup = useCallback((targetSec: number) => {
+    const session = catchupRef.current;
+    if (!session) return;
+    const duration = (session.end - session.start) / 1000;
+    const target = Math.max(0, Math.min(duration - 5, targetSec));
+    setCatchupPosition(target);
+    const local = target - catchupOffsetRef.current;
+    if (nativeSeekRef.current && local >= 0) {
+      videoRef.current?.seek(local);
+    } else {
+      // Servidor sem seek: pede o arquivo a partir do novo ponto
+      setCatchupOffset(target);
+      setIsLoading(true);
+    }
+    setPaused(false);
+    showOSD();
+  }, [showOSD]);
+
+  // ─── Timeshift ───
+  const liveDrm = !!getStreamDrm(activeChannel, currentStream);
+  const timeshiftEnabled = timeshiftMinutes > 0 && !catchup && !liveDrm;
+
+  // Grava o canal em disco enquanto toca; pausado, o atraso cresce até o tamanho do buffer
+  useEffect(() => {
+    if (!timeshiftEnabled) return;
+    const buffer = new TimeshiftBuffer(currentStream.url, currentStream.headers, timeshiftMinutes * 60);
+    buffer.start();
+    timeshiftRef.current = buffer;
+    setTimeshiftUri(buffer.playlistUri);
+    const timer = setInterval(() => {
+      const buffered = buffer.ready ? Math.floor(buffer.bufferedSeconds) : 0;
+      setTimeshiftBuffered(buffered);
+      setBehindLive(b => Math.min(buffered, pausedRef.current ? b + 1 : b));
+    }, 1000);
+    return () => {
+      clearInterval(timer);
+      buffer.stop();
+      timeshiftRef.current = null;
+      pendingSeekRef.current = null;
+      setTimeshiftUri(null);
+      setTimeshiftBuffered(0);
+      setTimeshiftPlaying(false);
+      setBehindLive(0);
+    };
+  }, [timeshiftEnabled, timeshiftMinutes, currentStream]);
+
+  /** Vai para `behindSec` atrás do ao vivo, tocando do buffer local */
+  const seekTimeshift = useCallback((behindSec: number, reload = false) => {
+    const buffer = timeshiftRef.current;
+    if (!buffer?.ready) return;
+    const behind = Math.min(buffer.bufferedSeconds, Math.max(0, behindSec));
+    if (behind <= TIMESHIFT_LIVE_EDGE_SEC) {
+      handleGoLive();
+      return;
+    }
+    setBehindLive(behind);
+    setPaused(false);
+    if (timeshiftPlayingRef.current && !reload) {
+      videoRef.current?.seek(buffer.positionFor(behind));
+    } else {
+      pendingSeekRef.current = buffer.positionFor(behind);
+      setTimeshiftPlaying(true);
+      setIsLoading(true);
+      setVideoKey(k => k + 1);
+    }
+    showOSD();
+  }, [handleGoLive, showOSD]);
+
+  // Retomar recarrega o buffer na posição certa (o trecho pausado pode já ter saído da janela)
+  const toggleTimeshiftPause = useCallback(() => {
+    if (pausedRef.current) {
+      seekTimeshift(behindLiveRef.current, true);
+    } else {
+      setPaused(true);
+      showOSD();
+    }
+  }, [seekTimeshift, showOSD]);
+
+  // ─── Gravação ───
+  const recordingTaskId = useDownloadStore(state => Object.values(state.tasks)
+    .find(t => !!t.recording && channelMatchesId(activeChannel, t.recording.channelId) && t.status === 'downloading')?.id ?? null);
+
+  const handleRecord = useCallback(() => {
+    if (recordingTaskId) {
+      Alert.alert('Parar gravação?', 'O que já foi gravado fica nos downloads.', [
+        { text: 'Continuar', style: 'cancel' },
+        { text: 'Parar', style: 'destructive', onPress: () => downloadManager.stopRecording(recordingTaskId) },
+      ]);
+      return;
+    }
+    recordChannelNow(activeChannel, epg?.current ?? null);
+    showOSD();
+  }, [recordingTaskId, activeChannel, epg, showOSD]);
 
   // ─── Video callbacks ───
   const onLoad = useCallback((data: any) => {
     if (!isMountedRef.current) return;
+    clearStallTimer();
+    nativeSeekRef.current = !!catchupRef.current && Number.isFinite(data?.duration) && data.duration > 0;
+    if (pendingSeekRef.current !== null) {
+      videoRef.current?.seek(pendingSeekRef.current);
+      pendingSeekRef.current = null;
+    }
+    failedCountRef.current = 0;
+    licenseRetriesRef.current = 0;
+    setDrmError(null);
+    const working = streamsRef.current[streamIdxRef.current];
+    if (working) useStreamStore.getState().setLastWorking(activeChannelRef.current.id, working.url);
     if (isRetryingRef.current) {
       isRetryingRef.current = false;
       setIsRetrying(false);
@@ -242,11 +604,48 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
     setHasError(false);
     setIsLoading(false);
     const h = data?.naturalSize?.height;
-    if (h && h > 0) setVideoResolution(toResLabel(h));
-  }, []);
+    if (h && h > 0) {
+      setVideoResolution(toResLabel(h));
+      useResolutionStore.getState().recordHeight(activeChannelRef.current.id, h, 'playback');
+    }
+  }, [clearStallTimer]);
 
-  const onError = useCallback(() => {
+  const onError = useCallback((e?: OnVideoErrorData) => {
     if (!isMountedRef.current) return;
+    clearStallTimer();
+    // Arquivo: não há fonte alternativa para o mesmo programa
+    if (catchupRef.current) {
+      console.warn('[Player] arquivo indisponível:', e?.error?.errorString ?? e?.error?.localizedDescription);
+      setIsLoading(false);
+      setHasError(true);
+      return;
+    }
+    // Buffer local com problema: volta para o ao vivo em vez de trocar de fonte
+    if (timeshiftPlayingRef.current) {
+      console.warn('[Player] timeshift falhou, voltando ao vivo:', e?.error?.errorString ?? e?.error?.localizedDescription);
+      setTimeshiftPlaying(false);
+      setBehindLive(0);
+      pendingSeekRef.current = null;
+      setIsLoading(true);
+      setVideoKey(k => k + 1);
+      return;
+    }
+    // Licença recusada/indisponível: tenta de novo a mesma fonte com backoff curto
+    const drmMessage = describeDrmError(e);
+    if (drmMessage) {
+      console.warn('[Player] erro de DRM:', e?.error?.errorString ?? e?.error?.localizedDescription);
+      setDrmError(drmMessage);
+      if (licenseRetriesRef.current < LICENSE_MAX_RETRIES) {
+        licenseRetriesRef.current += 1;
+        if (retryIntervalRef.current) clearTimeout(retryIntervalRef.current);
+        retryIntervalRef.current = setTimeout(() => {
+          if (isMountedRef.current) setVideoKey(k => k + 1);
+        }, 1500 * licenseRetriesRef.current);
+        return;
+      }
+    }
+    // Primeiro percorre os streams alternativos; só depois entra no ciclo de retry
+    if (!isRetryingRef.current && tryNextStream()) return;
     setIsLoading(false);
     if (!isRetryingRef.current) {
       isRetryingRef.current = true;
@@ -263,8 +662,40 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
       if (!isMountedRef.current || !isRetryingRef.current) return;
       setVideoKey(k => k + 1);
     }, 2000);
+  }, [clearStallTimer, tryNextStream]);
+
+  // Travamento (carregando/bufferizando por muito tempo) é tratado como erro
+  const armStallTimer = useCallback(() => {
+    clearStallTimer();
+    stallTimerRef.current = setTimeout(() => {
+      stallTimerRef.current = null;
+      if (!isMountedRef.current) return;
+      console.warn('[Player] stream travado');
+      onError();
+    }, STALL_TIMEOUT_MS);
+  }, [clearStallTimer, onError]);
+
+  const onLoadStart = useCallback(() => {
+    if (isMountedRef.current) armStallTimer();
+  }, [armStallTimer]);
+
+  const onBuffer = useCallback((data: any) => {
+    if (!isMountedRef.current) return;
+    if (data?.isBuffering) armStallTimer();
+    else clearStallTimer();
+  }, [armStallTimer, clearStallTimer]);
+
+  const onProgress = useCallback((data: any) => {
+    if (!isMountedRef.current || !catchupRef.current) return;
+    setCatchupPosition(catchupOffsetRef.current + (data?.currentTime ?? 0));
   }, []);
 
+  const onEnd = useCallback(() => {
+    if (!catchupRef.current) return;
+    setPaused(true);
+    showOSD();
+  }, [showOSD]);
+
   const onAudioTracks = useCallback((data: any) => {
     setAudioTracks(data?.audioTracks ?? []);
   }, []);
@@ -273,7 +704,10 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
     const tracks = data?.videoTracks ?? [];
     setVideoTracks(tracks);
     const maxH = tracks.reduce((m: number, t: any) => Math.max(m, t.height ?? 0), 0);
-    if (maxH > 0) setVideoResolution(toResLabel(maxH));
+    if (maxH > 0) {
+      setVideoResolution(toResLabel(maxH));
+      useResolutionStore.getState().recordHeight(activeChannelRef.current.id, maxH, 'playback');
+    }
   }, []);
 
   const onTextTracks = useCallback((data: any) => {
@@ -282,6 +716,9 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
 
   const handleRetry = useCallback(() => {
     isRetryingRef.current = false;
+    failedCountRef.current = 0;
+    licenseRetriesRef.current = 0;
+    setDrmError(null);
     setIsRetrying(false);
     setHasError(false);
     setIsLoading(true);
@@ -296,17 +733,35 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
     if (h && h > 0) setVideoResolution(toResLabel(h));
   }, []);
 
+  // No arquivo toca a URL montada a partir de um stream com catch-up
+  const catchupSource = useMemo((): ChannelStream | null => {
+    if (!catchup) return null;
+    const stream = catchupStream(activeChannel, currentStream);
+    const info = stream ? getStreamCatchup(activeChannel, stream) : undefined;
+    if (!stream || !info) return null;
+    const url = buildCatchupUrl(stream.url, info, new Date(catchup.start + catchupOffset * 1000), new Date(catchup.end));
+    return url ? { ...stream, url } : null;
+  }, [catchup, catchupOffset, activeChannel, currentStream]);
+  const playStream = catchupSource ?? currentStream;
+  const catchupUnavailable = !!catchup && !catchupSource;
+
   // ─── DRM config ───
-  const drmConfig = useMemo(() => {
-    if (!activeChannel.drm?.clearKey) return undefined;
-    return {
-      type: DRMType.CLEARKEY,
-      licenseServer: 'http://127.0.0.1:8765',
-    };
-  }, [activeChannel.drm?.clearKey]);
+  // Chave malformada não tem como tocar — mostra o erro sem montar o player.
+  // Canais mesclados podem ter DRM diferente por stream (cada fonte com o seu)
+  const streamDrm = getStreamDrm(activeChannel, playStream);
+  const { drmConfig, drmSetupError } = useMemo(() => {
+    try {
+      return { drmConfig: buildDrmConfig(streamDrm), drmSetupError: null };
+    } catch (e) {
+      if (!(e instanceof ClearKeyError)) throw e;
+      console.warn('[Player]', e.message);
+      return { drmConfig: undefined, drmSetupError: e.message };
+    }
+  }, [streamDrm]);
+  const showError = hasError || !!drmSetupError || catchupUnavailable;
+  const errorMessage = drmSetupError ?? drmError;
 
-  // ─── Prev/Next ───
-  // Sem channel store global; mantém apenas a interação via guia.
+  // ─── Áudio ───
   const audioLanguages = useMemo(() => {
     return Array.from(new Set(audioTracks.map(t => t.language).filter(Boolean))).slice(0, 3);
   }, [audioTracks]);
@@ -315,25 +770,34 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
     <View style={styles.container}>
       <StatusBar hidden />
 
+      <View style={styles.videoContainer} {...panResponder.panHandlers}>
       <Pressable
         style={styles.videoContainer}
         onPress={() => {
-          if (showMenu || showGuide) return;
+          if (showMenu || showGuide || showKeypad) return;
           osdVisible ? hideOSD() : showOSD();
         }}
         focusable={false}
         android_ripple={{ color: 'transparent' }}
       >
         <View style={styles.video} pointerEvents="none">
-          <Video
+          {!drmSetupError && !catchupUnavailable && <Video
             key={videoKey}
             ref={videoRef}
-            source={{ uri: activeChannel.url, headers: activeChannel.headers }}
+            source={timeshiftPlaying && timeshiftUri
+              ? { uri: timeshiftUri }
+              : { uri: playStream.url, headers: playStream.headers }}
             drm={drmConfig}
             style={styles.video}
             resizeMode="contain"
             onLoad={onLoad}
+            onLoadStart={onLoadStart}
+            onBuffer={onBuffer}
             onError={onError}
+            onProgress={onProgress}
+            progressUpdateInterval={1000}
+            onEnd={onEnd}
+            paused={paused}
             onAudioTracks={onAudioTracks}
             onVideoTracks={onVideoTracks}
             onTextTracks={onTextTracks}
@@ -354,14 +818,14 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
               bufferForPlaybackAfterRebufferMs: 5000,
             }}
             controls={false}
-            repeat
+            repeat={!catchup && !timeshiftPlaying}
             ignoreSilentSwitch="ignore"
             playInBackground={false}
             focusable={false}
-          />
+          />}
         </View>
 
-        {(isLoading || isRetrying) && !hasError && (
+        {(isLoading || isRetrying) && !showError && (
           <View style={styles.loadingOverlay} pointerEvents="none">
             <ActivityIndicator size="large" color={Colors.primary} />
             {isRetrying && <Text style={styles.retryingText}>Conectando ao canal...</Text>}
@@ -376,17 +840,28 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
           </View>
         )}
 
-        {hasError && (
+        {showError && (
           <View style={styles.errorContainer}>
             <Ionicons name="alert-circle-outline" size={64} color={Colors.error} />
-            <Text style={styles.errorTitle}>Canal indisponível</Text>
+            <Text style={styles.errorTitle}>
+              {errorMessage ? 'Conteúdo protegido' : catchup ? 'Programa indisponível' : 'Canal indisponível'}
+            </Text>
             <Text style={styles.errorText}>
-              Este canal está temporariamente fora do ar.
+              {errorMessage ?? (catchup
+                ? 'O arquivo deste programa não pôde ser aberto.'
+                : 'Este canal está temporariamente fora do ar.')}
             </Text>
-            <TouchableOpacity style={styles.retryButton} onPress={handleRetry}>
-              <Ionicons name="refresh" size={20} color={Colors.text} />
-              <Text style={styles.retryText}>Tentar novamente</Text>
-            </TouchableOpacity>
+            {!catchupUnavailable && (
+              <TouchableOpacity style={styles.retryButton} onPress={handleRetry}>
+                <Ionicons name="refresh" size={20} color={Colors.text} />
+                <Text style={styles.retryText}>Tentar novamente</Text>
+              </TouchableOpacity>
+            )}
+            {catchup && (
+              <TouchableOpacity style={styles.backButtonError} onPress={handleGoLive}>
+                <Text style={styles.backButtonText}>Assistir ao vivo</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity style={styles.backButtonError} onPress={handleBack}>
               <Text style={styles.backButtonText}>Voltar aos canais</Text>
             </TouchableOpacity>
@@ -394,12 +869,35 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
         )}
 
         {/* Top Bar */}
-        {osdVisible && !showMenu && !showGuide && !hasError && (
+        {osdVisible && !showMenu && !showGuide && !showError && (
           <View style={[styles.topBar, { paddingTop: insets.top + Spacing.sm }]}>
             <TouchableOpacity style={styles.iconButton} onPress={handleBack}>
               <Ionicons name="arrow-back" size={24} color={Colors.text} />
             </TouchableOpacity>
             <View style={{ flex: 1 }} />
+            {(catchup || behindLive > 0) && (
+              <TouchableOpacity style={styles.goLiveButton} onPress={handleGoLive}>
+                <View style={styles.goLiveDot} />
+                <Text style={styles.goLiveText}>AO VIVO</Text>
+              </TouchableOpacity>
+            )}
+            {!catchup && (
+              <TouchableOpacity
+                style={recordingTaskId ? styles.recButton : styles.iconButton}
+                onPress={handleRecord}
+              >
+                <Ionicons name="radio-button-on" size={recordingTaskId ? 14 : 22} color={recordingTaskId ? Colors.live : Colors.text} />
+                {recordingTaskId && <Text style={styles.goLiveText}>REC</Text>}
+              </TouchableOpacity>
+            )}
+            {previousChannel && (
+              <TouchableOpacity style={styles.iconButton} onPress={handlePreviousChannel}>
+                <Ionicons name="swap-horizontal" size={22} color={Colors.text} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.iconButton} onPress={() => { setNumberBuffer(''); setShowKeypad(true); }}>
+              <Ionicons name="keypad-outline" size={20} color={Colors.text} />
+            </TouchableOpacity>
             <View style={styles.castWrap}>
               <CastButton style={{ width: 24, height: 24, tintColor: Colors.text }} />
             </View>
@@ -413,7 +911,7 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
         )}
 
         {/* OSD Banner */}
-        {osdVisible && !showMenu && !showGuide && !hasError && (
+        {osdVisible && !showMenu && !showGuide && !showError && (
           <View style={[styles.osdContainer, { bottom: insets.bottom + 24, left: 24, right: 24 }]}>
             <View style={styles.osdBanner}>
               <View style={styles.osdLogoCol}>
@@ -449,6 +947,11 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
                       <Text style={styles.osdResText}>{videoResolution}</Text>
                     </View>
                   )}
+                  {streams.length > 1 && (
+                    <View style={styles.osdResBadge}>
+                      <Text style={styles.osdResText}>FONTE {streamIdx + 1}/{streams.length}</Text>
+                    </View>
+                  )}
                   {audioLanguages.map((lang) => (
                     <View key={`aud-${lang}`} style={styles.osdAudBadge}>
                       <Ionicons name="volume-medium" size={11} color={Colors.text} />
@@ -461,12 +964,57 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
                       <Text style={styles.osdCcText}>CC</Text>
                     </View>
                   )}
-                  {epg?.remaining ? (
+                  {!catchup && epg?.remaining ? (
                     <Text style={styles.osdRemaining}>{formatRemaining(epg.remaining)}</Text>
                   ) : null}
                 </View>
 
-                {epg?.current ? (
+                {catchup ? (
+                  <>
+                    <View style={styles.osdProgTitleRow}>
+                      <View style={styles.archiveBadge}>
+                        <Text style={styles.archiveBadgeText}>ARQUIVO</Text>
+                      </View>
+                      <Text style={styles.osdProgTitle} numberOfLines={1}>{catchup.title || activeChannel.name}</Text>
+                      <Text style={styles.osdProgTime}>
+                        {formatTime(new Date(catchup.start))}{' – '}{formatTime(new Date(catchup.end))}
+                      </Text>
+                    </View>
+                    <Pressable
+                      style={styles.seekTrack}
+                      onLayout={e => { seekWidthRef.current = e.nativeEvent.layout.width; }}
+                      onPress={e => {
+                        if (seekWidthRef.current > 0) {
+                          seekCatchup((e.nativeEvent.locationX / seekWidthRef.current) * catchupDuration);
+                        }
+                      }}
+                    >
+                      <View style={styles.osdProgBar}>
+                        <View
+                          style={[
+                            styles.osdProgFill,
+                            { width: `${catchupDuration > 0 ? Math.min(100, (catchupPosition / catchupDuration) * 100) : 0}%` },
+                          ]}
+                        />
+                      </View>
+                    </Pressable>
+                    <View style={styles.playbackControls}>
+                      <Text style={styles.osdProgTime}>{formatClock(catchupPosition)}</Text>
+                      <View style={{ flex: 1 }} />
+                      <TouchableOpacity style={styles.playbackButton} onPress={() => seekCatchup(catchupPosition - CATCHUP_SKIP_SEC)}>
+                        <Ionicons name="play-back" size={18} color={Colors.text} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.playbackButton} onPress={() => { setPaused(p => !p); showOSD(); }}>
+                        <Ionicons name={paused ? 'play' : 'pause'} size={20} color={Colors.text} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.playbackButton} onPress={() => seekCatchup(catchupPosition + CATCHUP_SKIP_SEC)}>
+                        <Ionicons name="play-forward" size={18} color={Colors.text} />
+                      </TouchableOpacity>
+                      <View style={{ flex: 1 }} />
+                      <Text style={styles.osdProgTime}>{formatClock(catchupDuration)}</Text>
+                    </View>
+                  </>
+                ) : epg?.current ? (
                   <>
                     <View style={styles.osdProgTitleRow}>
                       <Text style={styles.osdProgTitle} numberOfLines={1}>{epg.current.title}</Text>
@@ -491,6 +1039,33 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
                 ) : (
                   <Text style={styles.osdNoEpg}>Sem informação de programação</Text>
                 )}
+
+                {!catchup && timeshiftBuffered > 0 && (
+                  <View style={styles.playbackControls}>
+                    <View style={[styles.timeshiftBadge, behindLive > 0 && styles.timeshiftBadgeBehind]}>
+                      {behindLive === 0 && <View style={styles.goLiveDot} />}
+                      <Text style={styles.timeshiftText}>
+                        {behindLive > 0 ? `-${formatBehind(behindLive)}` : 'AO VIVO'}
+                      </Text>
+                    </View>
+                    <View style={{ flex: 1 }} />
+                    <TouchableOpacity style={styles.playbackButton} onPress={() => seekTimeshift(behindLive + CATCHUP_SKIP_SEC)}>
+                      <Ionicons name="play-back" size={18} color={Colors.text} />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.playbackButton} onPress={toggleTimeshiftPause}>
+                      <Ionicons name={paused ? 'play' : 'pause'} size={20} color={Colors.text} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.playbackButton, behindLive === 0 && styles.playbackButtonDisabled]}
+                      disabled={behindLive === 0}
+                      onPress={() => seekTimeshift(behindLive - CATCHUP_SKIP_SEC)}
+                    >
+                      <Ionicons name="play-forward" size={18} color={Colors.text} />
+                    </TouchableOpacity>
+                    <View style={{ flex: 1 }} />
+                    <Text style={styles.osdProgTime}>-{formatBehind(timeshiftBuffered)}</Text>
+                  </View>
+                )}
               </View>
 
               <TouchableOpacity
@@ -506,7 +1081,55 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
             </View>
           </View>
         )}
+
+        {/* Canal acima/abaixo */}
+        {osdVisible && !showMenu && !showGuide && !showKeypad && (
+          <View style={[styles.zapColumn, { right: insets.right + Spacing.lg }]}>
+            <TouchableOpacity style={styles.iconButton} onPress={() => zapBy(1)}>
+              <Ionicons name="chevron-up" size={24} color={Colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => zapBy(-1)}>
+              <Ionicons name="chevron-down" size={24} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Número sendo digitado / aviso de zapping */}
+        {(numberBuffer !== '' || zapMessage) && (
+          <View style={[styles.zapBuffer, { top: insets.top + 64 }]} pointerEvents="none">
+            <Text style={numberBuffer ? styles.zapBufferText : styles.zapMessageText}>
+              {numberBuffer ? numberBuffer.padStart(2, '-') : zapMessage}
+            </Text>
+          </View>
+        )}
       </Pressable>
+      </View>
+
+      {/* Teclado numérico */}
+      {showKeypad && !showGuide && (
+        <Pressable style={styles.menuOverlay} onPress={() => setShowKeypad(false)}>
+          <Pressable style={styles.keypadCard} onPress={e => e.stopPropagation()}>
+            <Text style={styles.keypadDisplay}>{numberBuffer || '--'}</Text>
+            <View style={styles.keypadGrid}>
+              {KEYPAD_KEYS.map((key) => (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.keypadKey, key === 'ok' && styles.keypadKeyOk]}
+                  onPress={() => handleKeypadPress(key)}
+                >
+                  {key === 'del' ? (
+                    <Ionicons name="backspace-outline" size={22} color={Colors.text} />
+                  ) : key === 'ok' ? (
+                    <Ionicons name="checkmark" size={24} color={Colors.text} />
+                  ) : (
+                    <Text style={styles.keypadKeyText}>{key}</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </Pressable>
+        </Pressable>
+      )}
 
       {/* Menu */}
       {showMenu && !showGuide && (
@@ -532,6 +1155,17 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
                   <Ionicons name="calendar-outline" size={20} color={Colors.text} />
                   <Text style={styles.menuItemText}>Guia de Programação</Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.menuItem, streams.length <= 1 && styles.menuItemDisabled]}
+                  disabled={streams.length <= 1}
+                  onPress={() => setMenuPage('source')}
+                >
+                  <Ionicons name="git-branch-outline" size={20} color={Colors.text} />
+                  <Text style={styles.menuItemText} numberOfLines={1}>
+                    {streamLabel(currentStream, streams.indexOf(currentStream))}
+                    {streams.length > 1 ? ` (${streams.length})` : ''}
+                  </Text>
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={[styles.menuItem, audioTracks.length === 0 && styles.menuItemDisabled]}
                   disabled={audioTracks.length === 0}
@@ -570,6 +1204,21 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
               </>
             )}
 
+            {menuPage === 'source' && streams.map((stream, i) => (
+              <TouchableOpacity
+                key={`${i}-${stream.url}`}
+                style={styles.menuItem}
+                onPress={() => handleSelectStream(i)}
+              >
+                <Ionicons
+                  name={streamIdx === i ? 'radio-button-on' : 'radio-button-off'}
+                  size={18}
+                  color={Colors.text}
+                />
+                <Text style={styles.menuItemText} numberOfLines={1}>{streamLabel(stream, i)}</Text>
+              </TouchableOpacity>
+            ))}
+
             {menuPage === 'audio' && audioTracks.map((track: any, i: number) => (
               <TouchableOpacity
                 key={i}
@@ -628,6 +1277,7 @@ export default function VideoPlayer({ channel }: VideoPlayerProps) {
         visible={showGuide}
         onClose={() => setShowGuide(false)}
         onChannelPress={handleSwitchChannel}
+        onCatchupPress={handleStartCatchup}
       />
     </View>
   );
@@ -682,6 +1332,34 @@ const styles = StyleSheet.create({
   },
   castWrap: { width: 40, height: 40, justifyContent: 'center', alignItems: 'center' },
 
+  zapColumn: { position: 'absolute', top: '35%', gap: Spacing.md },
+  zapBuffer: {
+    position: 'absolute', right: Spacing.xxl,
+    backgroundColor: 'rgba(6,6,18,0.85)', borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg, paddingVertical: Spacing.sm,
+    borderWidth: 1, borderColor: 'rgba(99,102,241,0.32)',
+  },
+  zapBufferText: { color: Colors.text, fontSize: 36, fontWeight: '800', letterSpacing: 4, fontVariant: ['tabular-nums'] },
+  zapMessageText: { color: Colors.text, fontSize: Typography.body.fontSize, fontWeight: '600' },
+  keypadCard: {
+    width: 260,
+    backgroundColor: 'rgba(8,8,20,0.98)',
+    borderRadius: 16, borderWidth: 1, borderColor: 'rgba(99,102,241,0.32)',
+    padding: Spacing.lg, gap: Spacing.md,
+  },
+  keypadDisplay: {
+    color: Colors.text, fontSize: 32, fontWeight: '800', textAlign: 'center',
+    letterSpacing: 4, fontVariant: ['tabular-nums'],
+  },
+  keypadGrid: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-between', rowGap: Spacing.sm },
+  keypadKey: {
+    width: 68, height: 48, borderRadius: BorderRadius.md,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    justifyContent: 'center', alignItems: 'center',
+  },
+  keypadKeyOk: { backgroundColor: Colors.primary },
+  keypadKeyText: { color: Colors.text, fontSize: 22, fontWeight: '700' },
+
   osdContainer: { position: 'absolute' },
   osdBanner: {
     flexDirection: 'row', alignItems: 'center',
@@ -741,6 +1419,34 @@ const styles = StyleSheet.create({
   osdNextTitle: { color: Colors.textMuted, fontSize: 11, flex: 1 },
   osdNextTime: { color: Colors.textMuted, fontSize: 11 },
   osdNoEpg: { color: Colors.textMuted, fontSize: 12 },
+  archiveBadge: {
+    backgroundColor: Colors.primary + '33', borderRadius: BorderRadius.sm,
+    paddingHorizontal: 6, paddingVertical: 2,
+  },
+  archiveBadgeText: { color: Colors.primaryLight, fontSize: 10, fontWeight: '700' },
+  seekTrack: { paddingVertical: 6 },
+  playbackControls: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  playbackButton: { padding: 6, borderRadius: BorderRadius.full, backgroundColor: 'rgba(255,255,255,0.1)' },
+  goLiveButton: {
+    flexDirection: 'row', alignItems: 'center', gap: 5,
+    backgroundColor: Colors.live + '33', borderRadius: BorderRadius.full,
+    paddingHorizontal: 10, paddingVertical: 6,
+  },
+  goLiveDot: { width: 6, height: 6, borderRadius: 3, backgroundColor: Colors.live },
+  goLiveText: { color: Colors.text, fontSize: 11, fontWeight: '700' },
+  playbackButtonDisabled: { opacity: 0.4 },
+  recButton: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    backgroundColor: Colors.live + '33', borderRadius: BorderRadius.full,
+    paddingHorizontal: 10, paddingVertical: 6,
+  },
+  timeshiftBadge: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    backgroundColor: Colors.live + '33', borderRadius: BorderRadius.xs,
+    paddingHorizontal: 6, paddingVertical: 2,
+  },
+  timeshiftBadgeBehind: { backgroundColor: 'rgba(255,255,255,0.15)' },
+  timeshiftText: { color: Colors.text, fontSize: 11, fontWeight: '700', fontVariant: ['tabular-nums'] },
 
   menuOverlay: {
     ...StyleSheet.absoluteFillObject,
@@ -56,8 +56,8 @@ const allChannels: Channel[] = mapped.map((ch, index) => ({
     channelNumber: index + 1,
 }));
 
-// Registra canais no serviço de EPG (XMLTV match por nome)
-allChannels.forEach(c => registerChannel(c.id, c.name));
+// Registra canais no serviço de EPG (XMLTV match por tvg-id ou nome)
+allChannels.forEach(c => registerChannel(c.id, c.name, c.epgId));
 
 // offiline.json não contém categoria 'Adulto'; mantida API por compatibilidade
 export const channels: Channel[] = allChannels.filter(ch => ch.category !== 'Adulto');
@@ -0,0 +1,190 @@
+const { withDangerousMod, withMainApplication } = require('@expo/config-plugins');
+const { mkdirSync, writeFileSync } = require('fs');
+const { resolve } = require('path');
+
+/**
+ * Plugin que gera o servidor local de licenças ClearKey (http://127.0.0.1:8765) usado por
+ * services/drmConfig.ts e o inicia no MainApplication.
+ *
+ * O react-native-video só aceita uma URL de licença no Android, então as chaves inline do canal
+ * vão na própria URL (`?keys=<JWK set em base64url>`). Sem `keys`, o servidor usa o asset
+ * opcional `clearkey_keys.json` ({ "keys": [{ "kid": "<hex>", "key": "<hex>" }] }).
+ */
+function serverSource(pkg) {
+  return `package ${pkg}
+
+import android.content.Context
+import android.util.Base64
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+import java.io.InputStream
+import java.net.InetAddress
+import java.net.ServerSocket
+import java.net.Socket
+import java.net.URLDecoder
+
+object ClearKeyServer {
+    private const val TAG = "ClearKeyServer"
+    private const val PORT = 8765
+    private const val B64 = Base64.URL_SAFE or Base64.NO_PADDING or Base64.NO_WRAP
+
+    @Volatile private var started = false
+    // kid (base64url) -> key (base64url)
+    private val bundledKeys = HashMap<String, String>()
+
+    fun start(context: Context) {
+        if (started) return
+        started = true
+        loadBundledKeys(context)
+        Thread({ serve() }, TAG).apply { isDaemon = true }.start()
+    }
+
+    private fun loadBundledKeys(context: Context) {
+        try {
+            val text = context.assets.open("clearkey_keys.json").bufferedReader().use { it.readText() }
+            val keys = JSONObject(text).getJSONArray("keys")
+            for (i in 0 until keys.length()) {
+                val entry = keys.getJSONObject(i)
+                bundledKeys[hexToB64(entry.getString("kid"))] = hexToB64(entry.getString("key"))
+            }
+        } catch (e: Exception) {
+            Log.i(TAG, "No bundled keys: \${e.message}")
+        }
+    }
+
+    private fun serve() {
+        try {
+            ServerSocket(PORT, 16, InetAddress.getByName("127.0.0.1")).use { server ->
+                while (true) {
+                    val socket = server.accept()
+                    Thread { handle(socket) }.apply { isDaemon = true }.start()
+                }
+            }
+        } catch (e: Exception) {
+            Log.e(TAG, "Server stopped", e)
+            started = false
+        }
+    }
+
+    private fun handle(socket: Socket) {
+        socket.use {
+            try {
+                val input = it.getInputStream()
+                val requestLine = readLine(input)
+                var contentLength = 0
+                while (true) {
+                    val header = readLine(input)
+                    if (header.isEmpty()) break
+                    val sep = header.indexOf(':')
+                    if (sep > 0 && header.substring(0, sep).trim().equals("Content-Length", ignoreCase = true)) {
+                        contentLength = header.substring(sep + 1).trim().toIntOrNull() ?: 0
+                    }
+                }
+                val body = ByteArray(contentLength)
+                var read = 0
+                while (read < contentLength) {
+                    val n = input.read(body, read, contentLength - read)
+                    if (n < 0) break
+                    read += n
+                }
+
+                val path = requestLine.split(" ").getOrNull(1) ?: "/"
+                val response = license(inlineKeys(path), String(body, Charsets.UTF_8))
+                val bytes = response.toByteArray(Charsets.UTF_8)
+                val out = it.getOutputStream()
+                out.write(
+                    ("HTTP/1.1 200 OK\\r\\nContent-Type: application/json\\r\\n" +
+                        "Content-Length: \${bytes.size}\\r\\nConnection: close\\r\\n\\r\\n").toByteArray(Charsets.US_ASCII)
+                )
+                out.write(bytes)
+                out.flush()
+            } catch (e: Exception) {
+                Log.w(TAG, "Request failed", e)
+            }
+        }
+    }
+
+    /** Chaves do parâmetro \`keys\` (JWK set em base64url), ou null se a URL não trouxer */
+    private fun inlineKeys(path: String): Map<String, String>? {
+        val query = path.substringAfter('?', "")
+        val param = query.split('&').firstOrNull { it.startsWith("keys=") } ?: return null
+        val encoded = URLDecoder.decode(param.removePrefix("keys="), "UTF-8")
+        val json = JSONObject(String(Base64.decode(encoded, B64), Charsets.UTF_8))
+        val keys = json.getJSONArray("keys")
+        val map = HashMap<String, String>()
+        for (i in 0 until keys.length()) {
+            val jwk = keys.getJSONObject(i)
+            map[jwk.getString("kid")] = jwk.getString("k")
+        }
+        return map
+    }
+
+    /** Resposta de licença ClearKey para os KIDs pedidos ({ "kids": [...] }) */
+    private fun license(inline: Map<String, String>?, request: String): String {
+        val source = inline ?: bundledKeys
+        val kids = try {
+            JSONObject(request).optJSONArray("kids") ?: JSONArray()
+        } catch (e: Exception) {
+            JSONArray()
+        }
+        val keys = JSONArray()
+        val requested = (0 until kids.length()).map { kids.getString(it) }
+        // Sem KIDs legíveis na requisição, devolve todas as chaves do canal
+        val wanted = if (requested.isEmpty()) source.keys.toList() else requested
+        for (kid in wanted) {
+            val key = source[kid] ?: continue
+            keys.put(JSONObject().put("kty", "oct").put("kid", kid).put("k", key))
+        }
+        if (keys.length() == 0) Log.w(TAG, "No key for kids \$requested")
+        return JSONObject().put("keys", keys).put("type", "temporary").toString()
+    }
+
+    private fun hexToB64(hex: String): String {
+        val clean = hex.replace("-", "")
+        val bytes = ByteArray(clean.length / 2) { i -> clean.substring(i * 2, i * 2 + 2).toInt(16).toByte() }
+        return Base64.encodeToString(bytes, B64)
+    }
+
+    private fun readLine(input: InputStream): String {
+        val sb = StringBuilder()
+        while (true) {
+            val c = input.read()
+            if (c < 0 || c == '\\n'.code) break
+            if (c != '\\r'.code) sb.append(c.toChar())
+        }
+        return sb.toString()
+    }
+}
+`;
+}
+
+module.exports = function withClearKeyServer(config) {
+  const pkg = config.android?.package;
+  if (!pkg) throw new Error('withClearKeyServer: android.package não definido');
+
+  config = withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const dir = resolve(
+        config.modRequest.platformProjectRoot,
+        'app/src/main/java',
+        ...pkg.split('.')
+      );
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(resolve(dir, 'ClearKeyServer.kt'), serverSource(pkg), 'utf-8');
+      return config;
+    },
+  ]);
+
+  return withMainApplication(config, (config) => {
+    const src = config.modResults.contents;
+    if (!src.includes('ClearKeyServer.start(this)')) {
+      config.modResults.contents = src.replace(
+        /super\.onCreate\(\)/,
+        'super.onCreate()\n    ClearKeyServer.start(this)'
+      );
+    }
+    return config;
+  });
+};
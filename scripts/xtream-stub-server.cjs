@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+/**
+ * Servidor Xtream Codes falso para testar o provedor Xtream localmente
+ *
+ * COMO USAR:
+ * 1. Execute: node scripts/xtream-stub-server.cjs [porta]   (padrão 8089)
+ * 2. No app, em Ajustes → Contas Xtream Codes, use:
+ *    servidor http://<ip-da-maquina>:8089, usuário "teste", senha "teste"
+ *
+ * O servidor responde player_api.php (login, categorias, ao vivo, filmes,
+ * séries e get_series_info/get_vod_info) e serve uma playlist HLS mínima
+ * para /live, /movie e /series.
+ */
+
+const http = require('http');
+
+const PORT = Number(process.argv[2]) || 8089;
+const USER = 'teste';
+const PASS = 'teste';
+
+const liveCategories = [
+    { category_id: '1', category_name: 'Notícias', parent_id: 0 },
+    { category_id: '2', category_name: 'Esportes', parent_id: 0 },
+];
+
+const liveStreams = [
+    { num: 1, name: 'Canal Notícias HD', stream_id: 101, stream_icon: '', epg_channel_id: 'noticias.br', category_id: '1' },
+    { num: 2, name: 'Canal Esportes FHD', stream_id: 102, stream_icon: '', epg_channel_id: 'esportes.br', category_id: '2' },
+    { num: 3, name: 'Esportes 2 HD', stream_id: 103, stream_icon: '', epg_channel_id: null, category_id: '2' },
+];
+
+const vodCategories = [{ category_id: '10', category_name: 'Ação', parent_id: 0 }];
+
+const vodStreams = [
+    { stream_id: 201, name: 'Filme de Teste (2023)', stream_icon: '', rating: '7.5', category_id: '10', container_extension: 'mp4' },
+    { stream_id: 202, name: 'Outro Filme (2021)', stream_icon: '', rating: '6.1', category_id: '10', container_extension: 'mkv' },
+];
+
+const seriesCategories = [{ category_id: '20', category_name: 'Drama', parent_id: 0 }];
+
+const series = [
+    { series_id: 301, name: 'Série de Teste', cover: '', plot: 'Uma série para testes.', genre: 'Drama', releaseDate: '2022-03-01', rating: '8', category_id: '20' },
+];
+
+const seriesInfo = {
+    301: {
+        info: series[0],
+        episodes: {
+            1: [
+                { id: '3011', episode_num: 1, title: 'Piloto', container_extension: 'mp4', info: {} },
+                { id: '3012', episode_num: 2, title: 'Segundo', container_extension: 'mp4', info: {} },
+            ],
+            2: [
+                { id: '3021', episode_num: 1, title: 'Volta', container_extension: 'mp4', info: {} },
+            ],
+        },
+    },
+};
+
+const HLS_PLAYLIST = '#EXTM3U\n#EXT-X-VERSION:3\n#EXT-X-TARGETDURATION:10\n#EXT-X-MEDIA-SEQUENCE:0\n';
+
+function json(res, data) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+function handleApi(url, res) {
+    const q = url.searchParams;
+    if (q.get('username') !== USER || q.get('password') !== PASS) {
+        return json(res, { user_info: { auth: 0 } });
+    }
+    switch (q.get('action')) {
+        case null:
+            return json(res, {
+                user_info: {
+                    username: USER, auth: 1, status: 'Active',
+                    exp_date: String(Math.floor(Date.now() / 1000) + 30 * 86400),
+                    active_cons: '0', max_connections: '1',
+                },
+                server_info: { url: 'localhost', port: String(PORT), server_protocol: 'http' },
+            });
+        case 'get_live_categories': return json(res, liveCategories);
+        case 'get_live_streams': return json(res, liveStreams);
+        case 'get_vod_categories': return json(res, vodCategories);
+        case 'get_vod_streams': return json(res, vodStreams);
+        case 'get_series_categories': return json(res, seriesCategories);
+        case 'get_series': return json(res, series);
+        case 'get_series_info': return json(res, seriesInfo[q.get('series_id')] || { info: null, episodes: {} });
+        case 'get_vod_info': {
+            const movie = vodStreams.find(v => String(v.stream_id) === q.get('vod_id'));
+            return json(res, movie
+                ? { info: { plot: 'Sinopse de teste.', genre: 'Ação', releasedate: '2023-05-10', duration_secs: 5400 }, movie_data: movie }
+                : { info: [], movie_data: null });
+        }
+        default:
+            return json(res, []);
+    }
+}
+
+http.createServer((req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    console.log(`${req.method} ${url.pathname}${url.search}`);
+    if (url.pathname === '/player_api.php') return handleApi(url, res);
+    if (/^\/(live|movie|series)\//.test(url.pathname)) {
+        res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl' });
+        return res.end(HLS_PLAYLIST);
+    }
+    res.writeHead(404);
+    res.end();
+}).listen(PORT, () => {
+    console.log(`🛰️  Xtream stub em http://localhost:${PORT} (usuário: ${USER} / senha: ${PASS})`);
+});
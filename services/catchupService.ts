@@ -0,0 +1,178 @@
+// Catch-up (arquivo do canal): leitura dos atributos da playlist e montagem da URL de um programa passado
+import type { Channel, ChannelCatchup, ChannelStream, CatchupMode, Program } from '../types';
+import { getChannelStreams } from '../stores/streamStore';
+
+// O guia guarda no máximo esse passado — arquivos maiores não têm o que mostrar
+export const MAX_CATCHUP_DAYS = 7;
+// Quando a playlist liga o catch-up sem dizer por quantos dias
+const DEFAULT_CATCHUP_DAYS = 5;
+
+const MODE_ALIASES: Record<string, CatchupMode> = {
+    default: 'default',
+    append: 'append',
+    shift: 'shift',
+    timeshift: 'shift',
+    flussonic: 'flussonic',
+    'flussonic-hls': 'flussonic',
+    'flussonic-ts': 'flussonic',
+    fs: 'flussonic',
+    xc: 'xc',
+};
+
+/** Programa do arquivo em reprodução (horários em ms) */
+export interface CatchupSession {
+    title: string;
+    start: number;
+    end: number;
+}
+
+// ─── Playlist ───────────────────────────────────────────────────────────────
+
+/**
+ * Catch-up de uma entrada M3U (`catchup`, `catchup-source`, `catchup-days`, `tvg-rec`).
+ * `defaults` são os mesmos atributos do cabeçalho #EXTM3U, que valem para a lista toda.
+ */
+export function parseM3uCatchup(
+    attrs: Record<string, string>,
+    defaults: Record<string, string> = {},
+): ChannelCatchup | undefined {
+    const pick = (...keys: string[]) => {
+        for (const k of keys) if (attrs[k]) return attrs[k];
+        for (const k of keys) if (defaults[k]) return defaults[k];
+        return '';
+    };
+    const rawMode = pick('catchup', 'catchup-type').toLowerCase();
+    const source = pick('catchup-source') || undefined;
+    let mode: CatchupMode | undefined = MODE_ALIASES[rawMode];
+    if (!mode && !rawMode && source) mode = /^https?:\/\//i.test(source) ? 'default' : 'append';
+    if (!mode) return undefined;
+    if ((mode === 'default' || mode === 'append') && !source) return undefined;
+
+    const days = parseInt(pick('catchup-days', 'tvg-rec', 'timeshift'), 10);
+    return {
+        mode,
+        source,
+        days: Math.min(MAX_CATCHUP_DAYS, Number.isFinite(days) && days > 0 ? days : DEFAULT_CATCHUP_DAYS),
+    };
+}
+
+// ─── Disponibilidade ────────────────────────────────────────────────────────
+
+/** Catch-up efetivo de um stream: o próprio (canal mesclado) ou o do canal */
+export function getStreamCatchup(channel: Channel, stream: ChannelStream): ChannelCatchup | undefined {
+    return stream.catchup === undefined ? channel.catchup : (stream.catchup ?? undefined);
+}
+
+/** Primeiro stream do canal com arquivo, de preferência o indicado */
+export function catchupStream(channel: Channel, preferred?: ChannelStream): ChannelStream | null {
+    if (preferred && getStreamCatchup(channel, preferred)) return preferred;
+    return getChannelStreams(channel).find(s => getStreamCatchup(channel, s)) ?? null;
+}
+
+export function hasCatchup(channel: Channel): boolean {
+    return catchupStream(channel) !== null;
+}
+
+/** Programa já começou e ainda está dentro da janela do arquivo */
+export function canCatchup(channel: Channel, program: Program, now = Date.now()): boolean {
+    const start = program.startTime.getTime();
+    if (start >= now) return false;
+    const stream = catchupStream(channel);
+    if (!stream) return false;
+    const days = getStreamCatchup(channel, stream)!.days;
+    return start >= now - days * 86400000;
+}
+
+// ─── URL ────────────────────────────────────────────────────────────────────
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Y m d H M S no horário local ou em UTC */
+function formatDate(d: Date, fmt: string, utc: boolean): string {
+    const parts: Record<string, string> = utc
+        ? {
+            Y: String(d.getUTCFullYear()), m: pad(d.getUTCMonth() + 1), d: pad(d.getUTCDate()),
+            H: pad(d.getUTCHours()), M: pad(d.getUTCMinutes()), S: pad(d.getUTCSeconds()),
+        }
+        : {
+            Y: String(d.getFullYear()), m: pad(d.getMonth() + 1), d: pad(d.getDate()),
+            H: pad(d.getHours()), M: pad(d.getMinutes()), S: pad(d.getSeconds()),
+        };
+    return fmt.replace(/[YmdHMS]/g, c => parts[c]);
+}
+
+/** Troca {utc}, {utcend}, {lutc}, {duration[:N]}, {offset[:N]}, {Y}… e {utc:Ymd-HM} (também na forma ${…}) */
+function fillTemplate(template: string, start: Date, end: Date, now: number): string {
+    const utc = Math.floor(start.getTime() / 1000);
+    const utcEnd = Math.floor(end.getTime() / 1000);
+    const lutc = Math.floor(now / 1000);
+    return template.replace(/\$?\{(\w+)(?::([^}]+))?\}/g, (match, name: string, arg?: string) => {
+        const numeric = !!arg && /^\d+$/.test(arg);
+        const divisor = numeric ? parseInt(arg!, 10) || 1 : 1;
+        const format = arg && !numeric ? arg : null;
+        switch (name) {
+            case 'utc':
+            case 'start':
+                return format ? formatDate(start, format, true) : String(utc);
+            case 'utcend':
+            case 'end':
+                return format ? formatDate(end, format, true) : String(utcEnd);
+            case 'lutc':
+            case 'now':
+            case 'timestamp':
+                return String(lutc);
+            case 'duration':
+                return String(Math.floor((utcEnd - utc) / divisor));
+            case 'offset':
+                return String(Math.floor((lutc - utc) / divisor));
+            case 'Y': case 'm': case 'd': case 'H': case 'M': case 'S':
+                return formatDate(start, name, false);
+            default:
+                return match;
+        }
+    });
+}
+
+// index.m3u8 → index-{utc}-{duration}.m3u8; /mpegts → /timeshift_abs-{utc}.ts
+function flussonicTemplate(url: string): string | null {
+    const hls = url.replace(/\/(index|video|mono)\.m3u8(\?|$)/, '/$1-{utc}-{duration}.m3u8$2');
+    if (hls !== url) return hls;
+    const ts = url.replace(/\/mpegts(\?|$)/, '/timeshift_abs-{utc}.ts$1');
+    return ts !== url ? ts : null;
+}
+
+// http://host/live/user/pass/123.m3u8 → http://host/timeshift/user/pass/{min}/{Y}-{m}-{d}:{H}-{M}/123.ts
+function xcTemplate(url: string): string | null {
+    const m = url.match(/^(https?:\/\/[^/]+)\/(?:live\/)?([^/]+)\/([^/]+)\/(\d+)(?:\.\w+)?(?:\?.*)?$/);
+    if (!m) return null;
+    return `${m[1]}/timeshift/${m[2]}/${m[3]}/{duration:60}/{Y}-{m}-{d}:{H}-{M}/${m[4]}.ts`;
+}
+
+/** URL do arquivo entre `start` e `end`; null se o modo não se aplica a essa URL */
+export function buildCatchupUrl(
+    streamUrl: string,
+    catchup: ChannelCatchup,
+    start: Date,
+    end: Date,
+    now = Date.now(),
+): string | null {
+    let template: string | null;
+    switch (catchup.mode) {
+        case 'default':
+            template = catchup.source ?? null;
+            break;
+        case 'append':
+            template = catchup.source ? streamUrl + catchup.source : null;
+            break;
+        case 'shift':
+            template = `${streamUrl}${streamUrl.includes('?') ? '&' : '?'}utc={utc}&lutc={lutc}`;
+            break;
+        case 'flussonic':
+            template = flussonicTemplate(streamUrl);
+            break;
+        case 'xc':
+            template = xcTemplate(streamUrl);
+            break;
+    }
+    return template ? fillTemplate(template, start, end, now) : null;
+}
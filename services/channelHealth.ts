@@ -0,0 +1,169 @@
+// Verificação de saúde dos canais — testa manifesto, DRM e tempo de resposta
+import type { Channel, ChannelStream } from '../types';
+import { getChannelStreams, getStreamDrm } from '../stores/streamStore';
+
+export type HealthStatus = 'ok' | 'slow' | 'dead';
+
+export interface ChannelHealth {
+    status: HealthStatus;
+    checkedAt: number;
+    responseMs?: number;
+    httpStatus?: number;
+    manifest?: 'hls' | 'dash' | 'other';
+    drm: boolean;
+    /** Maior altura de vídeo declarada no manifesto (RESOLUTION / height) */
+    height?: number;
+    /** Stream que respondeu (pode ser um alternativo quando o principal está fora) */
+    streamUrl?: string;
+    error?: string;
+}
+
+export interface HealthCheckOptions {
+    /** Probes simultâneos */
+    concurrency?: number;
+    /** Intervalo mínimo entre o início de dois probes (ms) */
+    intervalMs?: number;
+    onResult?: (channelId: string, health: ChannelHealth) => void;
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface HealthCheckHandle {
+    cancel: () => void;
+    done: Promise<void>;
+}
+
+const PROBE_TIMEOUT_MS = 10000;
+const SLOW_THRESHOLD_MS = 3000;
+
+function detectManifest(url: string, contentType: string): ChannelHealth['manifest'] {
+    const ct = contentType.toLowerCase();
+    if (ct.includes('mpegurl') || /\.m3u8?(\?|$)/i.test(url)) return 'hls';
+    if (ct.includes('dash') || /\.mpd(\?|$)/i.test(url)) return 'dash';
+    return 'other';
+}
+
+function manifestHasDRM(body: string): boolean {
+    return /ContentProtection|#EXT-X-(SESSION-)?KEY:.*METHOD=SAMPLE-AES|KEYFORMAT="(urn:uuid|com\.widevine)/i.test(body);
+}
+
+/** Maior altura de vídeo anunciada no manifesto — HLS master (RESOLUTION=WxH) ou DASH (height/maxHeight) */
+export function manifestMaxHeight(body: string, manifest: ChannelHealth['manifest']): number | undefined {
+    const re = manifest === 'hls'
+        ? /RESOLUTION=\d+x(\d+)/gi
+        : /\b(?:height|maxHeight)="(\d+)"/g;
+    let max = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(body)) !== null) max = Math.max(max, Number(m[1]));
+    return max > 0 ? max : undefined;
+}
+
+/** Testa os streams do canal em ordem até um responder — o canal só está fora se todos estiverem */
+export async function probeChannel(channel: Channel, signal?: AbortSignal): Promise<ChannelHealth> {
+    let first: ChannelHealth | null = null;
+    for (const stream of getChannelStreams(channel)) {
+        const health = await probeStream(channel, stream, signal);
+        if (health.status !== 'dead' || signal?.aborted) return health;
+        first ??= health;
+    }
+    return first!;
+}
+
+async function probeStream(channel: Channel, stream: ChannelStream, signal?: AbortSignal): Promise<ChannelHealth> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const started = Date.now();
+    const base = { checkedAt: started, drm: !!getStreamDrm(channel, stream), streamUrl: stream.url };
+
+    try {
+        const res = await fetch(stream.url, {
+            headers: stream.headers,
+            signal: controller.signal,
+        });
+        const responseMs = Date.now() - started;
+        const manifest = detectManifest(stream.url, res.headers.get('content-type') ?? '');
+        if (!res.ok) {
+            return { ...base, status: 'dead', responseMs, httpStatus: res.status, manifest, error: `HTTP ${res.status}` };
+        }
+
+        let drm = base.drm;
+        let height: number | undefined;
+        if (manifest !== 'other') {
+            // O fetch do RN não lê o corpo em partes — o manifesto vem inteiro (são pequenos)
+            const body = await res.text();
+            const valid = manifest === 'hls' ? body.includes('#EXTM3U') : body.includes('<MPD');
+            if (!valid) {
+                return { ...base, status: 'dead', responseMs, httpStatus: res.status, manifest, error: 'Manifesto inválido' };
+            }
+            drm = drm || manifestHasDRM(body);
+            height = manifestMaxHeight(body, manifest);
+        } else {
+            // Stream contínuo (.ts etc.) — a resposta já basta, não baixa o corpo
+            controller.abort();
+        }
+
+        return {
+            status: responseMs > SLOW_THRESHOLD_MS ? 'slow' : 'ok',
+            checkedAt: started,
+            responseMs,
+            httpStatus: res.status,
+            manifest,
+            drm,
+            height,
+            streamUrl: stream.url,
+        };
+    } catch (e: any) {
+        const timedOut = Date.now() - started >= PROBE_TIMEOUT_MS - 50;
+        return { ...base, status: 'dead', error: timedOut ? 'Tempo esgotado' : (e?.message || 'Falha de rede') };
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Testa uma lista de canais com limite de concorrência e intervalo entre probes.
+ * `cancel()` aborta os probes em andamento e não inicia novos.
+ */
+export function runHealthCheck(channels: Channel[], options: HealthCheckOptions = {}): HealthCheckHandle {
+    const concurrency = options.concurrency ?? 3;
+    const intervalMs = options.intervalMs ?? 250;
+    const controller = new AbortController();
+    const total = channels.length;
+    let next = 0;
+    let done = 0;
+    let lastStart = 0;
+
+    const wait = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
+
+    const worker = async () => {
+        while (!controller.signal.aborted && next < total) {
+            // Rate limit global: respeita o intervalo desde o último probe iniciado
+            const gap = lastStart + intervalMs - Date.now();
+            if (gap > 0) {
+                lastStart += intervalMs;
+                await wait(gap);
+            } else {
+                lastStart = Date.now();
+            }
+            if (controller.signal.aborted || next >= total) break;
+            const channel = channels[next++];
+            const health = await probeChannel(channel, controller.signal);
+            if (controller.signal.aborted) break;
+            done++;
+            options.onResult?.(channel.id, health);
+            options.onProgress?.(done, total);
+        }
+    };
+
+    const run = async () => {
+        options.onProgress?.(0, total);
+        await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker));
+    };
+
+    return {
+        cancel: () => controller.abort(),
+        done: run(),
+    };
+}
@@ -0,0 +1,125 @@
+// Mescla canais de várias fontes: mesmo canal vira um só com vários streams
+import type { Channel, ChannelStream } from '../types';
+import { getChannelStreams } from '../stores/streamStore';
+
+// Variações de nome de categoria que devem virar uma só
+const CATEGORY_ALIASES: Record<string, string> = {
+    'adulto': 'Adulto',
+    'adultos': 'Adulto',
+    'adult': 'Adulto',
+    'xxx': 'Adulto',
+    '18': 'Adulto',
+};
+
+function slug(s: string): string {
+    return s
+        .normalize('NFD')
+        .replace(/[̀-ͯ]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '');
+}
+
+/** Chave de comparação de categoria (sem acento, caixa e pontuação) */
+export function categoryKey(category: string): string {
+    const key = slug(category);
+    const alias = CATEGORY_ALIASES[key];
+    return alias ? slug(alias) : key;
+}
+
+/** Nome canônico para aliases conhecidos (ex.: ADULTOS → Adulto); demais ficam como estão */
+export function normalizeCategory(category: string): string {
+    return CATEGORY_ALIASES[slug(category)] ?? category.trim();
+}
+
+// ─── Ids de canais mesclados ───
+// Estado do usuário (favoritos, lineup, saúde…) pode ter sido salvo com o id de qualquer fonte;
+// depois da mesclagem o canal só fica com o da primeira, e os outros vão para `aliasIds`.
+
+/** Todos os ids do canal: o próprio e os das fontes mescladas nele */
+export function channelIdsOf(channel: Channel): string[] {
+    return channel.aliasIds?.length ? [channel.id, ...channel.aliasIds] : [channel.id];
+}
+
+/** O canal é o `id` ou absorveu o canal `id` na mesclagem? */
+export function channelMatchesId(channel: Channel, id: string): boolean {
+    return channel.id === id || !!channel.aliasIds?.includes(id);
+}
+
+/** Valor guardado para o canal sob qualquer um dos seus ids (o id principal primeiro) */
+export function lookupByChannel<T>(map: Record<string, T>, channel: Channel): T | undefined {
+    if (map[channel.id] !== undefined || !channel.aliasIds) return map[channel.id];
+    for (const id of channel.aliasIds) {
+        if (map[id] !== undefined) return map[id];
+    }
+    return undefined;
+}
+
+function mergeKey(channel: Channel): string {
+    return slug(channel.name);
+}
+
+// Streams com DRM e catch-up explícitos — depois de mesclado, cada stream leva os da sua fonte
+function explicitStreams(channel: Channel): ChannelStream[] {
+    return getChannelStreams(channel).map(s => ({
+        ...s,
+        drm: s.drm !== undefined ? s.drm : (channel.drm ?? null),
+        catchup: s.catchup !== undefined ? s.catchup : (channel.catchup ?? null),
+    }));
+}
+
+/**
+ * Junta as listas na ordem dada (a primeira fonte ganha id, logo, categoria e DRM).
+ * Canais com o mesmo nome (ou mesmo tvg-id) em fontes diferentes viram um só; os
+ * repetidos dentro da mesma fonte são mantidos como estão. Os streams das outras
+ * fontes entram como alternativos e os ids delas ficam em `aliasIds`.
+ * Categorias iguais com grafia diferente usam a primeira grafia encontrada.
+ */
+export function mergeChannelLists(lists: Channel[][]): Channel[] {
+    const out: Channel[] = [];
+    const byName = new Map<string, Channel>();
+    const byEpgId = new Map<string, Channel>();
+    const categoryLabels = new Map<string, string>();
+    const expanded = new Set<Channel>();
+    // Canal → índice da fonte de onde veio
+    const origin = new Map<Channel, number>();
+
+    lists.forEach((list, listIdx) => {
+        for (const ch of list) {
+            const catKey = categoryKey(ch.category);
+            let category = categoryLabels.get(catKey);
+            if (!category) {
+                category = normalizeCategory(ch.category);
+                categoryLabels.set(catKey, category);
+            }
+
+            const key = mergeKey(ch);
+            const existing = byName.get(key) ?? (ch.epgId ? byEpgId.get(ch.epgId) : undefined);
+            if (!existing || origin.get(existing) === listIdx) {
+                const copy = category === ch.category ? { ...ch } : { ...ch, category };
+                if (!existing) {
+                    byName.set(key, copy);
+                    if (ch.epgId) byEpgId.set(ch.epgId, copy);
+                }
+                origin.set(copy, listIdx);
+                out.push(copy);
+                continue;
+            }
+            if (existing.id === ch.id) continue;
+
+            if (!expanded.has(existing)) {
+                existing.streams = explicitStreams(existing);
+                existing.aliasIds = [...(existing.aliasIds ?? [])];
+                expanded.add(existing);
+            }
+            const urls = new Set(existing.streams!.map(s => s.url));
+            for (const s of explicitStreams(ch)) {
+                if (!urls.has(s.url)) existing.streams!.push(s);
+            }
+            existing.aliasIds!.push(ch.id);
+            if (!existing.logo && ch.logo) existing.logo = ch.logo;
+            if (!existing.epgId && ch.epgId) existing.epgId = ch.epgId;
+            if (!existing.catchup && ch.catchup) existing.catchup = ch.catchup;
+        }
+    });
+    return out;
+}
@@ -0,0 +1,201 @@
+// Normalização de chaves ClearKey — aceita os formatos que as fontes entregam:
+//   kid:key[,kid:key...]            (hex, hex com hífens ou base64url)
+//   {"keys":[{"kty":"oct","kid":"…","k":"…"}]}   (JWK set, opcionalmente em base64url)
+//   {"<kid>":"<key>", ...}           (mapa kid → key, formato Kodi)
+//   https://licenca.exemplo/ck|Header=valor       (servidor de licença remoto)
+import { parseHeaderString } from './m3uParser';
+
+export interface ClearKeyPair {
+    /** KID em hex minúsculo (32 caracteres) */
+    kid: string;
+    /** Chave em hex minúsculo (32 caracteres) */
+    key: string;
+}
+
+export type ClearKeySpec =
+    | { kind: 'keys'; keys: ClearKeyPair[] }
+    | { kind: 'license'; url: string; headers?: Record<string, string> };
+
+/** Chave ClearKey em formato irreconhecível ou com tamanho errado */
+export class ClearKeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ClearKeyError';
+    }
+}
+
+// KID e chave ClearKey têm sempre 128 bits
+const KEY_BYTES = 16;
+
+// ─── Codificação ───
+
+const B64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+function base64UrlToBytes(input: string): Uint8Array | null {
+    const s = input.trim().replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    if (!/^[A-Za-z0-9_-]*$/.test(s) || s.length % 4 === 1) return null;
+    const out: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const c of s) {
+        buffer = (buffer << 6) | B64_ALPHABET.indexOf(c);
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            out.push((buffer >> bits) & 0xff);
+        }
+    }
+    return Uint8Array.from(out);
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+        for (let j = 0; j < chars; j++) out += B64_ALPHABET[(n >> (18 - 6 * j)) & 63];
+    }
+    return out;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return out;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Sem TextDecoder garantido no Hermes — UTF-8 via decodeURIComponent
+function base64UrlToUtf8(input: string): string | null {
+    const bytes = base64UrlToBytes(input);
+    if (!bytes) return null;
+    try {
+        return decodeURIComponent(Array.from(bytes, b => '%' + b.toString(16).padStart(2, '0')).join(''));
+    } catch {
+        return null;
+    }
+}
+
+// ─── Parsing ───
+
+/** Hex (com ou sem hífens de UUID) ou base64/base64url de 16 bytes → hex minúsculo */
+function normalizeKeyValue(value: string, label: 'KID' | 'chave'): string {
+    const v = value.trim();
+    if (!v) throw new ClearKeyError(`ClearKey: ${label} vazio`);
+
+    const hex = v.replace(/-/g, '');
+    if (/^[0-9a-f]+$/i.test(hex) && (hex.length === KEY_BYTES * 2 || v.includes('-'))) {
+        if (hex.length !== KEY_BYTES * 2) {
+            throw new ClearKeyError(`ClearKey: ${label} "${v}" tem ${hex.length / 2} bytes (esperado ${KEY_BYTES})`);
+        }
+        return hex.toLowerCase();
+    }
+
+    const bytes = base64UrlToBytes(v);
+    if (!bytes) {
+        throw new ClearKeyError(`ClearKey: ${label} "${v}" não é hex nem base64`);
+    }
+    if (bytes.length !== KEY_BYTES) {
+        throw new ClearKeyError(`ClearKey: ${label} "${v}" tem ${bytes.length} bytes (esperado ${KEY_BYTES})`);
+    }
+    return bytesToHex(bytes);
+}
+
+function pair(kid: string, key: string): ClearKeyPair {
+    return { kid: normalizeKeyValue(kid, 'KID'), key: normalizeKeyValue(key, 'chave') };
+}
+
+function parseJsonKeys(json: unknown): ClearKeyPair[] {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new ClearKeyError('ClearKey: JSON deve ser um objeto');
+    }
+    const obj = json as Record<string, unknown>;
+    // JWK set
+    if (Array.isArray(obj.keys)) {
+        return obj.keys.map((jwk: any, i: number) => {
+            if (!jwk || typeof jwk.kid !== 'string' || typeof jwk.k !== 'string') {
+                throw new ClearKeyError(`ClearKey: JWK ${i + 1} sem "kid" ou "k"`);
+            }
+            if (jwk.kty && jwk.kty !== 'oct') {
+                throw new ClearKeyError(`ClearKey: JWK ${i + 1} com kty "${jwk.kty}" (esperado "oct")`);
+            }
+            return pair(jwk.kid, jwk.k);
+        });
+    }
+    // Mapa kid → key
+    return Object.entries(obj).map(([kid, key]) => {
+        if (typeof key !== 'string') throw new ClearKeyError(`ClearKey: valor inválido para o KID "${kid}"`);
+        return pair(kid, key);
+    });
+}
+
+function parsePairs(text: string): ClearKeyPair[] {
+    return text
+        .split(/[\s,;]+/)
+        .filter(Boolean)
+        .map((part) => {
+            const sep = part.indexOf(':');
+            if (sep <= 0 || sep === part.length - 1) {
+                throw new ClearKeyError(`ClearKey: "${part}" não está no formato kid:key`);
+            }
+            return pair(part.slice(0, sep), part.slice(sep + 1));
+        });
+}
+
+/**
+ * Interpreta o valor de `drm.clearKey` em qualquer formato suportado.
+ * Lança `ClearKeyError` com uma mensagem descritiva se estiver malformado.
+ */
+export function normalizeClearKey(raw: string): ClearKeySpec {
+    const value = raw.trim();
+    if (!value) throw new ClearKeyError('ClearKey: valor vazio');
+
+    if (/^https?:\/\//i.test(value)) {
+        const [url, headerPart] = value.split('|');
+        const headers = headerPart ? parseHeaderString(headerPart) : {};
+        return { kind: 'license', url, headers: Object.keys(headers).length > 0 ? headers : undefined };
+    }
+
+    let keys: ClearKeyPair[];
+    if (value.startsWith('{')) {
+        let json: unknown;
+        try {
+            json = JSON.parse(value);
+        } catch {
+            throw new ClearKeyError('ClearKey: JSON inválido');
+        }
+        keys = parseJsonKeys(json);
+    } else if (!value.includes(':')) {
+        // Sem "kid:key" — só pode ser um JSON em base64/base64url
+        const decoded = base64UrlToUtf8(value);
+        if (!decoded?.trim().startsWith('{')) {
+            throw new ClearKeyError('ClearKey: formato não reconhecido (use kid:key, JSON ou URL de licença)');
+        }
+        try {
+            keys = parseJsonKeys(JSON.parse(decoded));
+        } catch (e) {
+            if (e instanceof ClearKeyError) throw e;
+            throw new ClearKeyError('ClearKey: JSON em base64 inválido');
+        }
+    } else {
+        keys = parsePairs(value);
+    }
+
+    if (keys.length === 0) throw new ClearKeyError('ClearKey: nenhuma chave encontrada');
+    return { kind: 'keys', keys };
+}
+
+/** Conjunto JWK (formato de resposta de licença ClearKey) codificado em base64url */
+export function encodeJwkSet(keys: ClearKeyPair[]): string {
+    const jwks = keys.map(k => ({
+        kty: 'oct',
+        kid: bytesToBase64Url(hexToBytes(k.kid)),
+        k: bytesToBase64Url(hexToBytes(k.key)),
+    }));
+    // O JSON só contém ASCII (campos base64url), então 1 char = 1 byte
+    const json = JSON.stringify({ keys: jwks, type: 'temporary' });
+    return bytesToBase64Url(Uint8Array.from(json, c => c.charCodeAt(0)));
+}
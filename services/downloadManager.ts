@@ -1,7 +1,8 @@
 import { AppState, type AppStateStatus } from 'react-native';
 import { useDownloadStore } from '../stores/downloadStore';
+import { useStreamStore, getChannelStreams, getStreamDrm } from '../stores/streamStore';
 import { getItemAPI, invalidateItemCache } from './apiService';
-import type { MediaItem, Episode, DownloadItem, DownloadTask } from '../types';
+import type { MediaItem, Episode, Channel, DownloadItem, DownloadTask } from '../types';
 import {
     getDownloadPath,
     getDownloadDir,
@@ -26,6 +27,7 @@ import {
     isNativeDownloaderAvailable,
     checkExistingDownloads,
 } from './nativeDownloader';
+import { HlsRecorder, type RecordingProgress } from './hlsRecorder';
 
 const MAX_CONCURRENT = 3;
 const MAX_RETRIES = 15;
@@ -40,6 +42,9 @@ class DownloadManager {
     // FastDownload handles — primary download strategy (multi-chunk parallel)
     private activeJsDownloads = new Map<string, FastDownload>();
 
+    // Live recordings — they don't take download slots and aren't paused in background
+    private activeRecordings = new Map<string, HlsRecorder>();
+
     // Sync counter — incremented BEFORE async work so _processQueue never
     // double-counts slots during the async gap between enqueue and Map.set().
     private activeCount = 0;
@@ -306,6 +311,66 @@ class DownloadManager {
         if (errors.length > 0) throw new Error(`Falhou: ${errors.join(', ')}`);
     }
 
+    /**
+     * Record a live channel between `start` and `end` (ms, padding included).
+     * Recordings skip the concurrency limit — a live stream can't wait for a free slot.
+     * Returns the task id.
+     */
+    async enqueueRecording(channel: Channel, opts: { title: string; start: number; end: number }): Promise<string> {
+        this.init().catch(() => {});
+        ensurePermission().catch(() => {});
+
+        // Preferred stream unless it has DRM — protected streams can't be recorded
+        const streams = getChannelStreams(channel);
+        const preferred = streams[useStreamStore.getState().getPreferredIndex(channel)] ?? streams[0];
+        const stream = getStreamDrm(channel, preferred) ? streams.find((st) => !getStreamDrm(channel, st)) : preferred;
+        if (!stream) throw new Error('DRM_NOT_SUPPORTED');
+        if (opts.end <= Date.now()) throw new Error('RECORDING_ENDED');
+
+        const store = useDownloadStore.getState();
+        const id = `rec-${Date.now().toString(36)}`;
+        const time = (ms: number) => new Date(ms).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+        const task: DownloadTask = {
+            id,
+            mediaId: id,
+            itemType: 'recording',
+            title: opts.title || channel.name,
+            subtitle: `${channel.name} · ${new Date(opts.start).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })} ${time(opts.start)}–${time(opts.end)}`,
+            posterUrl: channel.logo || undefined,
+            mediaSnapshot: {
+                id: channel.id,
+                name: channel.name,
+                type: 'tv',
+            },
+            recording: {
+                channelId: channel.id,
+                channelName: channel.name,
+                channelLogo: channel.logo || undefined,
+                startTime: opts.start,
+                endTime: opts.end,
+                headers: stream.headers,
+            },
+            status: 'queued',
+            progress: 0,
+            bytesDownloaded: 0,
+            bytesTotal: 0,
+            remoteUrl: stream.url,
+            destPath: getDownloadPath('recording', id),
+            retries: 0,
+            createdAt: Date.now(),
+        };
+
+        store.addTask(task);
+        this.queue.unshift(id);
+        this._processQueue();
+        return id;
+    }
+
+    /** Finish a recording early, keeping what was recorded so far */
+    stopRecording(id: string): void {
+        this.activeRecordings.get(id)?.stop();
+    }
+
     async pause(id: string): Promise<void> {
         const dl = this.activeJsDownloads.get(id);
         if (!dl) {
@@ -341,6 +406,14 @@ class DownloadManager {
         if (!task) return;
         if (task.status === 'downloading' || task.status === 'queued') return;
 
+        // Recordings resume appending to the same file (the missed part is lost)
+        if (task.itemType === 'recording') {
+            store.updateTask(id, { status: 'queued', retries: 0, error: undefined });
+            if (!this.queue.includes(id)) this.queue.push(id);
+            this._processQueue();
+            return;
+        }
+
         // Reset retries and get fresh URL
         store.updateTask(id, { status: 'queued', retries: 0, error: undefined, bytesDownloaded: 0 });
         await deleteFileAtPath(task.destPath);
@@ -409,6 +482,12 @@ class DownloadManager {
             this.activeJsDownloads.delete(id);
         }
 
+        const recorder = this.activeRecordings.get(id);
+        if (recorder) {
+            recorder.abort();
+            this.activeRecordings.delete(id);
+        }
+
         // Remove from queue if it hadn't started yet
         this.queue = this.queue.filter((q) => q !== id);
 
@@ -435,9 +514,7 @@ class DownloadManager {
 
         const item = useDownloadStore.getState().getItem(id);
         if (item) {
-            const dir = item.itemType === 'movie'
-                ? getDownloadDir('movie', item.mediaId)
-                : getDownloadDir('episode', item.mediaId);
+            const dir = getDownloadDir(item.itemType, item.mediaId);
             await deleteFileAtPath(item.localPath);
             try { await deleteDirAtPath(dir); } catch {}
         }
@@ -544,6 +621,13 @@ class DownloadManager {
     // --- Queue processing ---
 
     private _processQueue(): void {
+        // Recordings start right away, outside MAX_CONCURRENT
+        const recordings = this.queue.filter((q) => useDownloadStore.getState().getTask(q)?.itemType === 'recording');
+        if (recordings.length > 0) {
+            this.queue = this.queue.filter((q) => !recordings.includes(q));
+            for (const id of recordings) this._startRecording(id);
+        }
+
         while (this.activeCount < MAX_CONCURRENT && this.queue.length > 0) {
             const id = this.queue.shift()!;
             this.activeCount++;
@@ -683,13 +767,105 @@ class DownloadManager {
         }
     }
 
+    // ----------------------------------------------------------------
+    // Live recording (HLS segments appended to a single .ts file)
+    // ----------------------------------------------------------------
+
+    private async _startRecording(id: string): Promise<void> {
+        if (this.activeRecordings.has(id)) return;
+        const store = useDownloadStore.getState();
+        const task = store.getTask(id);
+        if (!task?.recording) return;
+        const { startTime, endTime, headers, lastSegment } = task.recording;
+
+        // App was closed until after the end — keep whatever was recorded before
+        if (Date.now() >= endTime) {
+            if (await getFileSize(task.destPath) > 0) {
+                await this._onComplete(id, task.destPath);
+            } else {
+                this._failRecording(id, 'O app estava fechado durante a gravação');
+            }
+            return;
+        }
+
+        await ensureDir(task.destPath);
+        const recorder = new HlsRecorder(task.remoteUrl, headers, task.destPath, endTime, {
+            resumeAfter: lastSegment,
+            onProgress: (p) => this._onRecordingProgress(id, p, startTime, endTime),
+        });
+        this.activeRecordings.set(id, recorder);
+        store.updateTask(id, { status: 'downloading', error: undefined });
+        showProgressNotification({ ...task, status: 'downloading' }, true).catch(() => {});
+
+        try {
+            const result = await recorder.start();
+            this.activeRecordings.delete(id);
+            if (result.bytesWritten > 0) {
+                await this._onComplete(id, result.path, Math.round(result.recordedSeconds));
+            } else {
+                this._failRecording(id, 'Nada foi gravado');
+            }
+        } catch (err: any) {
+            this.activeRecordings.delete(id);
+            const msg: string = err?.message ?? 'Erro desconhecido';
+            if (msg === 'aborted') return;
+            console.warn('[DownloadManager] recording failed:', msg);
+            // Live content can't be fetched again — keep the part that was recorded
+            const destPath = useDownloadStore.getState().getTask(id)?.destPath ?? task.destPath;
+            if (!/unsupported/.test(msg) && await getFileSize(destPath) > 0) {
+                await this._onComplete(id, destPath);
+                return;
+            }
+            this._failRecording(id, /encrypted/.test(msg)
+                ? 'Canal protegido não pode ser gravado'
+                : /unsupported/.test(msg)
+                ? 'Só canais HLS podem ser gravados'
+                : msg);
+        }
+    }
+
+    private _onRecordingProgress(id: string, p: RecordingProgress, startTime: number, endTime: number): void {
+        const store = useDownloadStore.getState();
+        const current = store.getTask(id);
+        if (!current?.recording) return;
+        // Path and last segment are always saved, unthrottled — a restart resumes from them
+        const resume: Partial<DownloadTask> = {
+            destPath: p.path,
+            recording: { ...current.recording, lastSegment: p.lastSeq },
+        };
+
+        const now = Date.now();
+        const last = this.lastProgressAt.get(id) ?? 0;
+        if (now - last < PROGRESS_THROTTLE_MS) {
+            store.updateTask(id, resume);
+            return;
+        }
+        this.lastProgressAt.set(id, now);
+
+        store.updateTask(id, {
+            ...resume,
+            progress: Math.min(1, Math.max(0, (now - startTime) / (endTime - startTime))),
+            bytesDownloaded: p.bytesWritten,
+        });
+
+        const task = useDownloadStore.getState().getTask(id);
+        if (task) showProgressNotification(task).catch(() => {});
+    }
+
+    private _failRecording(id: string, error: string): void {
+        const store = useDownloadStore.getState();
+        store.updateTask(id, { status: 'failed', error });
+        const task = store.getTask(id);
+        if (task) showFailedNotification(task, error).catch(() => {});
+    }
+
     // ----------------------------------------------------------------
     // Shared completion / error handlers
     // ----------------------------------------------------------------
 
     private static readonly MIN_VALID_FILE_BYTES = 500 * 1024; // 500 KB
 
-    private async _onComplete(id: string, destPath: string): Promise<void> {
+    private async _onComplete(id: string, destPath: string, duration?: number): Promise<void> {
         const store = useDownloadStore.getState();
         const task = store.getTask(id);
         if (!task) return;
@@ -697,7 +873,8 @@ class DownloadManager {
         const fileSize = await getFileSize(destPath);
 
         // File is suspiciously small — server likely returned an error page.
-        if (fileSize < DownloadManager.MIN_VALID_FILE_BYTES) {
+        // (Recordings are checked by the recorder; a short one is still valid.)
+        if (task.itemType !== 'recording' && fileSize < DownloadManager.MIN_VALID_FILE_BYTES) {
             await deleteFileAtPath(destPath);
             store.updateTask(id, { retries: (task.retries ?? 0) + 1 });
             if ((task.retries ?? 0) + 1 >= MAX_RETRIES) {
@@ -726,10 +903,12 @@ class DownloadManager {
             posterUrl: task.posterUrl,
             localPath: destPath,
             fileSize,
+            duration,
             seriesId: task.seriesId,
             seasonNumber: task.seasonNumber,
             episodeNumber: task.episodeNumber,
             mediaSnapshot: task.mediaSnapshot,
+            recording: task.recording,
             downloadedAt: Date.now(),
         };
 
@@ -874,6 +1053,20 @@ class DownloadManager {
                 // Directory might not exist yet
             }
 
+            // Scan recordings directory
+            try {
+                const recordingsDir = base + 'recordings/';
+                const recordingFolders = await FileSystemLegacy.readDirectoryAsync(recordingsDir);
+                for (const folder of recordingFolders) {
+                    if (!knownMediaIds.has(folder)) {
+                        await deleteDirAtPath(recordingsDir + folder + '/');
+                        cleaned++;
+                    }
+                }
+            } catch {
+                // Directory might not exist yet
+            }
+
             if (cleaned > 0) {
                 console.log(`[DownloadManager] Cleaned ${cleaned} orphan folder(s)`);
             }
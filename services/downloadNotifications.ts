@@ -1,14 +1,17 @@
 import * as Notifications from 'expo-notifications';
 import { Platform, Linking, Alert } from 'react-native';
 import { formatBytes, formatEta, formatSpeed } from './downloadUtils';
-import type { DownloadTask } from '../types';
+import type { DownloadTask, ProgramReminder, ScheduledRecording } from '../types';
 
 const CHANNEL_PROGRESS = 'downloads-progress-v2';
 const CHANNEL_COMPLETE = 'downloads-complete-v2';
 const CHANNEL_FAILED = 'downloads-failed-v2';
+const CHANNEL_REMINDERS = 'program-reminders';
 
 const PREFIX_PROGRESS = 'dl-prog-';
 const PREFIX_DONE = 'dl-done-';
+const PREFIX_REMINDER = 'reminder-';
+const PREFIX_RECORDING = 'recording-';
 
 let initialized = false;
 let permissionGranted = false;
@@ -66,6 +69,16 @@ export async function initNotifications(): Promise<void> {
             lightColor: '#EF4444',
             lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
         });
+
+        await Notifications.setNotificationChannelAsync(CHANNEL_REMINDERS, {
+            name: 'Lembretes de programas',
+            importance: Notifications.AndroidImportance.HIGH,
+            sound: 'default',
+            enableVibrate: true,
+            vibrationPattern: [0, 250, 150, 250],
+            lightColor: '#6366F1',
+            lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        });
     }
 
     await _requestPermission();
@@ -140,6 +153,9 @@ function buildProgressBody(task: DownloadTask): string {
     const parts: string[] = [];
     if (task.bytesTotal > 0) {
         parts.push(`${formatBytes(task.bytesDownloaded)} / ${formatBytes(task.bytesTotal)}`);
+    } else if (task.bytesDownloaded > 0) {
+        // Recordings have no known total
+        parts.push(formatBytes(task.bytesDownloaded));
     }
     if (task.speedBps && task.speedBps > 0) {
         parts.push(formatSpeed(task.speedBps));
@@ -165,7 +181,8 @@ export async function showProgressNotification(task: DownloadTask, force = false
     lastUpdateAt.set(task.id, now);
 
     const pct = Math.round(task.progress * 100);
-    const titleEmoji = task.status === 'paused' ? '⏸' : task.status === 'queued' ? '⏳' : '⬇';
+    const titleEmoji = task.status === 'paused' ? '⏸' : task.status === 'queued' ? '⏳'
+        : task.itemType === 'recording' ? '⏺' : '⬇';
     const subtitle = task.subtitle ? ` · ${task.subtitle}` : '';
 
     const content: Notifications.NotificationContentInput = {
@@ -210,13 +227,14 @@ export async function showCompletedNotification(task: DownloadTask): Promise<voi
     await dismissProgressNotification(task.id);
 
     const subtitle = task.subtitle ? ` · ${task.subtitle}` : '';
-    const sizeStr = task.bytesTotal > 0 ? ` (${formatBytes(task.bytesTotal)})` : '';
+    const size = task.bytesTotal || task.bytesDownloaded;
+    const sizeStr = size > 0 ? ` (${formatBytes(size)})` : '';
 
     try {
         await Notifications.scheduleNotificationAsync({
             identifier: PREFIX_DONE + task.id,
             content: {
-                title: `✅  Download concluído`,
+                title: task.itemType === 'recording' ? `✅  Gravação concluída` : `✅  Download concluído`,
                 body: `${task.title}${subtitle}${sizeStr}\nToque para assistir`,
                 data: {
                     taskId: task.id,
@@ -246,7 +264,7 @@ export async function showFailedNotification(task: DownloadTask, errorMsg: strin
         await Notifications.scheduleNotificationAsync({
             identifier: PREFIX_DONE + task.id + '-fail',
             content: {
-                title: `❌  Falha no download`,
+                title: task.itemType === 'recording' ? `❌  Falha na gravação` : `❌  Falha no download`,
                 body: `${task.title}${subtitle}\n${errorMsg}`,
                 data: { taskId: task.id, type: 'failed' },
                 ...(Platform.OS === 'android' && { color: '#EF4444' }),
@@ -274,3 +292,88 @@ export async function dismissAllDownloadNotifications(): Promise<void> {
     } catch {}
     lastUpdateAt.clear();
 }
+
+// -----------------------------------------------------------------------
+// Program reminders
+// -----------------------------------------------------------------------
+
+/** Agenda o aviso do programa; false se já passou da hora ou sem permissão */
+export async function scheduleReminderNotification(reminder: ProgramReminder): Promise<boolean> {
+    if (!(await ensurePermission())) return false;
+
+    // Se a antecedência já passou, avisa no início do programa
+    let fireAt = reminder.startTime - reminder.leadMinutes * 60000;
+    if (fireAt <= Date.now()) fireAt = reminder.startTime;
+    if (fireAt <= Date.now()) return false;
+
+    const time = new Date(reminder.startTime).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+    const minutesLeft = Math.round((reminder.startTime - fireAt) / 60000);
+
+    try {
+        await Notifications.scheduleNotificationAsync({
+            identifier: PREFIX_REMINDER + reminder.id,
+            content: {
+                title: `🔔  ${reminder.title}`,
+                body: minutesLeft > 0
+                    ? `Começa em ${minutesLeft} min (${time}) no ${reminder.channelName}\nToque para assistir`
+                    : `Começando agora no ${reminder.channelName}\nToque para assistir`,
+                data: { type: 'reminder', channelId: reminder.channelId, reminderId: reminder.id },
+                ...(Platform.OS === 'android' && { color: '#6366F1' }),
+            } as any,
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: fireAt,
+                ...(Platform.OS === 'android' && { channelId: CHANNEL_REMINDERS }),
+            },
+        });
+        return true;
+    } catch (e) {
+        console.warn('[Notifications] reminder fail:', e);
+        return false;
+    }
+}
+
+export async function cancelReminderNotification(reminderId: string): Promise<void> {
+    try {
+        await Notifications.cancelScheduledNotificationAsync(PREFIX_REMINDER + reminderId);
+    } catch {}
+}
+
+// -----------------------------------------------------------------------
+// Scheduled recordings
+// -----------------------------------------------------------------------
+
+/** Avisa quando a gravação agendada começa — se o app estiver fechado, é o toque que a inicia */
+export async function scheduleRecordingNotification(recording: ScheduledRecording): Promise<boolean> {
+    if (!(await ensurePermission())) return false;
+
+    const fireAt = recording.startTime - recording.paddingBefore * 60000;
+    if (fireAt <= Date.now()) return false;
+
+    try {
+        await Notifications.scheduleNotificationAsync({
+            identifier: PREFIX_RECORDING + recording.id,
+            content: {
+                title: `⏺  ${recording.title}`,
+                body: `Gravação começando no ${recording.channelName}\nAbra o app para gravar`,
+                data: { type: 'recording', recordingId: recording.id },
+                ...(Platform.OS === 'android' && { color: '#EF4444' }),
+            } as any,
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: fireAt,
+                ...(Platform.OS === 'android' && { channelId: CHANNEL_REMINDERS }),
+            },
+        });
+        return true;
+    } catch (e) {
+        console.warn('[Notifications] recording fail:', e);
+        return false;
+    }
+}
+
+export async function cancelRecordingNotification(recordingId: string): Promise<void> {
+    try {
+        await Notifications.cancelScheduledNotificationAsync(PREFIX_RECORDING + recordingId);
+    } catch {}
+}
@@ -1,4 +1,5 @@
 import * as FileSystem from 'expo-file-system/legacy';
+import type { DownloadItemType } from '../types';
 
 export function formatBytes(bytes: number, decimals = 1): string {
     if (bytes === 0) return '0 B';
@@ -23,9 +24,10 @@ export function formatSpeed(bps: number): string {
  * Build the local file path for a download.
  * Extracts the real file extension from the remote URL (supports .mkv, .avi, .ts, etc.)
  * so the player can detect the format correctly. Falls back to .mp4 if unknown.
+ * Recordings start as MPEG-TS; the recorder switches a new file to .mp4 for fMP4 streams.
  */
 export function getDownloadPath(
-    type: 'movie' | 'episode',
+    type: DownloadItemType,
     mediaId: string,
     episodeId?: string,
     remoteUrl?: string,
@@ -33,6 +35,7 @@ export function getDownloadPath(
     const ext = extractExtension(remoteUrl);
     const base = (FileSystem.documentDirectory ?? '') + 'saimo_downloads/';
     if (type === 'movie') return `${base}movies/${mediaId}/video${ext}`;
+    if (type === 'recording') return `${base}recordings/${mediaId}/video.ts`;
     return `${base}series/${mediaId}/${episodeId ?? 'ep'}${ext}`;
 }
 
@@ -52,9 +55,10 @@ function extractExtension(url?: string): string {
     }
 }
 
-export function getDownloadDir(type: 'movie' | 'episode', mediaId: string): string {
+export function getDownloadDir(type: DownloadItemType, mediaId: string): string {
     const base = (FileSystem.documentDirectory ?? '') + 'saimo_downloads/';
     if (type === 'movie') return `${base}movies/${mediaId}/`;
+    if (type === 'recording') return `${base}recordings/${mediaId}/`;
     return `${base}series/${mediaId}/`;
 }
 
@@ -0,0 +1,75 @@
+// Configuração de DRM do player (ClearKey via servidor local, Widevine direto)
+import { DRMType, type Drm, type OnVideoErrorData } from 'react-native-video';
+import type { ChannelDRM } from '../types';
+import { encodeJwkSet, normalizeClearKey } from './clearKey';
+
+// Servidor nativo de licenças ClearKey, gerado por plugins/withClearKeyServer.js
+export const CLEARKEY_LICENSE_SERVER = 'http://127.0.0.1:8765';
+
+/**
+ * Monta o `drm` do <Video>. ClearKey tem prioridade; Widevine quando é só o que o canal tem.
+ * Lança `ClearKeyError` se as chaves ClearKey do canal estiverem malformadas.
+ */
+export function buildDrmConfig(drm?: ChannelDRM): Drm | undefined {
+    if (!drm) return undefined;
+    if (drm.clearKey) {
+        const spec = normalizeClearKey(drm.clearKey);
+        if (spec.kind === 'license') {
+            return {
+                type: DRMType.CLEARKEY,
+                licenseServer: spec.url,
+                headers: spec.headers,
+            };
+        }
+        // O player só aceita URL de licença — as chaves inline vão nela e o servidor local responde com elas
+        return {
+            type: DRMType.CLEARKEY,
+            licenseServer: `${CLEARKEY_LICENSE_SERVER}/?keys=${encodeJwkSet(spec.keys)}`,
+        };
+    }
+    if (drm.widevine) {
+        return {
+            type: DRMType.WIDEVINE,
+            licenseServer: drm.widevine,
+            headers: drm.licenseHeaders,
+        };
+    }
+    return undefined;
+}
+
+function errorText(e: OnVideoErrorData | undefined): string {
+    const err = e?.error;
+    if (!err) return '';
+    return [err.errorString, err.errorException, err.error, err.localizedDescription, err.localizedFailureReason]
+        .filter(Boolean)
+        .join(' ');
+}
+
+/** O erro do player veio da negociação de DRM/licença? */
+export function isDrmError(e: OnVideoErrorData | undefined): boolean {
+    return /DRM|LICENSE|Widevine|MediaDrm|KeySystem/i.test(errorText(e));
+}
+
+/** Mensagem amigável para falhas de licença. Retorna null se o erro não é de DRM. */
+export function describeDrmError(e: OnVideoErrorData | undefined): string | null {
+    if (!isDrmError(e)) return null;
+    const text = errorText(e);
+    const status = text.match(/Response code:\s*(\d{3})/i)?.[1];
+
+    if (status === '401' || status === '403') {
+        return `O servidor de licença recusou o acesso (HTTP ${status}). O token do canal pode ter expirado.`;
+    }
+    if (status) {
+        return `O servidor de licença respondeu com erro (HTTP ${status}).`;
+    }
+    if (/PROVISIONING/i.test(text)) {
+        return 'Não foi possível provisionar o Widevine neste aparelho.';
+    }
+    if (/DEVICE_REVOKED|DISALLOWED|UNSUPPORTED_SCHEME|not supported/i.test(text)) {
+        return 'Este aparelho não suporta o DRM exigido pelo canal.';
+    }
+    if (/LICENSE_ACQUISITION/i.test(text)) {
+        return 'Não foi possível obter a licença do canal. Verifique sua conexão.';
+    }
+    return 'Falha ao desbloquear o conteúdo protegido (DRM).';
+}
@@ -0,0 +1,174 @@
+// Cache do EPG já processado — um arquivo por canal e por dia, lido sob demanda
+import { Paths, File as FSFile, Directory } from 'expo-file-system';
+import type { Program } from '../types';
+import type { XmltvChannelRef, EpgMatchMethod } from './epgMatcher';
+
+// Sobe quando o formato dos arquivos ou a regra de casamento de nomes muda (cache antigo é descartado)
+const PARSED_CACHE_VERSION = 5;
+
+export interface ParsedEpgChannel {
+    name: string;
+    /** Escolha manual ou id de EPG da fonte usados no casamento */
+    pin: string;
+    xmlId: string | null;
+    method: EpgMatchMethod;
+}
+
+export interface ParsedEpgIndex {
+    version: number;
+    /** Fontes XMLTV (e data de cada arquivo) que geraram este cache */
+    source: string;
+    /** appId → nome registrado e canal do XML correspondente */
+    channels: Record<string, ParsedEpgChannel>;
+    /** Canais do XML, para a escolha manual sem reler o arquivo */
+    xmlChannels: XmltvChannelRef[];
+    /** xmlId → pasta no disco e dias (AAAAMMDD) com programação */
+    guide: Record<string, { dir: string; days: string[] }>;
+}
+
+/** Metadados opcionais do XMLTV — só gravados quando o programa tem algum */
+type ProgramExtras = Pick<Program, 'categories' | 'rating' | 'thumbnail' | 'year' | 'credits' | 'isNew' | 'isRerun' | 'episodeInfo'>;
+
+// [início, fim, título, descrição, categoria, extras?]
+type CompactProgram = [number, number, string, string, string, ProgramExtras?];
+
+function programExtras(p: Program): ProgramExtras | null {
+    const extras: ProgramExtras = {
+        categories: p.categories,
+        rating: p.rating,
+        thumbnail: p.thumbnail,
+        year: p.year,
+        credits: p.credits,
+        isNew: p.isNew,
+        isRerun: p.isRerun,
+        episodeInfo: p.episodeInfo,
+    };
+    // JSON.stringify já descarta os undefined; basta saber se sobrou algum
+    return Object.values(extras).some(v => v !== undefined) ? extras : null;
+}
+
+const yieldNow = () => new Promise<void>(r => setTimeout(r, 0));
+
+function getParsedDir(): Directory {
+    const dir = new Directory(Paths.document, 'epg_parsed');
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    return dir;
+}
+
+/** Dia local no formato AAAAMMDD */
+export function dayKey(d: Date): string {
+    return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function loadParsedIndex(): ParsedEpgIndex | null {
+    try {
+        const file = new FSFile(getParsedDir(), 'index.json');
+        if (!file.exists) return null;
+        const index = JSON.parse(file.textSync()) as ParsedEpgIndex;
+        return index.version === PARSED_CACHE_VERSION ? index : null;
+    } catch (e) {
+        console.warn('[EPG] Parsed cache unreadable:', e);
+        return null;
+    }
+}
+
+/**
+ * O cache serve enquanto for das mesmas fontes e conhecer todos os canais registrados
+ * com o mesmo nome e a mesma escolha. Canais ainda não registrados (fontes carregando) não invalidam.
+ */
+export function isParsedIndexValid(
+    index: ParsedEpgIndex,
+    source: string,
+    registered: Map<string, Pick<ParsedEpgChannel, 'name' | 'pin'>>,
+): boolean {
+    if (index.source !== source) return false;
+    for (const [appId, { name, pin }] of registered) {
+        const known = index.channels[appId];
+        if (known?.name !== name || known.pin !== pin) return false;
+    }
+    return true;
+}
+
+/** Programação de um canal a partir de `fromDay` (dias anteriores ficam no disco) */
+export function readParsedChannel(index: ParsedEpgIndex, xmlId: string, fromDay: string): Program[] {
+    const entry = index.guide[xmlId];
+    if (!entry) return [];
+    const programs: Program[] = [];
+    try {
+        const dir = new Directory(getParsedDir(), entry.dir);
+        for (const day of entry.days) {
+            if (day < fromDay) continue;
+            const file = new FSFile(dir, `${day}.json`);
+            if (!file.exists) continue;
+            const rows = JSON.parse(file.textSync()) as CompactProgram[];
+            for (const [start, end, title, description, category, extras] of rows) {
+                programs.push({
+                    ...extras,
+                    id: `${xmlId}-${start}`,
+                    title,
+                    description,
+                    category,
+                    startTime: new Date(start),
+                    endTime: new Date(end),
+                });
+            }
+        }
+    } catch (e) {
+        console.warn('[EPG] Parsed cache read failed:', xmlId, e);
+    }
+    return programs;
+}
+
+/** Regrava o cache inteiro; o índice é escrito por último e marca o cache como completo */
+export async function writeParsedGuide(
+    source: string,
+    channels: Record<string, ParsedEpgChannel>,
+    xmlChannels: XmltvChannelRef[],
+    programs: Map<string, Program[]>,
+): Promise<ParsedEpgIndex> {
+    clearParsedGuide();
+    const root = getParsedDir();
+    const guide: ParsedEpgIndex['guide'] = {};
+    let n = 0;
+
+    for (const [xmlId, list] of programs) {
+        if (list.length === 0) continue;
+        const byDay = new Map<string, CompactProgram[]>();
+        for (const p of list) {
+            const key = dayKey(p.startTime);
+            let rows = byDay.get(key);
+            if (!rows) { rows = []; byDay.set(key, rows); }
+            const row: CompactProgram = [p.startTime.getTime(), p.endTime.getTime(), p.title, p.description ?? '', p.category ?? ''];
+            const extras = programExtras(p);
+            if (extras) row.push(extras);
+            rows.push(row);
+        }
+        // Nome de pasta curto e seguro — ids do XMLTV têm pontos, espaços, etc.
+        const dirName = `c${n++}`;
+        const dir = new Directory(root, dirName);
+        dir.create({ intermediates: true, idempotent: true });
+        for (const [day, rows] of byDay) {
+            const file = new FSFile(dir, `${day}.json`);
+            file.create({ overwrite: true });
+            file.write(JSON.stringify(rows));
+        }
+        guide[xmlId] = { dir: dirName, days: Array.from(byDay.keys()).sort() };
+        if (n % 20 === 0) await yieldNow();
+    }
+
+    const index: ParsedEpgIndex = { version: PARSED_CACHE_VERSION, source, channels, xmlChannels, guide };
+    const indexFile = new FSFile(root, 'index.json');
+    indexFile.create({ overwrite: true });
+    indexFile.write(JSON.stringify(index));
+    console.log(`[EPG] Parsed cache written: ${n} channels`);
+    return index;
+}
+
+export function clearParsedGuide(): void {
+    try {
+        const dir = new Directory(Paths.document, 'epg_parsed');
+        if (dir.exists) dir.delete();
+    } catch (e) {
+        console.warn('[EPG] Parsed cache delete failed:', e);
+    }
+}
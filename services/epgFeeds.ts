@@ -0,0 +1,152 @@
+// Fontes XMLTV do guia — cache em disco por fonte, gzip e combinação da programação
+import { Paths, File as FSFile, Directory } from 'expo-file-system';
+import { Gunzip } from 'fflate';
+import type { Program } from '../types';
+import type { EpgFeed } from '../stores/epgFeedStore';
+
+export const FEED_CACHE_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Arquivo menor que isso é página de erro, não guia
+const MIN_FEED_BYTES = 1000;
+
+// ─── Disk Cache ───────────────────────────────────────────────────────────────
+
+function getFeedDir(): Directory {
+    const dir = new Directory(Paths.document, 'epg_xmltv');
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    return dir;
+}
+
+/** Arquivo da fonte como foi baixado (XML puro ou gzip) */
+export function feedCacheFile(feed: EpgFeed): FSFile {
+    return new FSFile(getFeedDir(), `${feed.id}.xml`);
+}
+
+export function feedPartFile(feed: EpgFeed): FSFile {
+    return new FSFile(getFeedDir(), `${feed.id}.xml.part`);
+}
+
+/** Cache da fonte que ainda serve — com `ignoreAge` aceita arquivo vencido (download falhou) */
+export function usableFeedCache(feed: EpgFeed, ignoreAge = false): FSFile | null {
+    try {
+        const file = feedCacheFile(feed);
+        if (!file.exists) return null;
+        if (file.size < MIN_FEED_BYTES) {
+            console.log(`[EPG] Cache too small for ${feed.id}:`, file.size);
+            return null;
+        }
+        const age = Date.now() - (file.modificationTime ?? 0);
+        if (!ignoreAge && age >= FEED_CACHE_TTL_MS) {
+            console.log(`[EPG] Cache expired for ${feed.id} (${Math.floor(age / 3600000)}h old)`);
+            return null;
+        }
+        return file;
+    } catch (e) {
+        console.error('[EPG] Cache read error:', e);
+        return null;
+    }
+}
+
+/** Identifica os arquivos que geraram o guia — muda quando qualquer fonte é baixada de novo */
+export function feedsSignature(feeds: EpgFeed[]): string {
+    return feeds.map(feed => {
+        const file = feedCacheFile(feed);
+        return `${feed.id}:${file.exists ? file.modificationTime ?? 0 : 0}`;
+    }).join('|');
+}
+
+/** Apaga o cache de fontes que saíram da lista */
+export function removeStaleFeedCaches(feeds: EpgFeed[]): void {
+    try {
+        const keep = new Set(feeds.flatMap(f => [`${f.id}.xml`, `${f.id}.xml.part`]));
+        for (const entry of getFeedDir().list()) {
+            if (entry instanceof FSFile && !keep.has(entry.name)) entry.delete();
+        }
+    } catch (e) {
+        console.warn('[EPG] Stale feed cleanup failed:', e);
+    }
+}
+
+export function clearFeedCaches(): void {
+    try {
+        const dir = new Directory(Paths.document, 'epg_xmltv');
+        if (dir.exists) dir.delete();
+    } catch {}
+}
+
+// ─── Gzip ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Recebe os bytes como vieram e entrega XML ao parser. O gzip é detectado pelo
+ * cabeçalho (1f 8b), não pela URL — servidores mandam .gz sem a extensão e vice-versa.
+ */
+export class FeedDecoder {
+    private gunzip: Gunzip | null = null;
+    private head: Uint8Array | null = null;
+    private detected = false;
+
+    constructor(private out: (bytes: Uint8Array) => void) {}
+
+    push(bytes: Uint8Array): void {
+        if (!this.detected) {
+            const joined = this.head ? concat(this.head, bytes) : bytes;
+            if (joined.length < 2) { this.head = joined; return; }
+            this.head = null;
+            this.detected = true;
+            if (joined[0] === 0x1f && joined[1] === 0x8b) {
+                this.gunzip = new Gunzip((chunk) => { if (chunk.length > 0) this.out(chunk); });
+            }
+            bytes = joined;
+        }
+        if (this.gunzip) this.gunzip.push(bytes);
+        else this.out(bytes);
+    }
+
+    end(): void {
+        if (this.head) this.out(this.head);
+        this.head = null;
+        this.gunzip?.push(new Uint8Array(0), true);
+    }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+}
+
+// ─── Merge ────────────────────────────────────────────────────────────────────
+
+/**
+ * Junta a programação de um canal vinda de várias fontes, em ordem de prioridade.
+ * A primeira lista vale inteira; as seguintes só preenchem horários que ainda estão vazios.
+ */
+export function mergeFeedPrograms(lists: Program[][]): Program[] {
+    let merged = lists[0] ?? [];
+    for (const list of lists.slice(1)) {
+        if (list.length === 0) continue;
+        if (merged.length === 0) { merged = list; continue; }
+        const base = merged;
+        const extra = list.filter(p => !overlapsAny(base, p));
+        if (extra.length > 0) {
+            merged = base.concat(extra).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+        }
+    }
+    return merged;
+}
+
+// `sorted` em ordem de início e sem sobreposição entre si
+function overlapsAny(sorted: Program[], p: Program): boolean {
+    const start = p.startTime.getTime();
+    const end = p.endTime.getTime();
+    // Primeiro programa que termina depois do início de p
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid].endTime.getTime() <= start) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo < sorted.length && sorted[lo].startTime.getTime() < end;
+}
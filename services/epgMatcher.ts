@@ -0,0 +1,162 @@
+// Correspondência entre nomes de canais do app e canais do XMLTV
+
+export interface XmltvChannelRef {
+    id: string;
+    names: string[];
+}
+
+/** Como o canal chegou ao XMLTV: escolha manual, tvg-id/epg_channel_id, nome ou nenhum */
+export type EpgMatchMethod = 'manual' | 'epgId' | 'name' | 'none';
+
+export interface EpgSuggestion {
+    id: string;
+    name: string;
+    score: number;
+}
+
+// Marcas de qualidade/codec e de sinal alternativo — não mudam o canal ("Globo HD" = "Globo").
+// Palavras que fazem parte do nome ("Canal Brasil", "X Plus") ficam de fora.
+const QUALITY_TOKENS = new Set([
+    'hd', 'fhd', 'uhd', 'sd', '4k', '8k', 'hdr', 'hevc', 'h265', 'h264',
+    'fullhd', '1080p', '1080', '720p', '720', '60fps', 'alt', 'backup',
+]);
+
+// Praças/regiões: só desempatam — "Globo SP" e "Globo RJ" têm grades diferentes
+const REGION_TOKENS = new Set([
+    'sp', 'rj', 'mg', 'rs', 'pr', 'sc', 'ba', 'pe', 'ce', 'df', 'go', 'es', 'am',
+    'pa', 'ma', 'mt', 'ms', 'pb', 'rn', 'al', 'se', 'pi', 'to', 'ro', 'ac', 'ap', 'rr',
+    'br', 'brasil', 'brazil', 'sul', 'nordeste', 'norte', 'capital', 'interior',
+    'saopaulo', 'riodejaneiro', 'leste', 'oeste',
+]);
+
+// Similaridade mínima (Dice sobre os tokens) para aceitar uma correspondência automática
+const MIN_SCORE = 0.75;
+
+/** Texto sem acentos, caixa e pontuação — palavras separadas por um espaço */
+export function foldText(s: string): string {
+    return s.normalize('NFD').replace(/[̀-ͯ]/g, '')
+        .toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Nome normalizado: sem prefixo de país, acentos, caixa e pontuação */
+export function normalizeChannelName(s: string): string {
+    return foldText(s.replace(/^BR\s*-\s*/i, '').replace(/^BR\s+/i, '').replace(/^[A-Z]{2}\s*-\s*/, ''));
+}
+
+interface NameTokens {
+    core: string[];
+    region: string[];
+    /** Números do nome (SporTV 2 ≠ SporTV 3) */
+    digits: string;
+}
+
+function tokenize(name: string): NameTokens {
+    const words = normalizeChannelName(name)
+        .split(' ')
+        .filter(w => w && !QUALITY_TOKENS.has(w))
+        // "sportv2" → "sportv 2"
+        .flatMap(w => w.replace(/([a-z])(\d)/g, '$1 $2').replace(/(\d)([a-z])/g, '$1 $2').split(' '))
+        .filter(w => w && !QUALITY_TOKENS.has(w));
+    const core: string[] = [];
+    const region: string[] = [];
+    for (const w of words) (REGION_TOKENS.has(w) ? region : core).push(w);
+    // Nome só de região ("Brasil HD"): a região é o próprio nome
+    if (core.length === 0) return { core: region, region: [], digits: '' };
+    return { core, region, digits: core.filter(w => /^\d+$/.test(w)).join(' ') };
+}
+
+function dice(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const setB = new Set(b);
+    let common = 0;
+    for (const t of new Set(a)) if (setB.has(t)) common++;
+    return (2 * common) / (new Set(a).size + setB.size);
+}
+
+function sameRegion(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every(r => b.includes(r));
+}
+
+interface Entry extends NameTokens {
+    id: string;
+    name: string;
+}
+
+/**
+ * Índice dos canais do XMLTV. Ordem de tentativa: nome normalizado idêntico,
+ * mesmo nome sem qualidade (HD/FHD/4K/+) respeitando a praça, e por fim
+ * similaridade de tokens com os números iguais.
+ */
+export class EpgNameMatcher {
+    private exact = new Map<string, string>();
+    private byCore = new Map<string, Entry[]>();
+    private byToken = new Map<string, Entry[]>();
+    // Ids em minúsculas — tvg-id das playlists nem sempre respeita a caixa do XML
+    private ids = new Map<string, string>();
+
+    constructor(channels: XmltvChannelRef[]) {
+        for (const ch of channels) {
+            if (!this.ids.has(ch.id.toLowerCase())) this.ids.set(ch.id.toLowerCase(), ch.id);
+            for (const name of ch.names) {
+                const key = normalizeChannelName(name);
+                if (key && !this.exact.has(key)) this.exact.set(key, ch.id);
+
+                const entry: Entry = { id: ch.id, name, ...tokenize(name) };
+                if (entry.core.length === 0) continue;
+                const coreKey = entry.core.join(' ');
+                const list = this.byCore.get(coreKey);
+                if (list) list.push(entry); else this.byCore.set(coreKey, [entry]);
+                for (const t of new Set(entry.core)) {
+                    const tl = this.byToken.get(t);
+                    if (tl) tl.push(entry); else this.byToken.set(t, [entry]);
+                }
+            }
+        }
+    }
+
+    /** Id do XML igual ao informado (ignorando caixa), ou null se não existir */
+    findId(id: string): string | null {
+        return this.ids.get(id.trim().toLowerCase()) ?? null;
+    }
+
+    match(name: string): string | null {
+        const exact = this.exact.get(normalizeChannelName(name));
+        if (exact) return exact;
+
+        const tokens = tokenize(name);
+        if (tokens.core.length === 0) return null;
+
+        const sameCore = this.byCore.get(tokens.core.join(' '));
+        if (sameCore) {
+            const regional = sameCore.find(e => sameRegion(e.region, tokens.region));
+            if (regional) return regional.id;
+            // App sem praça: qualquer versão serve; com praça, não troca por outra
+            if (tokens.region.length === 0) return sameCore[0].id;
+        }
+
+        const best = this.rank(tokens, 1)[0];
+        return best && best.score >= MIN_SCORE ? best.id : null;
+    }
+
+    /** Melhores candidatos para a escolha manual (sem limite mínimo de similaridade) */
+    suggest(name: string, limit = 10): EpgSuggestion[] {
+        return this.rank(tokenize(name), limit);
+    }
+
+    private rank(tokens: NameTokens, limit: number): EpgSuggestion[] {
+        const scored = new Map<string, EpgSuggestion>();
+        for (const t of new Set(tokens.core)) {
+            for (const e of this.byToken.get(t) ?? []) {
+                if (e.digits !== tokens.digits) continue;
+                let score = dice(tokens.core, e.core);
+                if (sameRegion(e.region, tokens.region)) score += 0.05;
+                else if (tokens.region.length > 0 && e.region.length > 0) score -= 0.3;
+                const prev = scored.get(e.id);
+                if (!prev || prev.score < score) scored.set(e.id, { id: e.id, name: e.name, score });
+            }
+        }
+        return Array.from(scored.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+}
@@ -0,0 +1,306 @@
+// Provedores de EPG em HTML (meuguia.tv, guiadetv.com, tvplus) — completam os canais sem par no XMLTV
+import { Paths, File as FSFile, Directory } from 'expo-file-system';
+import type { Program } from '../types';
+import { meuguiaChannelCodes, guiadetvChannelSlugs, tvplusChannelSlugs } from '../data/epgMappings';
+
+export type EPGProviderId = 'meuguia' | 'guiadetv' | 'tvplus';
+
+export interface EPGProvider {
+    id: EPGProviderId;
+    name: string;
+    /** Código do canal no provedor (null = canal não mapeado) */
+    codeFor: (appId: string) => string | null;
+    url: (code: string) => string;
+    /** Páginas de erro/captcha também vêm com 200 — confere se há programação */
+    isValid: (html: string) => boolean;
+    parse: (html: string, code: string) => Program[];
+}
+
+export const PROVIDER_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 15000;
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+const USER_AGENT = 'Mozilla/5.0 (Linux; Android 13) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Mobile Safari/537.36';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"',
+    '&#39;': "'", '&apos;': "'", '&nbsp;': ' ',
+    '&eacute;': 'é', '&aacute;': 'á', '&iacute;': 'í',
+    '&oacute;': 'ó', '&uacute;': 'ú', '&atilde;': 'ã',
+    '&otilde;': 'õ', '&ccedil;': 'ç', '&ecirc;': 'ê',
+    '&ocirc;': 'ô', '&acirc;': 'â', '&ndash;': '–', '&mdash;': '—',
+};
+
+function decodeHtml(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(parseInt(n, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCharCode(parseInt(n, 16)))
+        .replace(/&[a-z]+;/gi, m => HTML_ENTITIES[m.toLowerCase()] ?? m)
+        .trim();
+}
+
+// Fim de cada programa = início do próximo; o último fica com 1h
+function fillEndTimes(programs: Program[]): Program[] {
+    programs.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    for (let i = 0; i < programs.length; i++) {
+        const next = programs[i + 1];
+        programs[i].endTime = next
+            ? next.startTime
+            : new Date(programs[i].startTime.getTime() + DEFAULT_DURATION_MS);
+    }
+    return programs;
+}
+
+function makeProgram(providerId: EPGProviderId, code: string, startTime: Date, title: string, category = ''): Program {
+    return {
+        id: `${providerId}-${code}-${startTime.getTime()}`,
+        title,
+        description: '',
+        category,
+        startTime,
+        endTime: startTime,
+    };
+}
+
+// ─── meuguia.tv ───────────────────────────────────────────────────────────────
+
+// <li class="subheader">10/01 - Segunda-feira</li> ... <div class='lileft time'>20:00</div> ... <h2>Título</h2> ... <h3>Categoria</h3>
+function parseMeuguia(html: string, code: string): Program[] {
+    const today = new Date();
+    const year = today.getFullYear();
+    // Templates ERB não processados aparecem como cabeçalhos vazios
+    const clean = html.replace(/<li class="subheader[^"]*"><%=[^>]+%><\/li>/gi, '');
+
+    const headers: { index: number; date: Date }[] = [];
+    const headerRe = /<li class="subheader[^"]*">[^<]*?(\d{1,2})\/(\d{1,2})[^<]*<\/li>/gi;
+    let hm: RegExpExecArray | null;
+    while ((hm = headerRe.exec(clean))) {
+        const day = parseInt(hm[1], 10);
+        const month = parseInt(hm[2], 10) - 1;
+        // Virada de ano: dezembro → janeiro
+        const y = month < today.getMonth() - 6 ? year + 1 : year;
+        headers.push({ index: hm.index, date: new Date(y, month, day) });
+    }
+    if (headers.length === 0) {
+        headers.push({ index: 0, date: new Date(year, today.getMonth(), today.getDate()) });
+    }
+
+    const programs: Program[] = [];
+    const programRe = /<div class=['"]lileft time['"]>\s*(\d{1,2}):(\d{2})\s*<\/div>[\s\S]*?<h2>([^<]+)<\/h2>[\s\S]*?<h3>([^<]*)<\/h3>/gi;
+    let headerIdx = 0;
+    let lastHour = -1;
+    let pm: RegExpExecArray | null;
+    while ((pm = programRe.exec(clean))) {
+        while (headerIdx < headers.length - 1 && pm.index > headers[headerIdx + 1].index) {
+            headerIdx++;
+            lastHour = -1;
+        }
+        const hours = parseInt(pm[1], 10);
+        const minutes = parseInt(pm[2], 10);
+        let base = headers[headerIdx].date;
+        // Hora voltou muito (23h → 01h): passou da meia-noite sem cabeçalho novo
+        if (lastHour !== -1 && hours < lastHour - 6) {
+            base = new Date(base.getFullYear(), base.getMonth(), base.getDate() + 1);
+            headers[headerIdx] = { ...headers[headerIdx], date: base };
+        }
+        lastHour = hours;
+
+        const start = new Date(base.getFullYear(), base.getMonth(), base.getDate(), hours, minutes);
+        const title = decodeHtml(pm[3]);
+        if (title) programs.push(makeProgram('meuguia', code, start, title, decodeHtml(pm[4])));
+    }
+    return fillEndTimes(programs);
+}
+
+// ─── guiadetv.com ─────────────────────────────────────────────────────────────
+
+// <div data-dt="2026-01-12 10:40:00-03:00"> <a href="/programa/slug">Título</a>
+function parseGuiadetv(html: string, code: string): Program[] {
+    const programs: Program[] = [];
+    const re = /data-dt="(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})([+-]\d{2}:?\d{2})?"[\s\S]*?<a[^>]*href="[^"]*programa\/[^"]+"[^>]*>\s*(?:<[^>]+>\s*)*([^<]{2,150})/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(html))) {
+        const tz = m[3] ? (m[3].includes(':') ? m[3] : `${m[3].slice(0, 3)}:${m[3].slice(3)}`) : '-03:00';
+        const start = new Date(`${m[1]}T${m[2]}${tz}`);
+        const title = decodeHtml(m[4]);
+        if (!isNaN(start.getTime()) && title) programs.push(makeProgram('guiadetv', code, start, title));
+    }
+    return fillEndTimes(programs);
+}
+
+// ─── tvplus ───────────────────────────────────────────────────────────────────
+
+const TITLE_KEYS = ['title', 'programName', 'name', 'titulo'];
+const START_KEYS = ['startTime', 'start', 'startDate', 'inicio', 'beginTime'];
+const END_KEYS = ['endTime', 'end', 'endDate', 'fim', 'stopTime'];
+
+function pick(obj: any, keys: string[]): any {
+    for (const k of keys) if (obj[k] != null && obj[k] !== '') return obj[k];
+    return undefined;
+}
+
+function toDate(v: unknown): Date | null {
+    if (typeof v === 'number') return new Date(v < 1e12 ? v * 1000 : v);
+    if (typeof v === 'string') {
+        const d = new Date(/^\d+$/.test(v) ? Number(v) * (v.length <= 10 ? 1000 : 1) : v);
+        return isNaN(d.getTime()) ? null : d;
+    }
+    return null;
+}
+
+// TVPlus é SPA: a programação vem no JSON embutido na página (__NEXT_DATA__ ou JSON-LD)
+function parseTvplus(html: string, code: string): Program[] {
+    const programs: Program[] = [];
+    const seen = new Set<number>();
+    const visit = (node: any, depth: number) => {
+        if (!node || typeof node !== 'object' || depth > 12) return;
+        if (Array.isArray(node)) {
+            node.forEach(n => visit(n, depth + 1));
+            return;
+        }
+        const title = pick(node, TITLE_KEYS);
+        const start = toDate(pick(node, START_KEYS));
+        if (typeof title === 'string' && start && !seen.has(start.getTime())) {
+            seen.add(start.getTime());
+            const p = makeProgram('tvplus', code, start, decodeHtml(title), typeof node.genre === 'string' ? node.genre : '');
+            const end = toDate(pick(node, END_KEYS));
+            if (end && end > start) p.endTime = end;
+            p.description = typeof node.description === 'string' ? decodeHtml(node.description) : '';
+            programs.push(p);
+            return;
+        }
+        for (const v of Object.values(node)) visit(v, depth + 1);
+    };
+
+    const scriptRe = /<script[^>]*(?:id="__NEXT_DATA__"|type="application\/ld\+json")[^>]*>([\s\S]*?)<\/script>/g;
+    let m: RegExpExecArray | null;
+    while ((m = scriptRe.exec(html))) {
+        try { visit(JSON.parse(m[1]), 0); } catch {}
+    }
+    const withEnd = programs.filter(p => p.endTime > p.startTime);
+    // Sem horário de fim no JSON: usa o início do próximo
+    return withEnd.length === programs.length
+        ? programs.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+        : fillEndTimes(programs);
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+// Mesma prioridade de getEPGUrl: tvplus, guiadetv, meuguia
+export const EPG_PROVIDERS: EPGProvider[] = [
+    {
+        id: 'tvplus',
+        name: 'TVPlus',
+        codeFor: (appId) => tvplusChannelSlugs[appId] ?? null,
+        url: (code) => `https://www.tvplus.com.br/programacao/${code}`,
+        isValid: (html) => html.includes('__NEXT_DATA__') || html.includes('application/ld+json'),
+        parse: parseTvplus,
+    },
+    {
+        id: 'guiadetv',
+        name: 'guiadetv.com',
+        codeFor: (appId) => guiadetvChannelSlugs[appId] ?? null,
+        url: (code) => `https://www.guiadetv.com/canal/${code}`,
+        isValid: (html) => html.length > 1000 && (html.includes('data-dt=') || html.includes('/programa/')),
+        parse: parseGuiadetv,
+    },
+    {
+        id: 'meuguia',
+        name: 'meuguia.tv',
+        codeFor: (appId) => meuguiaChannelCodes[appId] ?? null,
+        url: (code) => `https://meuguia.tv/programacao/canal/${code}`,
+        isValid: (html) => html.length > 1000 && (html.includes('lileft time') || html.includes('<h2>')),
+        parse: parseMeuguia,
+    },
+];
+
+/** Provedores que têm o canal mapeado, em ordem de prioridade */
+export function providersFor(appId: string): EPGProvider[] {
+    return EPG_PROVIDERS.filter(p => p.codeFor(appId) !== null);
+}
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+// [início, fim, título, descrição, categoria]
+type CompactProgram = [number, number, string, string, string];
+
+interface ProviderCacheFile {
+    fetchedAt: number;
+    programs: CompactProgram[];
+}
+
+function getProviderDir(providerId: EPGProviderId): Directory {
+    const dir = new Directory(Paths.document, 'epg_providers', providerId);
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    return dir;
+}
+
+function cacheFile(provider: EPGProvider, code: string): FSFile {
+    return new FSFile(getProviderDir(provider.id), `${code.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+}
+
+export function readProviderCache(provider: EPGProvider, code: string): { fetchedAt: number; programs: Program[] } | null {
+    try {
+        const file = cacheFile(provider, code);
+        if (!file.exists) return null;
+        const data = JSON.parse(file.textSync()) as ProviderCacheFile;
+        return {
+            fetchedAt: data.fetchedAt,
+            programs: data.programs.map(([start, end, title, description, category]) => ({
+                id: `${provider.id}-${code}-${start}`,
+                title,
+                description,
+                category,
+                startTime: new Date(start),
+                endTime: new Date(end),
+            })),
+        };
+    } catch (e) {
+        console.warn(`[EPG] ${provider.name} cache unreadable:`, code, e);
+        return null;
+    }
+}
+
+function writeProviderCache(provider: EPGProvider, code: string, programs: Program[]): void {
+    try {
+        const data: ProviderCacheFile = {
+            fetchedAt: Date.now(),
+            programs: programs.map(p => [
+                p.startTime.getTime(), p.endTime.getTime(), p.title, p.description ?? '', p.category ?? '',
+            ]),
+        };
+        const file = cacheFile(provider, code);
+        file.create({ overwrite: true });
+        file.write(JSON.stringify(data));
+    } catch (e) {
+        console.warn(`[EPG] ${provider.name} cache write failed:`, code, e);
+    }
+}
+
+/** Baixa e processa a página do canal; grava no cache do provedor */
+export async function fetchFromProvider(provider: EPGProvider, code: string): Promise<Program[]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const res = await fetch(provider.url(code), {
+            headers: { 'User-Agent': USER_AGENT, 'Accept-Language': 'pt-BR' },
+            signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const html = await res.text();
+        if (!provider.isValid(html)) throw new Error('Página sem programação');
+        const programs = provider.parse(html, code);
+        if (programs.length > 0) writeProviderCache(provider, code, programs);
+        return programs;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+export function clearProviderCaches(): void {
+    try {
+        const dir = new Directory(Paths.document, 'epg_providers');
+        if (dir.exists) dir.delete();
+    } catch {}
+}
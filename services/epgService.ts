@@ -1,30 +1,92 @@
 // EPG Service — Robust, instant cache load, auto-reload, guaranteed to work
 
 import type { Program, CurrentProgram } from '../types';
-import { Paths, File as FSFile, Directory } from 'expo-file-system';
-
-const EPG_XML_URL = 'https://iptv-epg.org/files/epg-br.xml';
-const CACHE_TTL_MS = 12 * 60 * 60 * 1000;
+import type { File as FSFile } from 'expo-file-system';
+import { fetch as expoFetch } from 'expo/fetch';
+import { XmltvStreamParser, type XmltvProgramme } from './xmltvParser';
+import {
+    EpgNameMatcher,
+    foldText,
+    type XmltvChannelRef,
+    type EpgMatchMethod,
+    type EpgSuggestion,
+} from './epgMatcher';
+import {
+    loadParsedIndex,
+    isParsedIndexValid,
+    readParsedChannel,
+    writeParsedGuide,
+    clearParsedGuide,
+    dayKey,
+    type ParsedEpgIndex,
+    type ParsedEpgChannel,
+} from './epgCache';
+import {
+    providersFor,
+    readProviderCache,
+    fetchFromProvider,
+    clearProviderCaches,
+    PROVIDER_CACHE_TTL_MS,
+    type EPGProviderId,
+} from './epgProviders';
+import {
+    feedCacheFile,
+    feedPartFile,
+    usableFeedCache,
+    feedsSignature,
+    removeStaleFeedCaches,
+    clearFeedCaches,
+    FeedDecoder,
+    mergeFeedPrograms,
+} from './epgFeeds';
+import { MAX_CATCHUP_DAYS } from './catchupService';
+import { useEpgMatchStore } from '../stores/epgMatchStore';
+import { useEpgFeedStore, type EpgFeed } from '../stores/epgFeedStore';
 
 // State
 let loadState: 'idle' | 'loading' | 'loaded' | 'error' = 'idle';
 let loadError: string | null = null;
 let loadProgress: number = 0;
+let lastBytes = { read: 0, total: 0 };
 let isLoadingLocked = false;
 
 // Data
 const channelPrograms = new Map<string, Program[]>();
-const nameIndex = new Map<string, string>();
-const resolvedIds = new Map<string, string | null>();
+// Canal do XMLTV de cada canal do app e como foi escolhido
+type ChannelMatch = Omit<ParsedEpgChannel, 'name'>;
+const resolvedMatches = new Map<string, ChannelMatch>();
+// Canais do XML do último guia lido (para a escolha manual)
+let xmlChannelList: XmltvChannelRef[] = [];
+let nameMatcher: EpgNameMatcher | null = null;
+// Guia processado em disco — channelPrograms é preenchido sob demanda a partir dele
+let parsedIndex: ParsedEpgIndex | null = null;
+// Muda a cada guia novo em memória; descarta gravações de cache já superadas
+let guideGeneration = 0;
+let parsedWrite: Promise<void> = Promise.resolve();
+// Canais sem par no XMLTV, completados pelos provedores HTML
+const providerPrograms = new Map<string, Program[]>();
+const providerServed = new Map<string, EPGProviderId>();
+let providerFillRunning = false;
+// Resultado da última leitura de cada fonte XMLTV
+export interface EpgFeedStatus {
+    channels: number;
+    programmes: number;
+    updatedAt: number | null;
+    error: string | null;
+}
+const feedStatus = new Map<string, EpgFeedStatus>();
 
 // Registry
 const appChannelNames = new Map<string, string>();
+// tvg-id / epg_channel_id das fontes e apelidos registrados à parte
+const appEpgIds = new Map<string, string>();
+const epgAliases = new Map<string, string>();
 let needsReload = true;
 let hasRegisteredChannels = false;
 let initCalled = false;
 
-// Listeners
-type ProgressCallback = (progress: number, loaded: number, total: number) => void;
+// Listeners — progresso em bytes lidos do XML (total 0 = tamanho desconhecido)
+type ProgressCallback = (progress: number, bytesRead: number, bytesTotal: number) => void;
 const progressListeners = new Set<ProgressCallback>();
 
 type UpdateCallback = (appId: string) => void;
@@ -50,7 +112,7 @@ export function isEPGLoaded(): boolean { return loadState === 'loaded'; }
 
 export function onEPGProgress(callback: ProgressCallback): () => void {
     progressListeners.add(callback);
-    callback(loadProgress, channelPrograms.size, appChannelNames.size);
+    callback(loadProgress, lastBytes.read, lastBytes.total);
     return () => progressListeners.delete(callback);
 }
 
@@ -68,26 +130,151 @@ export function onEPGStateChange(callback: StateCallback): () => void {
 function notifyUpdate(): void {
     if (updateListeners.size === 0) return;
     for (const appId of appChannelNames.keys()) {
-        const xmlId = resolvedIds.get(appId);
-        if (xmlId && (channelPrograms.get(xmlId)?.length ?? 0) > 0) {
+        const xmlId = resolveXmlId(appId);
+        if (xmlId && hasGuide(xmlId)) {
             updateListeners.forEach(l => l(appId));
         }
     }
 }
 
+// ─── Guide Lookup ─────────────────────────────────────────────────────────────
+
+function matchOf(appId: string): ChannelMatch | null {
+    return resolvedMatches.get(appId) ?? parsedIndex?.channels[appId] ?? null;
+}
+
+function resolveXmlId(appId: string): string | null {
+    return matchOf(appId)?.xmlId ?? null;
+}
+
+function hasGuide(xmlId: string): boolean {
+    return (channelPrograms.get(xmlId)?.length ?? 0) > 0 || !!parsedIndex?.guide[xmlId];
+}
+
+function programsFor(xmlId: string): Program[] {
+    let list = channelPrograms.get(xmlId);
+    if (!list && parsedIndex?.guide[xmlId]) {
+        // Desde ontem: cobre o programa que começou antes da meia-noite e ainda está no ar
+        list = readParsedChannel(parsedIndex, xmlId, dayKey(new Date(Date.now() - 86400000)));
+        channelPrograms.set(xmlId, list);
+    }
+    return list ?? [];
+}
+
+// Com o cache processado dá para responder mesmo enquanto o XML ainda está sendo lido
+function canAnswer(): boolean {
+    return loadState === 'loaded' || parsedIndex !== null;
+}
+
+function xmltvPrograms(appId: string): Program[] {
+    if (!canAnswer()) return [];
+    const xmlId = resolveXmlId(appId);
+    return xmlId ? programsFor(xmlId) : [];
+}
+
+function hasXmltvGuide(appId: string): boolean {
+    if (!canAnswer()) return false;
+    const xmlId = resolveXmlId(appId);
+    return !!xmlId && hasGuide(xmlId);
+}
+
+// ─── HTML Providers ───────────────────────────────────────────────────────────
+
+function setProviderPrograms(appId: string, providerId: EPGProviderId, programs: Program[]): void {
+    providerPrograms.set(appId, programs);
+    providerServed.set(appId, providerId);
+    updateListeners.forEach(l => l(appId));
+}
+
+// Programação do provedor em memória ou, na primeira consulta, do cache em disco
+function providerProgramsFor(appId: string): Program[] {
+    const inMemory = providerPrograms.get(appId);
+    if (inMemory) return inMemory;
+    for (const provider of providersFor(appId)) {
+        const cached = readProviderCache(provider, provider.codeFor(appId)!);
+        if (cached && cached.programs.length > 0) {
+            providerPrograms.set(appId, cached.programs);
+            providerServed.set(appId, provider.id);
+            return cached.programs;
+        }
+    }
+    // Sem cache: não consulta o disco de novo até o preenchimento trazer algo
+    if (providersFor(appId).length > 0) providerPrograms.set(appId, []);
+    return [];
+}
+
+/**
+ * Busca nos provedores HTML os canais mapeados em epgMappings que ficaram sem
+ * programação no XMLTV. Um canal por vez, tentando os provedores em ordem.
+ */
+async function fillFromProviders(): Promise<void> {
+    if (providerFillRunning) return;
+    providerFillRunning = true;
+    try {
+        const pending = Array.from(appChannelNames.keys())
+            .filter(appId => !hasXmltvGuide(appId) && providersFor(appId).length > 0);
+        if (pending.length === 0) return;
+        console.log(`[EPG] Filling ${pending.length} channels from HTML providers`);
+
+        for (const appId of pending) {
+            // Registrado de novo e casado no XMLTV enquanto a fila andava
+            if (hasXmltvGuide(appId)) continue;
+            const providers = providersFor(appId);
+
+            const fresh = providers
+                .map(provider => ({ provider, cached: readProviderCache(provider, provider.codeFor(appId)!) }))
+                .find(({ cached }) => cached && cached.programs.length > 0 && Date.now() - cached.fetchedAt < PROVIDER_CACHE_TTL_MS);
+            if (fresh) {
+                setProviderPrograms(appId, fresh.provider.id, fresh.cached!.programs);
+                continue;
+            }
+
+            for (const provider of providers) {
+                try {
+                    const programs = await fetchFromProvider(provider, provider.codeFor(appId)!);
+                    if (programs.length > 0) {
+                        setProviderPrograms(appId, provider.id, programs);
+                        break;
+                    }
+                } catch (e: any) {
+                    console.warn(`[EPG] ${provider.name} failed for ${appId}:`, e?.message ?? e);
+                }
+            }
+        }
+    } finally {
+        providerFillRunning = false;
+    }
+}
+
 // ─── Channel Registration ─────────────────────────────────────────────────────
 
-export function registerChannel(appId: string, name: string): void {
+export function registerChannel(appId: string, name: string, epgId?: string): void {
     appChannelNames.set(appId, name);
-    resolvedIds.delete(appId);
-    needsReload = true;
+    if (epgId?.trim()) appEpgIds.set(appId, epgId.trim());
+    else appEpgIds.delete(appId);
+    resolvedMatches.delete(appId);
     hasRegisteredChannels = true;
 
     console.log(`[EPG] Registered: ${name} (${appId}) - total: ${appChannelNames.size}`);
+    requestReload('Channel registered');
+}
+
+/** Id do canal no XMLTV para um canal do app, vale mais que o nome */
+export function registerEpgAlias(appId: string, epgId: string): void {
+    if (!epgId.trim()) return;
+    epgAliases.set(appId, epgId.trim());
+    if (!appChannelNames.has(appId)) return;
+    resolvedMatches.delete(appId);
+    requestReload('Alias registered');
+}
+
+// Casamento mudou — relê o guia (o cache processado só serve se as escolhas baterem)
+function requestReload(reason: string): void {
+    needsReload = true;
 
     // If EPG was already loaded, trigger reload with new channels
     if (loadState === 'loaded') {
-        console.log('[EPG] Channel registered after load, triggering reload...');
+        console.log(`[EPG] ${reason} after load, triggering reload...`);
         setState('idle');
         loadFromCacheOrFetch();
     } else if (initCalled && loadState === 'idle') {
@@ -97,258 +284,447 @@ export function registerChannel(appId: string, name: string): void {
     }
 }
 
-export function registerEpgAlias(_c: string, _e: string): void {}
-
-// ─── Disk Cache ───────────────────────────────────────────────────────────────
+// Escolha que fixa o canal do XMLTV — entra na validade do cache processado
+function pinFor(appId: string): string {
+    const overrides = useEpgMatchStore.getState().overrides;
+    if (appId in overrides) return `manual:${overrides[appId] ?? ''}`;
+    const epgId = epgAliases.get(appId) ?? appEpgIds.get(appId);
+    return epgId ? `epg:${epgId}` : '';
+}
 
-function getCacheFile(): FSFile {
-    const dir = new Directory(Paths.document, 'epg_xmltv');
-    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
-    return new FSFile(dir, 'epg-br.xml');
+function registeredPins(): Map<string, { name: string; pin: string }> {
+    const map = new Map<string, { name: string; pin: string }>();
+    appChannelNames.forEach((name, appId) => map.set(appId, { name, pin: pinFor(appId) }));
+    return map;
 }
 
-function readCachedSync(): string | null {
-    try {
-        const file = getCacheFile();
-        if (!file.exists) {
-            console.log('[EPG] Cache file does not exist');
-            return null;
-        }
-        if (file.size < 1000) {
-            console.log('[EPG] Cache file too small:', file.size);
-            return null;
-        }
-        const raw = file.textSync();
-        const m = raw.match(/<!--fetchTime:(\d+)-->/);
-        if (!m) {
-            console.log('[EPG] Cache file missing timestamp');
-            return null;
-        }
-        const fetchTime = parseInt(m[1]);
-        const age = Date.now() - fetchTime;
-        if (age >= CACHE_TTL_MS) {
-            console.log(`[EPG] Cache expired (${Math.floor(age / 3600000)}h old)`);
-            return null;
-        }
-        console.log(`[EPG] Cache valid (${Math.floor(age / 3600000)}h old)`);
-        return raw.replace(/<!--fetchTime:\d+-->[\r\n]?/, '');
-    } catch (e) {
-        console.error('[EPG] Cache read error:', e);
-        return null;
+useEpgMatchStore.subscribe((state, prev) => {
+    if (state.overrides === prev.overrides) return;
+    const changed = Array.from(appChannelNames.keys())
+        .filter(appId => state.overrides[appId] !== prev.overrides[appId]);
+    if (changed.length === 0) return;
+    changed.forEach(appId => resolvedMatches.delete(appId));
+    requestReload(`${changed.length} manual match(es) changed`);
+});
+
+useEpgFeedStore.subscribe((state, prev) => {
+    if (state.feeds === prev.feeds) return;
+    requestReload('EPG feeds changed');
+});
+
+// Escolhas manuais e fontes vêm do AsyncStorage; ler o guia antes disso descartaria o cache processado à toa
+let waitingForStores = false;
+
+function storesReady(): boolean {
+    const pending = [useEpgMatchStore.persist, useEpgFeedStore.persist].filter(p => !p.hasHydrated());
+    if (pending.length === 0) return true;
+    if (!waitingForStores) {
+        waitingForStores = true;
+        const unsubscribe = pending[0].onFinishHydration(() => {
+            unsubscribe();
+            waitingForStores = false;
+            loadFromCacheOrFetch();
+        });
     }
+    return false;
 }
 
-function writeCachedSync(xml: string): void {
-    try {
-        const file = getCacheFile();
-        file.create({ overwrite: true });
-        file.write(`<!--fetchTime:${Date.now()}-->\n${xml}`);
-        console.log('[EPG] Cache written');
-    } catch (e) {
-        console.error('[EPG] Cache write error:', e);
-    }
+function enabledFeeds(): EpgFeed[] {
+    return useEpgFeedStore.getState().feeds.filter(f => f.enabled);
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function parseXmltvDate(s: string): Date {
-    const m = s.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\s*([+-]\d{4})?/);
-    if (!m) return new Date(NaN);
-    const tz = m[7] ?? '+0000';
-    const sign = tz[0] === '-' ? -1 : 1;
-    const off = sign * (parseInt(tz.slice(1, 3)) * 60 + parseInt(tz.slice(3, 5))) * 60000;
-    return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) - off);
+function notifyProgress(bytesRead: number, bytesTotal: number): void {
+    // Sem Content-Length (ou resposta comprimida) não há como saber o total
+    const known = bytesTotal > 0 && bytesRead <= bytesTotal;
+    loadProgress = known ? Math.floor((bytesRead / bytesTotal) * 100) : 0;
+    lastBytes = { read: bytesRead, total: known ? bytesTotal : 0 };
+    progressListeners.forEach(l => l(loadProgress, lastBytes.read, lastBytes.total));
 }
 
-function norm(s: string): string {
-    s = s.replace(/^BR\s*-\s*/i, '').replace(/^BR\s+/i, '').replace(/^[A-Z]{2}\s*-\s*/, '');
-    return s.normalize('NFD').replace(/[̀-ͯ]/g, '')
-        .toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+const yieldNow = () => new Promise<void>(r => setTimeout(r, 0));
+
+// Tamanho de cada leitura do arquivo em cache
+const CHUNK_BYTES = 256 * 1024;
+// Intervalo mínimo entre avisos de progresso
+const PROGRESS_STEP_BYTES = 256 * 1024;
+
+/** Uma fonte XMLTV dentro de uma leitura do guia */
+interface FeedBuild {
+    feed: EpgFeed;
+    xmlChannels: XmltvChannelRef[];
+    resolved: Map<string, ChannelMatch>;
+    programs: Map<string, Program[]>;
+    // Preenchido no primeiro <programme> (os <channel> vêm antes no XMLTV)
+    matched: Set<string> | null;
+    kept: number;
 }
 
-function dec(s: string): string {
-    return s.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&apos;/g, "'")
-        .replace(/&nbsp;/g, ' ');
+/** Resultado de uma leitura do guia — só vira o estado do serviço no fim (commitGuide) */
+interface GuideBuild {
+    /** Fontes lidas com sucesso, em ordem de prioridade */
+    feeds: FeedBuild[];
+    /** Bytes das fontes já lidas, para o progresso somar todas */
+    bytesDone: number;
 }
 
-function notifyProgress(progress: number, loaded: number, total: number): void {
-    loadProgress = progress;
-    progressListeners.forEach(l => l(progress, loaded, total));
+/**
+ * Ordem: escolha manual, id de EPG da fonte (tvg-id / epg_channel_id / apelido) e
+ * por fim o nome. Uma escolha manual cujo canal não está no XML cai no automático.
+ */
+function matchChannel(appId: string, appName: string, matcher: EpgNameMatcher): ChannelMatch {
+    const pin = pinFor(appId);
+    const overrides = useEpgMatchStore.getState().overrides;
+    if (appId in overrides) {
+        const chosen = overrides[appId];
+        if (chosen === null) return { xmlId: null, method: 'manual', pin };
+        const xmlId = matcher.findId(chosen);
+        if (xmlId) return { xmlId, method: 'manual', pin };
+    }
+    const epgId = epgAliases.get(appId) ?? appEpgIds.get(appId);
+    const byId = epgId ? matcher.findId(epgId) : null;
+    if (byId) return { xmlId: byId, method: 'epgId', pin };
+    const byName = matcher.match(appName);
+    return byName ? { xmlId: byName, method: 'name', pin } : { xmlId: null, method: 'none', pin };
 }
 
-// ─── Parser ───────────────────────────────────────────────────────────────────
+function matchChannels(fb: FeedBuild): void {
+    const matcher = new EpgNameMatcher(fb.xmlChannels);
+    const matched = new Set<string>();
+    for (const [appId, appName] of appChannelNames) {
+        const match = matchChannel(appId, appName, matcher);
+        fb.resolved.set(appId, match);
+        if (match.xmlId) matched.add(match.xmlId);
+    }
+    matched.forEach(id => fb.programs.set(id, []));
+    fb.matched = matched;
+    console.log(`[EPG] ${fb.feed.id}: matched ${matched.size} of ${appChannelNames.size} app channels`);
+}
 
-const yieldNow = () => new Promise<void>(r => setTimeout(r, 0));
+/** Campos vazios do XMLTV ficam de fora — são milhares de programas em memória */
+function toProgram(p: XmltvProgramme): Program {
+    const program: Program = {
+        id: `${p.channelId}-${p.start.getTime()}`,
+        title: p.title,
+        description: p.description,
+        category: p.category,
+        startTime: p.start,
+        endTime: p.stop,
+    };
+    if (p.categories.length > 1) program.categories = p.categories;
+    if (p.rating) program.rating = p.rating;
+    if (p.icon) program.thumbnail = p.icon;
+    if (p.year) program.year = p.year;
+    if (p.credits) program.credits = p.credits;
+    if (p.isNew) program.isNew = true;
+    if (p.isRerun) program.isRerun = true;
+    if (p.episode || p.subtitle) {
+        program.episodeInfo = { ...p.episode };
+        if (p.subtitle) program.episodeInfo.episodeTitle = p.subtitle;
+    }
+    return program;
+}
 
-async function extractChannels(xml: string): Promise<void> {
-    nameIndex.clear();
-    let cursor = 0;
-    let count = 0;
-    let batch = 0;
-
-    while (true) {
-        const tagStart = xml.indexOf('<channel id="', cursor);
-        if (tagStart < 0) break;
-        const idEnd = xml.indexOf('"', tagStart + 13);
-        if (idEnd < 0) break;
-        const closeTag = xml.indexOf('</channel>', idEnd);
-        if (closeTag < 0) break;
-
-        const id = xml.slice(tagStart + 13, idEnd);
-        const inner = xml.slice(idEnd + 1, closeTag);
-        const dn = inner.match(/<display-name[^>]*>([^<]+)<\/display-name>/);
-        if (dn) {
-            nameIndex.set(norm(dec(dn[1]).trim()), id);
-            count++;
-        }
-        cursor = closeTag + 10;
+function createGuideParser(fb: FeedBuild): XmltvStreamParser {
+    const now = Date.now();
+    // Passado guardado para o catch-up
+    const win0 = now - MAX_CATCHUP_DAYS * 86400000;
+    const win1 = now + 7 * 86400000;
 
-        if (++batch >= 1000) { batch = 0; await yieldNow(); }
-    }
-    console.log(`[EPG] Extracted ${count} channels from XML, index size: ${nameIndex.size}`);
+    return new XmltvStreamParser({
+        onChannel: (ch) => {
+            fb.xmlChannels.push(ch);
+        },
+        wantsProgramme: (channelId) => {
+            if (!fb.matched) matchChannels(fb);
+            return fb.matched!.has(channelId);
+        },
+        onProgramme: (p) => {
+            if (p.stop.getTime() < win0 || p.start.getTime() > win1) return;
+            const list = fb.programs.get(p.channelId);
+            if (!list) return;
+            list.push(toProgram(p));
+            fb.kept++;
+        },
+    });
 }
 
-function matchChannels(): Set<string> {
-    const matched = new Set<string>();
-    for (const [appId, appName] of appChannelNames) {
-        const n = norm(appName);
-        let xmlId = nameIndex.get(n) ?? null;
+function newFeedBuild(feed: EpgFeed): FeedBuild {
+    return { feed, xmlChannels: [], resolved: new Map(), programs: new Map(), matched: null, kept: 0 };
+}
 
-        if (!xmlId) {
-            for (const [key, id] of nameIndex.entries()) {
-                if (n.startsWith(key) || key.startsWith(n)) { xmlId = id; break; }
-            }
+// Mesmo id em várias fontes vira um canal só, com todos os nomes
+function mergeXmlChannels(feeds: FeedBuild[]): XmltvChannelRef[] {
+    const byId = new Map<string, XmltvChannelRef>();
+    for (const fb of feeds) {
+        for (const ch of fb.xmlChannels) {
+            const known = byId.get(ch.id);
+            if (!known) byId.set(ch.id, { id: ch.id, names: [...ch.names] });
+            else ch.names.forEach(n => { if (!known.names.includes(n)) known.names.push(n); });
         }
-
-        resolvedIds.set(appId, xmlId);
-        if (xmlId) matched.add(xmlId);
     }
-    console.log(`[EPG] Matched ${matched.size} of ${appChannelNames.size} app channels`);
-    return matched;
+    return Array.from(byId.values());
 }
 
-async function extractProgrammes(xml: string, targetIds: Set<string>): Promise<void> {
-    channelPrograms.clear();
-    if (targetIds.size === 0) {
-        console.log('[EPG] No target channels to extract programmes');
-        return;
+/**
+ * Escolhe o canal de cada fonte para cada canal do app e junta a programação.
+ * Vale o canal da fonte de maior prioridade; as outras completam os horários vazios.
+ * Uma escolha manual encontrada em alguma fonte ignora o casamento automático das demais.
+ */
+function combineFeeds(feeds: FeedBuild[]): { resolved: Map<string, ChannelMatch>; programs: Map<string, Program[]> } {
+    const resolved = new Map<string, ChannelMatch>();
+    const programs = new Map<string, Program[]>();
+    for (const appId of appChannelNames.keys()) {
+        const found = feeds
+            .map(fb => ({ fb, match: fb.resolved.get(appId) }))
+            .filter((c): c is { fb: FeedBuild; match: ChannelMatch } => !!c.match?.xmlId);
+        const manual = found.filter(c => c.match.method === 'manual');
+        const chosen = manual.length > 0 ? manual : found;
+        if (chosen.length === 0) {
+            resolved.set(appId, feeds[0]?.resolved.get(appId) ?? { xmlId: null, method: 'none', pin: pinFor(appId) });
+            continue;
+        }
+        const primary = chosen[0].match;
+        resolved.set(appId, primary);
+        if (!programs.has(primary.xmlId!)) {
+            programs.set(primary.xmlId!, mergeFeedPrograms(chosen.map(c => c.fb.programs.get(c.match.xmlId!) ?? [])));
+        }
     }
+    return { resolved, programs };
+}
 
-    targetIds.forEach(id => channelPrograms.set(id, []));
+// Troca o guia em memória de uma vez — quem lê durante a atualização vê o guia anterior
+function commitGuide(build: GuideBuild): void {
+    for (const fb of build.feeds) {
+        if (!fb.matched) matchChannels(fb);
+        fb.programs.forEach(p => p.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+    }
+    const { resolved, programs } = combineFeeds(build.feeds);
 
-    const now = Date.now();
-    const win0 = now - 3600000;
-    const win1 = now + 7 * 86400000;
+    xmlChannelList = mergeXmlChannels(build.feeds);
+    nameMatcher = null;
+    resolvedMatches.clear();
+    resolved.forEach((v, k) => resolvedMatches.set(k, v));
+    channelPrograms.clear();
+    programs.forEach((v, k) => channelPrograms.set(k, v));
+    // Tudo em memória agora; o cache em disco antigo não vale para este guia
+    parsedIndex = null;
+    guideGeneration++;
+    const kept = build.feeds.reduce((s, fb) => s + fb.kept, 0);
+    console.log(`[EPG] ${build.feeds.length} feeds, ${xmlChannelList.length} channels, kept ${kept} programmes for ${channelPrograms.size} channels`);
+    persistParsedGuide(build.feeds.map(fb => fb.feed));
+}
 
-    const xmlLen = xml.length;
-    let cursor = 0;
-    let batch = 0;
-    let processed = 0;
-    let kept = 0;
-
-    while (true) {
-        const tagStart = xml.indexOf('<programme ', cursor);
-        if (tagStart < 0) break;
-        const tagEnd = xml.indexOf('>', tagStart + 11);
-        if (tagEnd < 0) break;
-        const closeTag = xml.indexOf('</programme>', tagEnd);
-        if (closeTag < 0) break;
-
-        const attrs = xml.slice(tagStart + 11, tagEnd);
-        const chIdx = attrs.indexOf('channel="');
-        if (chIdx >= 0) {
-            const chEnd = attrs.indexOf('"', chIdx + 9);
-            const channelId = chEnd > 0 ? attrs.slice(chIdx + 9, chEnd) : '';
-
-            if (channelId && targetIds.has(channelId)) {
-                const sIdx = attrs.indexOf('start="');
-                const stIdx = attrs.indexOf('stop="');
-                if (sIdx >= 0 && stIdx >= 0) {
-                    const sEnd = attrs.indexOf('"', sIdx + 7);
-                    const stEnd = attrs.indexOf('"', stIdx + 6);
-                    const startTime = parseXmltvDate(attrs.slice(sIdx + 7, sEnd));
-                    const endTime = parseXmltvDate(attrs.slice(stIdx + 6, stEnd));
-
-                    if (!isNaN(startTime.getTime()) && endTime.getTime() >= win0 && startTime.getTime() <= win1) {
-                        const inner = xml.slice(tagEnd + 1, closeTag);
-                        const tM = inner.match(/<title[^>]*>([^<]+)<\/title>/);
-                        if (tM) {
-                            const title = dec(tM[1]).trim();
-                            if (title) {
-                                const dM = inner.match(/<desc[^>]*>([\s\S]*?)<\/desc>/);
-                                const cM = inner.match(/<category[^>]*>([^<]+)<\/category>/);
-                                channelPrograms.get(channelId)?.push({
-                                    id: `${channelId}-${startTime.getTime()}`,
-                                    title,
-                                    description: dM ? dec(dM[1]).trim() : '',
-                                    category: cM ? dec(cM[1]).trim() : '',
-                                    startTime,
-                                    endTime,
-                                });
-                                kept++;
-                            }
-                        }
-                    }
-                }
-            }
+// Grava o guia processado para o próximo início não precisar ler o XML
+function persistParsedGuide(feeds: EpgFeed[]): void {
+    const generation = guideGeneration;
+    const channels: Record<string, ParsedEpgChannel> = {};
+    resolvedMatches.forEach((match, appId) => {
+        const name = appChannelNames.get(appId);
+        if (name !== undefined) channels[appId] = { name, ...match };
+    });
+    const xmlChannels = xmlChannelList;
+    const programs = new Map(channelPrograms);
+
+    parsedWrite = parsedWrite.then(async () => {
+        if (generation !== guideGeneration) return;
+        try {
+            const index = await writeParsedGuide(feedsSignature(feeds), channels, xmlChannels, programs);
+            if (generation === guideGeneration) parsedIndex = index;
+        } catch (e) {
+            console.warn('[EPG] Parsed cache write failed:', e);
+            clearParsedGuide();
         }
+    });
+}
 
-        cursor = closeTag + 12;
-        processed++;
+// Usa o guia processado em disco — nenhum byte do XML é lido
+function useParsedGuide(index: ParsedEpgIndex): void {
+    parsedIndex = index;
+    guideGeneration++;
+    channelPrograms.clear();
+    xmlChannelList = index.xmlChannels;
+    nameMatcher = null;
+    resolvedMatches.clear();
+    for (const appId of appChannelNames.keys()) {
+        const known = index.channels[appId];
+        resolvedMatches.set(appId, known
+            ? { xmlId: known.xmlId, method: known.method, pin: known.pin }
+            : { xmlId: null, method: 'none', pin: pinFor(appId) });
+    }
+    needsReload = false;
+    loadError = null;
+    setState('loaded');
+    loadProgress = 100;
+    progressListeners.forEach(l => l(100, lastBytes.read, lastBytes.total));
+    console.log(`[EPG] Loaded parsed cache - ${Object.keys(index.guide).length} channels`);
+    notifyUpdate();
+    fillFromProviders();
+}
 
-        if (++batch >= 4000) {
-            batch = 0;
-            const pct = 50 + Math.floor((cursor / xmlLen) * 49);
-            notifyProgress(Math.min(99, pct), channelPrograms.size, targetIds.size);
+/** Lê o arquivo de uma fonte do cache em pedaços */
+async function parseCachedFile(file: FSFile, fb: FeedBuild, build: GuideBuild, silent: boolean): Promise<XmltvStreamParser> {
+    const parser = createGuideParser(fb);
+    const decoder = new FeedDecoder(bytes => parser.write(bytes));
+    const handle = file.open();
+    try {
+        const total = handle.size ?? file.size;
+        let read = 0;
+        let lastNotified = 0;
+        while (read < total) {
+            const bytes = handle.readBytes(Math.min(CHUNK_BYTES, total - read));
+            if (bytes.length === 0) break;
+            read += bytes.length;
+            decoder.push(bytes);
+            if (!silent && read - lastNotified >= PROGRESS_STEP_BYTES) {
+                lastNotified = read;
+                notifyProgress(build.bytesDone + read, build.bytesDone + total);
+            }
             await yieldNow();
         }
+        decoder.end();
+        parser.end();
+        build.bytesDone += read;
+        if (!silent) notifyProgress(build.bytesDone, build.bytesDone);
+    } finally {
+        handle.close();
+    }
+    return parser;
+}
+
+/**
+ * Baixa a fonte em streaming: cada pedaço vai para o arquivo temporário e para o
+ * parser ao mesmo tempo. O cache só é substituído quando o download termina.
+ */
+async function downloadAndParse(fb: FeedBuild, build: GuideBuild, silent: boolean): Promise<XmltvStreamParser> {
+    const res = await expoFetch(fb.feed.url, { headers: { 'Cache-Control': 'no-cache' } });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const reader = res.body?.getReader();
+    if (!reader) throw new Error('Resposta sem conteúdo');
+    const total = Number(res.headers.get('content-length')) || 0;
+
+    const parser = createGuideParser(fb);
+    const decoder = new FeedDecoder(bytes => parser.write(bytes));
+    const part = feedPartFile(fb.feed);
+    part.create({ overwrite: true });
+    const out = part.open();
+    let read = 0;
+    try {
+        let lastNotified = 0;
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (!value || value.length === 0) continue;
+            out.writeBytes(value);
+            decoder.push(value);
+            read += value.length;
+            if (!silent && read - lastNotified >= PROGRESS_STEP_BYTES) {
+                lastNotified = read;
+                notifyProgress(build.bytesDone + read, total > 0 ? build.bytesDone + total : 0);
+            }
+        }
+        decoder.end();
+        parser.end();
+        build.bytesDone += read;
+        if (!silent) notifyProgress(build.bytesDone, build.bytesDone);
+    } catch (e) {
+        out.close();
+        try { part.delete(); } catch {}
+        throw e;
+    }
+    out.close();
+    console.log(`[EPG] Fetched ${read} bytes from ${fb.feed.url}`);
+
+    try {
+        const file = feedCacheFile(fb.feed);
+        if (file.exists) file.delete();
+        part.move(file);
+        console.log('[EPG] Cache written:', fb.feed.id);
+    } catch (e) {
+        console.error('[EPG] Cache write error:', e);
     }
+    return parser;
+}
 
-    channelPrograms.forEach(p => p.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
-    console.log(`[EPG] Scanned ${processed} programmes, kept ${kept} for ${channelPrograms.size} channels`);
+/** Uma fonte: cache válido, senão download, senão o cache vencido */
+async function readFeed(feed: EpgFeed, build: GuideBuild, silent: boolean): Promise<FeedBuild> {
+    const cached = usableFeedCache(feed);
+    if (cached) {
+        const fb = newFeedBuild(feed);
+        await parseCachedFile(cached, fb, build, silent);
+        return fb;
+    }
+    try {
+        const fb = newFeedBuild(feed);
+        await downloadAndParse(fb, build, silent);
+        return fb;
+    } catch (e) {
+        const stale = usableFeedCache(feed, true);
+        if (!stale) throw e;
+        console.warn(`[EPG] ${feed.id} download failed, using old cache:`, (e as any)?.message ?? e);
+        const fb = newFeedBuild(feed);
+        await parseCachedFile(stale, fb, build, silent);
+        return fb;
+    }
+}
+
+/** Lê as fontes ativas em ordem de prioridade; basta uma dar certo */
+async function readFeeds(build: GuideBuild, silent: boolean): Promise<void> {
+    const feeds = enabledFeeds();
+    removeStaleFeedCaches(useEpgFeedStore.getState().feeds);
+    if (feeds.length === 0) throw new Error('Nenhuma fonte de guia ativa');
+
+    let lastError: any = null;
+    for (const feed of feeds) {
+        try {
+            const fb = await readFeed(feed, build, silent);
+            build.feeds.push(fb);
+            feedStatus.set(feed.id, {
+                channels: fb.xmlChannels.length,
+                programmes: fb.kept,
+                updatedAt: feedCacheFile(feed).modificationTime ?? Date.now(),
+                error: null,
+            });
+        } catch (e: any) {
+            console.error(`[EPG] Feed ${feed.id} failed:`, e);
+            lastError = e;
+            feedStatus.set(feed.id, { channels: 0, programmes: 0, updatedAt: null, error: e?.message || 'Erro de conexão' });
+        }
+    }
+    if (build.feeds.length === 0) throw lastError ?? new Error('Erro ao carregar EPG');
 }
 
 // ─── Load ─────────────────────────────────────────────────────────────────────
 
-async function doLoadSync(xml: string): Promise<void> {
+async function doLoad(): Promise<void> {
     console.log('[EPG] Starting async load...');
     const channelsAtStart = appChannelNames.size;
     needsReload = false;
-    notifyProgress(10, 0, appChannelNames.size);
+    notifyProgress(0, 0);
 
-    try {
-        console.log(`[EPG] Registered channels: ${appChannelNames.size}`);
-
-        await extractChannels(xml);
-        notifyProgress(30, 0, appChannelNames.size);
-        await yieldNow();
-
-        const matched = matchChannels();
-        notifyProgress(50, 0, matched.size);
-        await yieldNow();
-
-        await extractProgrammes(xml, matched);
-        notifyProgress(100, channelPrograms.size, matched.size);
-
-        loadError = null;
-        setState('loaded');
-        console.log(`[EPG] Load complete - ${channelPrograms.size} channels`);
-        notifyUpdate();
-
-        // If channels registered during loading, reload to pick them up
-        if (appChannelNames.size > channelsAtStart || needsReload) {
-            console.log('[EPG] New channels during load, scheduling reload');
-            needsReload = false;
-            setTimeout(() => {
-                if (loadState === 'loaded') loadFromCacheOrFetch();
-            }, 100);
-        }
-    } catch (e: any) {
-        console.error('[EPG] Parse error:', e);
-        loadError = e?.message || 'Erro ao processar EPG';
-        setState('error');
-        notifyProgress(0, 0, 0);
+    console.log(`[EPG] Registered channels: ${appChannelNames.size}`);
+    const build: GuideBuild = { feeds: [], bytesDone: 0 };
+    await readFeeds(build, false);
+    commitGuide(build);
+    // Fim da leitura: o total agora é conhecido
+    notifyProgress(lastBytes.read, lastBytes.read);
+
+    loadError = null;
+    setState('loaded');
+    console.log(`[EPG] Load complete - ${channelPrograms.size} channels`);
+    notifyUpdate();
+    fillFromProviders();
+
+    // If channels registered during loading, reload to pick them up
+    if (appChannelNames.size > channelsAtStart || needsReload) {
+        console.log('[EPG] New channels during load, scheduling reload');
+        needsReload = false;
+        setTimeout(() => {
+            if (loadState === 'loaded') loadFromCacheOrFetch();
+        }, 100);
     }
 }
 
@@ -357,79 +733,42 @@ function loadFromCacheOrFetch(): void {
         console.log('[EPG] Already loading, skip loadFromCacheOrFetch');
         return;
     }
+    if (!storesReady()) return;
+
+    // O guia processado só serve se todas as fontes ativas estão em cache e em dia
+    const feeds = enabledFeeds();
+    const allCached = feeds.length > 0 && feeds.every(f => usableFeedCache(f));
+    if (!parsedIndex) parsedIndex = loadParsedIndex();
+    if (allCached && parsedIndex && isParsedIndexValid(parsedIndex, feedsSignature(feeds), registeredPins())) {
+        useParsedGuide(parsedIndex);
+        return;
+    }
+
     isLoadingLocked = true;
     setState('loading');
     loadError = null;
-
-    const cached = readCachedSync();
-    const promise = cached
-        ? doLoadSync(cached)
-        : fetchAndLoadAsync(false);
-
-    promise
+    doLoad()
         .then(() => {
             console.log('[EPG] Load completed successfully');
         })
         .catch((e) => {
             console.error('[EPG] Load failed:', e);
-            if (channelPrograms.size === 0) {
+            if (getEPGLoadedCount() === 0) {
                 loadError = e?.message || 'Erro ao carregar EPG';
                 setState('error');
+            } else {
+                console.log('[EPG] Load failed but keeping current guide');
+                setState('loaded');
             }
+            notifyProgress(0, 0);
+            // Sem XMLTV, os provedores HTML ainda cobrem os canais mapeados
+            fillFromProviders();
         })
         .finally(() => {
             isLoadingLocked = false;
         });
 }
 
-async function fetchAndLoadAsync(silent: boolean = false): Promise<void> {
-    console.log(`[EPG] Starting async fetch (silent=${silent})...`);
-    if (!silent) {
-        loadError = null;
-        notifyProgress(0, channelPrograms.size, appChannelNames.size);
-    }
-
-    try {
-        const res = await fetch(EPG_XML_URL, { cache: 'no-cache' });
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-
-        const xml = await res.text();
-        console.log(`[EPG] Fetched ${xml.length} bytes`);
-
-        writeCachedSync(xml);
-        if (silent) {
-            // Parse silently — keep current loaded state, only emit update at end
-            await doLoadSilent(xml);
-        } else {
-            await doLoadSync(xml);
-        }
-    } catch (e: any) {
-        console.error('[EPG] Fetch error:', e);
-        if (silent) return; // silent failure — keep cached data
-        if (channelPrograms.size === 0) {
-            loadError = e?.message || 'Erro de conexão';
-            setState('error');
-        } else {
-            console.log('[EPG] Fetch failed but using cached data');
-            setState('loaded');
-        }
-        notifyProgress(channelPrograms.size > 0 ? 100 : 0, channelPrograms.size, appChannelNames.size);
-    }
-}
-
-async function doLoadSilent(xml: string): Promise<void> {
-    // Parse without flipping state — useful for background refresh of already-loaded data
-    try {
-        await extractChannels(xml);
-        const matched = matchChannels();
-        await extractProgrammes(xml, matched);
-        notifyUpdate();
-        console.log('[EPG] Silent refresh complete');
-    } catch (e) {
-        console.error('[EPG] Silent refresh failed:', e);
-    }
-}
-
 // ─── Public API ───────────────────────────────────────────────────────────────
 
 export function initEPGService(): void {
@@ -441,7 +780,7 @@ export function initEPGService(): void {
     // Always load (with reload check)
     if (loadState === 'loaded' && !needsReload) {
         console.log('[EPG] Already loaded and no changes needed');
-        notifyProgress(100, channelPrograms.size, appChannelNames.size);
+        notifyProgress(lastBytes.read, lastBytes.read);
         return;
     }
 
@@ -460,12 +799,30 @@ export async function refreshEPG(): Promise<void> {
 }
 
 export function getChannelEPG(appId: string): Program[] {
-    if (loadState !== 'loaded') return [];
+    const xmltv = xmltvPrograms(appId);
+    if (xmltv.length > 0) return xmltv;
+    return providerProgramsFor(appId);
+}
 
-    const xmlId = resolvedIds.get(appId);
-    if (!xmlId) return [];
+/**
+ * Programas que começaram nos últimos `days` dias (para o catch-up). Em memória fica
+ * só de ontem em diante; o que for mais antigo é lido do cache processado.
+ */
+export function getChannelArchive(appId: string, days: number): Program[] {
+    const now = Date.now();
+    const since = now - days * 86400000;
+    let list = getChannelEPG(appId);
+    const xmlId = canAnswer() ? resolveXmlId(appId) : null;
+    if (xmlId && parsedIndex?.guide[xmlId] && (list[0]?.startTime.getTime() ?? Infinity) > since) {
+        list = readParsedChannel(parsedIndex, xmlId, dayKey(new Date(since)));
+    }
+    return list.filter(p => p.startTime.getTime() >= since && p.startTime.getTime() < now);
+}
 
-    return channelPrograms.get(xmlId) ?? [];
+/** Quem forneceu a programação do canal: 'xmltv', um provedor HTML ou null */
+export function getEPGSource(appId: string): 'xmltv' | EPGProviderId | null {
+    if (hasXmltvGuide(appId)) return 'xmltv';
+    return providerProgramsFor(appId).length > 0 ? providerServed.get(appId) ?? null : null;
 }
 
 export async function fetchChannelEPG(appId: string): Promise<Program[]> {
@@ -494,41 +851,149 @@ export function getCurrentProgram(appId: string): CurrentProgram | null {
 }
 
 export function hasEPG(appId: string): boolean {
-    if (loadState !== 'loaded') return false;
-    const xmlId = resolvedIds.get(appId);
-    return !!xmlId && (channelPrograms.get(xmlId)?.length ?? 0) > 0;
+    return hasXmltvGuide(appId) || providerProgramsFor(appId).length > 0;
 }
 
 export function hasEPGMapping(appId: string): boolean { return hasEPG(appId); }
 export function hasFreshCache(appId: string): boolean { return hasEPG(appId); }
-export function getEPGLoadedCount(): number { return channelPrograms.size; }
+export function getEPGLoadedCount(): number {
+    return parsedIndex ? Object.keys(parsedIndex.guide).length : channelPrograms.size;
+}
 
 export async function clearEPGCache(): Promise<void> {
     console.log('[EPG] Clearing cache');
     channelPrograms.clear();
-    nameIndex.clear();
-    resolvedIds.clear();
+    xmlChannelList = [];
+    nameMatcher = null;
+    resolvedMatches.clear();
+    parsedIndex = null;
+    guideGeneration++;
+    clearParsedGuide();
+    providerPrograms.clear();
+    providerServed.clear();
+    clearProviderCaches();
     needsReload = true;
     setState('idle');
     loadError = null;
     loadProgress = 0;
-    try {
-        const dir = new Directory(Paths.document, 'epg_xmltv');
-        if (dir.exists) dir.delete();
-    } catch {}
-    notifyProgress(0, 0, 0);
+    lastBytes = { read: 0, total: 0 };
+    feedStatus.clear();
+    clearFeedCaches();
+    notifyProgress(0, 0);
 }
 
 export function getEPGStats() {
+    const channelSources: Record<string, 'xmltv' | EPGProviderId> = {};
+    const sourceCounts: Record<string, number> = {};
+    for (const appId of appChannelNames.keys()) {
+        const source = getEPGSource(appId);
+        if (!source) continue;
+        channelSources[appId] = source;
+        sourceCounts[source] = (sourceCounts[source] ?? 0) + 1;
+    }
     return {
         state: loadState,
         error: loadError,
         progress: loadProgress,
+        bytesRead: lastBytes.read,
         registeredChannels: appChannelNames.size,
-        xmlChannels: nameIndex.size,
-        matchedChannels: channelPrograms.size,
+        xmlChannels: xmlChannelList.length,
+        matchedChannels: getEPGLoadedCount(),
         programs: Array.from(channelPrograms.values()).reduce((s, p) => s + p.length, 0),
+        // Fonte de cada canal com programação e total por fonte
+        channelSources,
+        sourceCounts,
     };
 }
 
+/** Última leitura da fonte XMLTV (null se ainda não foi lida nesta sessão) */
+export function getEpgFeedStatus(feedId: string): EpgFeedStatus | null {
+    return feedStatus.get(feedId) ?? null;
+}
+
+// ─── Programme Search ─────────────────────────────────────────────────────────
+
+export interface ProgramSearchResult {
+    appId: string;
+    program: Program;
+}
+
+// Texto normalizado de cada programa, para não refazer a cada tecla digitada
+const foldedPrograms = new WeakMap<Program, string>();
+
+function programText(p: Program): string {
+    let text = foldedPrograms.get(p);
+    if (text === undefined) {
+        const categories = p.categories?.join(' ') ?? p.category ?? '';
+        text = foldText(`${p.title} ${p.episodeInfo?.episodeTitle ?? ''} ${p.description ?? ''} ${categories}`);
+        foldedPrograms.set(p, text);
+    }
+    return text;
+}
+
+/**
+ * Busca por título, episódio, descrição e categorias do agora até 7 dias à frente, sem acento
+ * nem caixa; todas as palavras precisam aparecer. Canais ainda não lidos do cache
+ * processado são carregados do disco aos poucos.
+ */
+export async function searchPrograms(
+    query: string,
+    appIds: string[] = Array.from(appChannelNames.keys()),
+    limit = 300,
+): Promise<ProgramSearchResult[]> {
+    const terms = foldText(query).split(' ').filter(Boolean);
+    if (terms.length === 0) return [];
+    const now = Date.now();
+    const until = now + 7 * 86400000;
+    const results: ProgramSearchResult[] = [];
+
+    for (let i = 0; i < appIds.length; i++) {
+        for (const program of getChannelEPG(appIds[i])) {
+            if (program.endTime.getTime() <= now || program.startTime.getTime() > until) continue;
+            const text = programText(program);
+            if (terms.every(t => text.includes(t))) results.push({ appId: appIds[i], program });
+        }
+        if (i % 25 === 24) await yieldNow();
+    }
+    results.sort((a, b) => a.program.startTime.getTime() - b.program.startTime.getTime());
+    return results.slice(0, limit);
+}
+
+// ─── Channel Matching ─────────────────────────────────────────────────────────
+
+export interface EpgMatchInfo {
+    appId: string;
+    name: string;
+    xmlId: string | null;
+    /** Primeiro display-name do canal no XML */
+    xmlName: string | null;
+    method: EpgMatchMethod;
+}
+
+/** Situação do casamento de cada canal registrado (vazio até o primeiro guia) */
+export function getEpgMatchList(): EpgMatchInfo[] {
+    const xmlNames = new Map(xmlChannelList.map(ch => [ch.id, ch.names[0] ?? ch.id]));
+    return Array.from(appChannelNames, ([appId, name]) => {
+        const match = matchOf(appId);
+        const xmlId = match?.xmlId ?? null;
+        return {
+            appId,
+            name,
+            xmlId,
+            xmlName: xmlId ? xmlNames.get(xmlId) ?? xmlId : null,
+            method: match?.method ?? 'none',
+        };
+    });
+}
+
+export function getXmltvChannels(): XmltvChannelRef[] {
+    return xmlChannelList;
+}
+
+/** Canais do XML mais parecidos com o nome, para a escolha manual */
+export function suggestEpgChannels(name: string, limit = 8): EpgSuggestion[] {
+    if (!nameMatcher) nameMatcher = new EpgNameMatcher(xmlChannelList);
+    return nameMatcher.suggest(name, limit);
+}
+
 export async function prefetchEPG(_ids: string[]): Promise<void> {}
@@ -0,0 +1,144 @@
+// Leitura de playlists HLS ao vivo — usada pelo timeshift e pelas gravações
+
+const FETCH_TIMEOUT_MS = 10000;
+const SEGMENT_TIMEOUT_MS = 30000;
+
+export interface HlsSegment {
+    seq: number;
+    url: string;
+    duration: number;
+    discontinuity: boolean;
+    /** Linha EXT-X-KEY já com URI absoluta e IV explícito */
+    key: string | null;
+    map: string | null;
+}
+
+/** Lê uma playlist com timeout */
+export async function fetchPlaylistText(url: string, headers?: Record<string, string>): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const res = await fetch(url, { headers, signal: controller.signal });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return await res.text();
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/** Baixa um segmento (ou EXT-X-MAP) com timeout — servidor travado vira falha, não espera infinita */
+export async function fetchSegmentBytes(url: string, headers?: Record<string, string>): Promise<Uint8Array> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), SEGMENT_TIMEOUT_MS);
+    try {
+        const res = await fetch(url, { headers, signal: controller.signal });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return new Uint8Array(await res.arrayBuffer());
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Playlist de mídia de um canal: segue a playlist master até a variante escolhida.
+ * Erros "unsupported" não adiantam tentar de novo.
+ */
+export async function loadMediaPlaylist(
+    url: string,
+    headers?: Record<string, string>,
+): Promise<{ url: string; body: string }> {
+    const body = await fetchPlaylistText(url, headers);
+    if (!body.trimStart().startsWith('#EXTM3U')) throw new Error('unsupported stream: not HLS');
+    if (!body.includes('#EXT-X-STREAM-INF')) return { url, body };
+    const variant = pickVariant(body, url);
+    if (!variant) throw new Error('unsupported stream: no usable variant');
+    return { url: variant, body: await fetchPlaylistText(variant, headers) };
+}
+
+export function resolveUrl(ref: string, base: string): string {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(ref)) return ref;
+    const origin = base.match(/^([a-z][a-z0-9+.-]*:)\/\/[^/?#]+/i);
+    if (!origin) return ref;
+    if (ref.startsWith('//')) return origin[1] + ref;
+    if (ref.startsWith('/')) return origin[0] + ref;
+    const dir = base.split(/[?#]/)[0].replace(/[^/]*$/, '');
+    return dir + ref;
+}
+
+export function parseAttrs(line: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(line)) !== null) attrs[m[1]] = m[2].replace(/^"|"$/g, '');
+    return attrs;
+}
+
+/** Variante de maior BANDWIDTH que traz o áudio junto (grupos de áudio separados não são copiados) */
+export function pickVariant(body: string, base: string): string | null {
+    const lines = body.split(/\r?\n/).map(l => l.trim());
+    const separateAudio = new Set<string>();
+    for (const line of lines) {
+        if (!line.startsWith('#EXT-X-MEDIA:')) continue;
+        const a = parseAttrs(line);
+        if (a['TYPE'] === 'AUDIO' && a['URI']) separateAudio.add(a['GROUP-ID']);
+    }
+    let best: { url: string; bandwidth: number } | null = null;
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+        const a = parseAttrs(lines[i]);
+        const uri = lines.slice(i + 1).find(l => l && !l.startsWith('#'));
+        if (!uri || (a['AUDIO'] && separateAudio.has(a['AUDIO']))) continue;
+        const bandwidth = parseInt(a['BANDWIDTH'] ?? '0', 10) || 0;
+        if (!best || bandwidth > best.bandwidth) best = { url: resolveUrl(uri, base), bandwidth };
+    }
+    return best?.url ?? null;
+}
+
+/** Segmentos da playlist de mídia; a chave AES sem IV usa o número de sequência original */
+export function parseMediaPlaylist(body: string, base: string): { targetDuration: number; segments: HlsSegment[] } {
+    const segments: HlsSegment[] = [];
+    let seq = 0;
+    let targetDuration = 0;
+    let duration = 0;
+    let discontinuity = false;
+    let key: Record<string, string> | null = null;
+    let map: string | null = null;
+
+    for (const raw of body.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line) continue;
+        if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+            seq = parseInt(line.slice(22), 10) || 0;
+        } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+            targetDuration = parseFloat(line.slice(22)) || 0;
+        } else if (line.startsWith('#EXTINF:')) {
+            duration = parseFloat(line.slice(8)) || 0;
+        } else if (line === '#EXT-X-DISCONTINUITY') {
+            discontinuity = true;
+        } else if (line.startsWith('#EXT-X-KEY:')) {
+            const a = parseAttrs(line);
+            if (a['METHOD'] === 'NONE') key = null;
+            else if (a['METHOD'] === 'AES-128' && a['URI']) key = { ...a, URI: resolveUrl(a['URI'], base) };
+            else throw new Error(`unsupported encryption ${a['METHOD']}`);
+        } else if (line.startsWith('#EXT-X-MAP:')) {
+            const uri = parseAttrs(line)['URI'];
+            map = uri ? resolveUrl(uri, base) : null;
+        } else if (!line.startsWith('#')) {
+            let keyLine: string | null = null;
+            if (key) {
+                const iv = key['IV'] ?? `0x${seq.toString(16).padStart(32, '0')}`;
+                keyLine = `#EXT-X-KEY:METHOD=AES-128,URI="${key['URI']}",IV=${iv}`;
+            }
+            segments.push({ seq, url: resolveUrl(line, base), duration, discontinuity, key: keyLine, map });
+            seq++;
+            duration = 0;
+            discontinuity = false;
+        }
+    }
+    return { targetDuration, segments };
+}
+
+export function segmentExtension(url: string): string {
+    const m = url.split(/[?#]/)[0].match(/\.(ts|aac|m4s|mp4|m4a|m4v|mp3)$/i);
+    return m ? m[1].toLowerCase() : 'ts';
+}
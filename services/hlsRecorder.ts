@@ -0,0 +1,167 @@
+// Gravação de canal ao vivo (DVR) — acompanha a playlist HLS e anexa cada segmento novo a um único arquivo
+import { File as FSFile, type FileHandle } from 'expo-file-system';
+import {
+    fetchPlaylistText,
+    fetchSegmentBytes,
+    loadMediaPlaylist,
+    parseMediaPlaylist,
+    type HlsSegment,
+} from './hlsPlaylist';
+
+const MIN_POLL_MS = 2000;
+// Falhas seguidas até desistir da gravação
+const MAX_FAILURES = 8;
+// Segmentos pegos na primeira leitura — a gravação começa perto do ao vivo
+const INITIAL_SEGMENTS = 3;
+
+export interface RecordingProgress {
+    bytesWritten: number;
+    recordedSeconds: number;
+    /** Arquivo de destino — .mp4 quando o stream é fMP4 (EXT-X-MAP) */
+    path: string;
+    /** Último segmento anexado (-1 = nenhum) — é de onde a gravação retoma */
+    lastSeq: number;
+}
+
+export interface HlsRecorderOptions {
+    /** Último segmento já no arquivo, de uma sessão anterior */
+    resumeAfter?: number;
+    onProgress?: (p: RecordingProgress) => void;
+}
+
+/**
+ * Grava um stream HLS até `endTime` (ms) ou `stop()`. Segmentos anexados em ordem formam um
+ * arquivo tocável: .ts para MPEG-TS, .mp4 para fMP4. Se o arquivo já existir (app reiniciado no
+ * meio), a gravação continua no fim dele a partir do segmento seguinte a `resumeAfter`.
+ * Streams criptografados não são gravados.
+ */
+export class HlsRecorder {
+    private stopped = false;
+    private aborted = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private wake: (() => void) | null = null;
+    private progress: RecordingProgress;
+
+    constructor(
+        private url: string,
+        private headers: Record<string, string> | undefined,
+        destPath: string,
+        private endTime: number,
+        private options: HlsRecorderOptions = {},
+    ) {
+        this.progress = { bytesWritten: 0, recordedSeconds: 0, path: destPath, lastSeq: options.resumeAfter ?? -1 };
+    }
+
+    /** Resolve com o total gravado; rejeita com `aborted` quando cancelada */
+    async start(): Promise<RecordingProgress> {
+        let handle: FileHandle | null = null;
+        let mediaUrl: string | null = null;
+        let lastMap: string | null = null;
+        let failures = 0;
+        try {
+            while (!this.stopped && !this.aborted && Date.now() < this.endTime) {
+                let pollMs = MIN_POLL_MS;
+                try {
+                    const media: { url: string; body: string } = mediaUrl
+                        ? { url: mediaUrl, body: await fetchPlaylistText(mediaUrl, this.headers) }
+                        : await loadMediaPlaylist(this.url, this.headers);
+                    mediaUrl = media.url;
+                    const { targetDuration, segments } = parseMediaPlaylist(media.body, media.url);
+                    pollMs = Math.max(MIN_POLL_MS, (targetDuration || 4) * 1000 / 2);
+                    const last = segments[segments.length - 1];
+                    if (last) {
+                        // Só abre o arquivo sabendo o formato do stream
+                        handle ??= this.open(segments.some(s => s.map));
+                        const lastSeq = this.progress.lastSeq;
+                        let fresh: HlsSegment[];
+                        if (lastSeq >= 0 && last.seq >= lastSeq) {
+                            fresh = segments.filter(s => s.seq > lastSeq);
+                        } else if (lastSeq < 0 && this.progress.bytesWritten > 0) {
+                            // Retomando sem saber o último segmento: segue do ao vivo sem repetir o fim do arquivo
+                            this.progress.lastSeq = last.seq;
+                            fresh = [];
+                        } else {
+                            // Arquivo novo ou servidor reiniciou a numeração
+                            fresh = segments.slice(-INITIAL_SEGMENTS);
+                        }
+
+                        for (const seg of fresh) {
+                            if (this.stopped || this.aborted) break;
+                            if (seg.key) throw new Error('unsupported stream: encrypted');
+                            if (seg.map && seg.map !== lastMap) {
+                                // fMP4: o segmento de inicialização vai antes dos fragmentos (só no arquivo novo)
+                                if (this.progress.bytesWritten === 0 || lastMap) {
+                                    this.write(handle, await fetchSegmentBytes(seg.map, this.headers), 0);
+                                }
+                                lastMap = seg.map;
+                            }
+                            this.write(handle, await fetchSegmentBytes(seg.url, this.headers), seg.duration, seg.seq);
+                        }
+                    }
+                    failures = 0;
+                } catch (e: any) {
+                    if (this.aborted) break;
+                    const message = String(e?.message ?? e);
+                    console.warn('[Recorder] Update failed:', message);
+                    if (/unsupported/.test(message) || ++failures >= MAX_FAILURES) throw new Error(message);
+                }
+                await this.wait(Math.min(pollMs, Math.max(0, this.endTime - Date.now())));
+            }
+        } finally {
+            handle?.close();
+        }
+        if (this.aborted) throw new Error('aborted');
+        return { ...this.progress };
+    }
+
+    /** Abre o destino no fim; arquivo novo de stream fMP4 vira .mp4 */
+    private open(fmp4: boolean): FileHandle {
+        let file = new FSFile(this.progress.path);
+        if (!file.exists) {
+            if (fmp4) {
+                this.progress.path = this.progress.path.replace(/\.ts$/, '.mp4');
+                file = new FSFile(this.progress.path);
+            }
+            file.create({ intermediates: true });
+        }
+        const handle = file.open();
+        handle.offset = handle.size ?? 0;
+        this.progress.bytesWritten = handle.offset;
+        return handle;
+    }
+
+    /** Termina a gravação e mantém o que já foi gravado */
+    stop(): void {
+        this.stopped = true;
+        this.wakeUp();
+    }
+
+    /** Cancela; quem chamou apaga o arquivo */
+    abort(): void {
+        this.aborted = true;
+        this.wakeUp();
+    }
+
+    private write(handle: FileHandle, bytes: Uint8Array, duration: number, seq?: number): void {
+        if (this.aborted) return;
+        handle.writeBytes(bytes);
+        this.progress.bytesWritten += bytes.length;
+        this.progress.recordedSeconds += duration;
+        if (seq !== undefined) this.progress.lastSeq = seq;
+        this.options.onProgress?.({ ...this.progress });
+    }
+
+    private wait(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            this.wake = resolve;
+            this.timer = setTimeout(resolve, ms);
+        });
+    }
+
+    private wakeUp(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.wake?.();
+        this.wake = null;
+    }
+}
@@ -0,0 +1,261 @@
+// Parser de playlists M3U/M3U8 (formato IPTV estendido) → Channel[]
+import type { Channel, ChannelDRM, ChannelStream } from '../types';
+import { parseM3uCatchup } from './catchupService';
+
+export interface ParsedPlaylist {
+    channels: Channel[];
+    /** url-tvg / x-tvg-url declarado no cabeçalho #EXTM3U */
+    epgUrl?: string;
+}
+
+export interface ParseOptions {
+    /** Prefixo usado nos ids gerados (ex.: id da playlist) */
+    idPrefix: string;
+    /** Categoria usada quando a entrada não tem group-title */
+    defaultCategory?: string;
+}
+
+interface PendingEntry {
+    name: string;
+    attrs: Record<string, string>;
+    group?: string;
+    headers: Record<string, string>;
+    licenseType?: string;
+    licenseKey?: string;
+}
+
+// Opções #EXTVLCOPT → header HTTP
+const VLC_HEADER_OPTS: Record<string, string> = {
+    'http-user-agent': 'User-Agent',
+    'http-referrer': 'Referer',
+    'http-referer': 'Referer',
+    'http-origin': 'Origin',
+    'http-cookie': 'Cookie',
+};
+
+function slug(s: string): string {
+    return s
+        .normalize('NFD')
+        .replace(/[̀-ͯ]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+function parseAttributes(s: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const re = /([\w-]+)=("([^"]*)"|'([^']*)'|([^\s,]+))/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(s)) !== null) {
+        attrs[m[1].toLowerCase()] = (m[3] ?? m[4] ?? m[5] ?? '').trim();
+    }
+    return attrs;
+}
+
+/** Divide `#EXTINF:-1 attr="a,b",Nome` em atributos e nome (vírgula fora de aspas) */
+function splitExtinf(body: string): { attrPart: string; name: string } {
+    let inQuote = false;
+    for (let i = 0; i < body.length; i++) {
+        const c = body[i];
+        if (c === '"') inQuote = !inQuote;
+        else if (c === ',' && !inQuote) {
+            return { attrPart: body.slice(0, i), name: body.slice(i + 1).trim() };
+        }
+    }
+    return { attrPart: body, name: '' };
+}
+
+/** `User-Agent=x&Referer=y` → headers (valores podem vir url-encoded) */
+export function parseHeaderString(s: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const pair of s.split('&')) {
+        const eq = pair.indexOf('=');
+        if (eq <= 0) continue;
+        const key = pair.slice(0, eq).trim();
+        let value = pair.slice(eq + 1).trim();
+        try { value = decodeURIComponent(value); } catch {}
+        if (key && value) headers[key] = value;
+    }
+    return headers;
+}
+
+function normalizeHeaderName(key: string): string {
+    const lower = key.toLowerCase();
+    if (lower === 'user-agent') return 'User-Agent';
+    if (lower === 'referer' || lower === 'referrer') return 'Referer';
+    if (lower === 'origin') return 'Origin';
+    if (lower === 'cookie') return 'Cookie';
+    return key;
+}
+
+function withHeaders(target: Record<string, string>, src: Record<string, string>): void {
+    for (const [k, v] of Object.entries(src)) target[normalizeHeaderName(k)] = v;
+}
+
+function buildDRM(entry: PendingEntry): ChannelDRM | undefined {
+    if (!entry.licenseKey) return undefined;
+    const type = (entry.licenseType ?? '').toLowerCase();
+    if (type.includes('widevine')) {
+        // Formato Kodi: url|headers|R{SSM}|response — usa a URL e os headers da licença
+        const [url, headerPart] = entry.licenseKey.split('|');
+        const licenseHeaders: Record<string, string> = {};
+        if (headerPart) withHeaders(licenseHeaders, parseHeaderString(headerPart));
+        return {
+            widevine: url,
+            licenseHeaders: Object.keys(licenseHeaders).length > 0 ? licenseHeaders : undefined,
+        };
+    }
+    // clearkey / org.w3.clearkey ou sem license_type explícito
+    return { clearKey: entry.licenseKey };
+}
+
+/**
+ * Converte o texto de uma playlist M3U em canais.
+ * Entradas repetidas (mesmo tvg-id/nome na mesma categoria) viram streams
+ * alternativos do mesmo canal.
+ */
+export function parseM3U(text: string, options: ParseOptions): ParsedPlaylist {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const byKey = new Map<string, Channel>();
+    const usedIds = new Set<string>();
+    const result: Channel[] = [];
+    let epgUrl: string | undefined;
+    // Atributos do #EXTM3U (catch-up declarado para a lista toda)
+    let headerAttrs: Record<string, string> = {};
+    let pending: PendingEntry | null = null;
+    let currentGroup: string | undefined;
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        if (line.startsWith('#EXTM3U')) {
+            const attrs = parseAttributes(line.slice(7));
+            epgUrl = attrs['url-tvg'] || attrs['x-tvg-url'] || epgUrl;
+            headerAttrs = { ...headerAttrs, ...attrs };
+            continue;
+        }
+
+        if (line.startsWith('#EXTINF:')) {
+            const { attrPart, name } = splitExtinf(line.slice(8));
+            const attrs = parseAttributes(attrPart);
+            pending = {
+                name: name || attrs['tvg-name'] || '',
+                attrs,
+                group: currentGroup,
+                headers: {},
+            };
+            continue;
+        }
+
+        if (line.startsWith('#EXTGRP:')) {
+            currentGroup = line.slice(8).trim() || undefined;
+            if (pending && !pending.attrs['group-title']) pending.group = currentGroup;
+            continue;
+        }
+
+        if (line.startsWith('#EXTVLCOPT:')) {
+            if (!pending) continue;
+            const opt = line.slice(11);
+            const eq = opt.indexOf('=');
+            if (eq <= 0) continue;
+            const header = VLC_HEADER_OPTS[opt.slice(0, eq).trim().toLowerCase()];
+            if (header) pending.headers[header] = opt.slice(eq + 1).trim();
+            continue;
+        }
+
+        if (line.startsWith('#KODIPROP:')) {
+            if (!pending) continue;
+            const prop = line.slice(10);
+            const eq = prop.indexOf('=');
+            if (eq <= 0) continue;
+            const key = prop.slice(0, eq).trim().toLowerCase();
+            const value = prop.slice(eq + 1).trim();
+            if (key === 'inputstream.adaptive.license_type') pending.licenseType = value;
+            else if (key === 'inputstream.adaptive.license_key') pending.licenseKey = value;
+            else if (key === 'inputstream.adaptive.stream_headers' || key === 'inputstream.adaptive.common_headers') {
+                withHeaders(pending.headers, parseHeaderString(value));
+            }
+            continue;
+        }
+
+        if (line.startsWith('#EXTHTTP:')) {
+            if (!pending) continue;
+            try {
+                const json = JSON.parse(line.slice(9));
+                const headers: Record<string, string> = {};
+                for (const [k, v] of Object.entries(json)) {
+                    if (typeof v === 'string') headers[k] = v;
+                }
+                withHeaders(pending.headers, headers);
+            } catch {}
+            continue;
+        }
+
+        if (line.startsWith('#')) continue;
+
+        // Linha de URL — fecha a entrada pendente
+        if (!pending) continue;
+        const entry: PendingEntry = pending;
+        pending = null;
+
+        let url = line;
+        const pipe = url.indexOf('|');
+        if (pipe > 0) {
+            withHeaders(entry.headers, parseHeaderString(url.slice(pipe + 1)));
+            url = url.slice(0, pipe);
+        }
+        if (!entry.name) continue;
+
+        const category = entry.attrs['group-title'] || entry.group || options.defaultCategory || 'Outros';
+        const tvgId = entry.attrs['tvg-id'] || undefined;
+        const stream: ChannelStream = {
+            url,
+            headers: Object.keys(entry.headers).length > 0 ? entry.headers : undefined,
+        };
+        const key = `${category}|${tvgId ?? ''}|${entry.name.toLowerCase()}`;
+
+        const catchup = parseM3uCatchup(entry.attrs, headerAttrs);
+
+        const existing = byKey.get(key);
+        if (existing) {
+            // Arquivo diferente do canal fica no próprio stream
+            if (catchup?.source !== existing.catchup?.source || catchup?.mode !== existing.catchup?.mode) {
+                stream.catchup = catchup ?? null;
+            }
+            existing.streams = [...(existing.streams ?? []), stream];
+            if (!existing.drm) existing.drm = buildDRM(entry);
+            continue;
+        }
+
+        const base = `${options.idPrefix}-${slug(tvgId || entry.name) || 'canal'}`;
+        let id = base;
+        for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+        usedIds.add(id);
+
+        const chno = parseInt(entry.attrs['tvg-chno'] ?? '', 10);
+        const channel: Channel = {
+            id,
+            name: entry.name,
+            url: stream.url,
+            category,
+            logo: entry.attrs['tvg-logo'] || '',
+            channelNumber: Number.isFinite(chno) ? chno : undefined,
+            drm: buildDRM(entry),
+            headers: stream.headers,
+            streams: [stream],
+            epgId: tvgId,
+            catchup,
+        };
+        byKey.set(key, channel);
+        result.push(channel);
+    }
+
+    return { channels: result, epgUrl };
+}
+
+/** Heurística rápida para validar conteúdo baixado antes de salvar */
+export function looksLikeM3U(text: string): boolean {
+    const head = text.replace(/^\uFEFF/, '').trimStart().slice(0, 512);
+    return head.startsWith('#EXTM3U') || head.includes('#EXTINF');
+}
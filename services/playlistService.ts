@@ -0,0 +1,98 @@
+// Serviço de playlists M3U do usuário — download, arquivo local e cache em disco
+import type { Channel } from '../types';
+import { Paths, File as FSFile, Directory } from 'expo-file-system';
+import { parseM3U, looksLikeM3U, type ParsedPlaylist } from './m3uParser';
+
+const FETCH_TIMEOUT_MS = 30000;
+
+// ============================================================
+// Leitura de playlists (URL ou arquivo)
+// ============================================================
+
+/** Baixa e interpreta uma playlist remota */
+export async function fetchPlaylist(url: string, idPrefix: string, defaultCategory?: string): Promise<ParsedPlaylist> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const res = await fetch(url, {
+            headers: { 'User-Agent': 'VLC/3.0.20 LibVLC/3.0.20' },
+            signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const text = await res.text();
+        if (!looksLikeM3U(text)) throw new Error('O conteúdo baixado não é uma playlist M3U');
+        return parseM3U(text, { idPrefix, defaultCategory });
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/** Abre o seletor de arquivos do sistema. Retorna a URI ou null se o usuário cancelar. */
+export async function pickPlaylistFile(): Promise<string | null> {
+    try {
+        const picked = await FSFile.pickFileAsync();
+        const file = Array.isArray(picked) ? picked[0] : picked;
+        return file?.uri ?? null;
+    } catch (e: any) {
+        if (String(e?.message ?? '').toLowerCase().includes('cancel')) return null;
+        throw e;
+    }
+}
+
+/** Interpreta uma playlist já presente no aparelho */
+export function readPlaylistFile(uri: string, idPrefix: string, defaultCategory?: string): ParsedPlaylist {
+    const file = new FSFile(uri);
+    if (!file.exists) throw new Error('Arquivo da playlist não encontrado');
+    const text = file.textSync();
+    if (!looksLikeM3U(text)) throw new Error('O arquivo selecionado não é uma playlist M3U');
+    return parseM3U(text, { idPrefix, defaultCategory });
+}
+
+// ============================================================
+// Cache em disco dos canais já interpretados
+// ============================================================
+
+function getPlaylistDir(): Directory {
+    const dir = new Directory(Paths.document, 'playlists');
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    return dir;
+}
+
+/** Copia o arquivo escolhido para o diretório do app (o original pode sumir) */
+export function copyPlaylistFile(sourceUri: string, playlistId: string): string {
+    const dest = new FSFile(getPlaylistDir(), `${playlistId}.m3u`);
+    if (dest.exists) dest.delete();
+    new FSFile(sourceUri).copy(dest);
+    return dest.uri;
+}
+
+export function savePlaylistChannels(playlistId: string, channels: Channel[]): void {
+    try {
+        const file = new FSFile(getPlaylistDir(), `${playlistId}.json`);
+        file.create({ overwrite: true });
+        file.write(JSON.stringify(channels));
+    } catch (e) {
+        console.warn('[Playlist] save falhou:', playlistId, e);
+    }
+}
+
+export function loadPlaylistChannels(playlistId: string): Channel[] {
+    try {
+        const file = new FSFile(getPlaylistDir(), `${playlistId}.json`);
+        if (!file.exists || file.size === 0) return [];
+        const data = JSON.parse(file.textSync());
+        return Array.isArray(data) ? data : [];
+    } catch (e) {
+        console.warn('[Playlist] load falhou:', playlistId, e);
+        return [];
+    }
+}
+
+export function deletePlaylistFiles(playlistId: string): void {
+    for (const name of [`${playlistId}.json`, `${playlistId}.m3u`]) {
+        try {
+            const file = new FSFile(getPlaylistDir(), name);
+            if (file.exists) file.delete();
+        } catch {}
+    }
+}
@@ -0,0 +1,150 @@
+// Lista Pro (lista_pro.json) — cache em disco com revalidação ETag/Last-Modified
+import { Paths, File as FSFile, Directory } from 'expo-file-system';
+import type { Channel } from '../types';
+
+const PRO_LIST_URL = 'https://raw.githubusercontent.com/gabrielsaimo/Saimo-TV/main/public/data/lista_pro.json';
+const FETCH_TIMEOUT_MS = 20000;
+
+export interface ProListMeta {
+    /** Incrementa a cada conteúdo novo baixado */
+    version: number;
+    /** Hash do conteúdo — detecta mudança mesmo se o servidor ignorar ETag */
+    hash: string;
+    etag?: string;
+    lastModified?: string;
+    fetchedAt: number;
+    channelCount: number;
+}
+
+export interface ProListDiff {
+    added: number;
+    removed: number;
+    changed: number;
+}
+
+export type ProListFetchResult =
+    | { status: 'not-modified'; meta: ProListMeta }
+    | { status: 'updated'; channels: Channel[]; meta: ProListMeta; diff: ProListDiff | null };
+
+function getProListDir(): Directory {
+    const dir = new Directory(Paths.document, 'prolist');
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    return dir;
+}
+
+// djb2 — suficiente para comparar versões da lista
+function hashText(text: string): string {
+    let h = 5381;
+    for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+    return (h >>> 0).toString(16);
+}
+
+export function loadCachedProList(): { channels: Channel[]; meta: ProListMeta } | null {
+    try {
+        const dataFile = new FSFile(getProListDir(), 'lista_pro.json');
+        const metaFile = new FSFile(getProListDir(), 'meta.json');
+        if (!dataFile.exists || !metaFile.exists || dataFile.size === 0) return null;
+        const channels = JSON.parse(dataFile.textSync());
+        const meta = JSON.parse(metaFile.textSync()) as ProListMeta;
+        return Array.isArray(channels) ? { channels, meta } : null;
+    } catch (e) {
+        console.warn('[ProList] cache corrompido:', e);
+        return null;
+    }
+}
+
+function saveProList(text: string, meta: ProListMeta): void {
+    try {
+        const dataFile = new FSFile(getProListDir(), 'lista_pro.json');
+        dataFile.create({ overwrite: true });
+        dataFile.write(text);
+        saveMeta(meta);
+    } catch (e) {
+        console.warn('[ProList] save falhou:', e);
+    }
+}
+
+function saveMeta(meta: ProListMeta): void {
+    const metaFile = new FSFile(getProListDir(), 'meta.json');
+    metaFile.create({ overwrite: true });
+    metaFile.write(JSON.stringify(meta));
+}
+
+export function diffProLists(prev: Channel[], next: Channel[]): ProListDiff {
+    const prevById = new Map(prev.map(ch => [ch.id, ch]));
+    const nextIds = new Set(next.map(ch => ch.id));
+    let added = 0;
+    let changed = 0;
+    for (const ch of next) {
+        const old = prevById.get(ch.id);
+        if (!old) added++;
+        else if (old.url !== ch.url || old.name !== ch.name || old.category !== ch.category) changed++;
+    }
+    const removed = prev.filter(ch => !nextIds.has(ch.id)).length;
+    return { added, removed, changed };
+}
+
+/** "12 canais novos, 3 removidos" — null quando nada mudou */
+export function formatProListDiff(diff: ProListDiff): string | null {
+    const parts: string[] = [];
+    if (diff.added) parts.push(`${diff.added} ${diff.added === 1 ? 'canal novo' : 'canais novos'}`);
+    if (diff.removed) parts.push(`${diff.removed} ${diff.removed === 1 ? 'removido' : 'removidos'}`);
+    if (diff.changed) parts.push(`${diff.changed} ${diff.changed === 1 ? 'atualizado' : 'atualizados'}`);
+    return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Revalida a lista Pro contra o servidor. Com `cached`, envia If-None-Match /
+ * If-Modified-Since e compara o conteúdo para montar o resumo de mudanças.
+ */
+export async function fetchProList(
+    cached: { channels: Channel[]; meta: ProListMeta } | null,
+): Promise<ProListFetchResult> {
+    const headers: Record<string, string> = {};
+    if (cached?.meta.etag) headers['If-None-Match'] = cached.meta.etag;
+    if (cached?.meta.lastModified) headers['If-Modified-Since'] = cached.meta.lastModified;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const res = await fetch(PRO_LIST_URL, { headers, signal: controller.signal });
+        const etag = res.headers.get('etag') ?? undefined;
+        const lastModified = res.headers.get('last-modified') ?? undefined;
+
+        if (res.status === 304 && cached) {
+            const meta = { ...cached.meta, fetchedAt: Date.now(), etag: etag ?? cached.meta.etag };
+            saveMeta(meta);
+            return { status: 'not-modified', meta };
+        }
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+        const text = await res.text();
+        const hash = hashText(text);
+        if (cached && cached.meta.hash === hash) {
+            const meta = { ...cached.meta, etag, lastModified, fetchedAt: Date.now() };
+            saveMeta(meta);
+            return { status: 'not-modified', meta };
+        }
+
+        const channels = JSON.parse(text);
+        if (!Array.isArray(channels)) throw new Error('Lista Pro inválida');
+        const meta: ProListMeta = {
+            version: (cached?.meta.version ?? 0) + 1,
+            hash,
+            etag,
+            lastModified,
+            fetchedAt: Date.now(),
+            channelCount: channels.length,
+        };
+        saveProList(text, meta);
+        console.log(`[ProList] v${meta.version}: ${channels.length} canais`);
+        return {
+            status: 'updated',
+            channels,
+            meta,
+            diff: cached ? diffProLists(cached.channels, channels) : null,
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
@@ -0,0 +1,75 @@
+// Agenda das gravações: na hora do início (com a margem), a gravação vira tarefa do downloadManager
+import { AppState } from 'react-native';
+import type { ScheduledRecording } from '../types';
+import { useRecordingStore, recordingWindow } from '../stores/recordingStore';
+import { useChannelStore } from '../stores/channelStore';
+import { downloadManager } from './downloadManager';
+import { channelMatchesId } from './channelMerge';
+
+// setTimeout longo demais não é confiável no Android — reavalia pelo menos a cada 15 min
+const MAX_TIMER_MS = 15 * 60000;
+// Canal ainda não carregado (fontes abrindo): tenta de novo em seguida
+const CHANNEL_RETRY_MS = 30000;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let running = false;
+
+function findChannel(recording: ScheduledRecording) {
+    return useChannelStore.getState().getAllChannels(true, true)
+        .find(ch => channelMatchesId(ch, recording.channelId));
+}
+
+function run(): void {
+    // removeRecording abaixo dispara o subscribe — a rodada atual já reagenda o timer
+    if (running) return;
+    running = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    try {
+        const store = useRecordingStore.getState();
+        store.pruneRecordings();
+        const now = Date.now();
+        let next = Infinity;
+        for (const recording of useRecordingStore.getState().recordings) {
+            const { start, end } = recordingWindow(recording);
+            if (start > now) {
+                next = Math.min(next, start);
+                continue;
+            }
+            const channel = findChannel(recording);
+            if (!channel) {
+                next = Math.min(next, now + CHANNEL_RETRY_MS);
+                continue;
+            }
+            store.removeRecording(recording.id);
+            downloadManager.enqueueRecording(channel, { title: recording.title, start: now, end })
+                .catch((e) => console.warn('[Recordings] Could not start:', recording.title, e?.message ?? e));
+        }
+        if (Number.isFinite(next)) timer = setTimeout(run, Math.min(MAX_TIMER_MS, Math.max(1000, next - now)));
+    } finally {
+        running = false;
+    }
+}
+
+/**
+ * Começa a acompanhar a agenda. Só funciona com o app aberto; a notificação do início
+ * traz o usuário de volta se ele estiver fechado. Retorna a função que para o acompanhamento.
+ */
+export function startRecordingScheduler(): () => void {
+    const unsubHydration = useRecordingStore.persist.onFinishHydration(run);
+    if (useRecordingStore.persist.hasHydrated()) run();
+    // Agendar/cancelar refaz o timer
+    const unsubStore = useRecordingStore.subscribe((state, prev) => {
+        if (state.recordings !== prev.recordings) run();
+    });
+    const appState = AppState.addEventListener('change', (next) => {
+        if (next === 'active') run();
+    });
+    return () => {
+        unsubHydration();
+        unsubStore();
+        appState.remove();
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+}
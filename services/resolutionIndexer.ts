@@ -0,0 +1,96 @@
+// Índice de resolução em segundo plano — lê o manifesto dos canais que ainda não têm resolução medida
+import { AppState } from 'react-native';
+import type { Channel } from '../types';
+import { runHealthCheck, type HealthCheckHandle } from './channelHealth';
+import { useChannelStore } from '../stores/channelStore';
+import { usePlaylistStore } from '../stores/playlistStore';
+import { useXtreamStore } from '../stores/xtreamStore';
+import { useSourceStore } from '../stores/sourceStore';
+import { useHealthStore } from '../stores/healthStore';
+import { useResolutionStore } from '../stores/resolutionStore';
+import { getChannelStreams } from '../stores/streamStore';
+import { lookupByChannel } from './channelMerge';
+
+// Espera as fontes terminarem de carregar antes de começar
+const SETTLE_MS = 5000;
+// Um manifesto por vez, espaçados — não disputa banda com o player
+const PROBE_INTERVAL_MS = 1500;
+const FLUSH_EVERY = 10;
+// Streams contínuos não têm manifesto com resolução
+const NO_MANIFEST_RE = /\.(ts|mp4|mkv|avi)(\?|$)/i;
+
+let current: HealthCheckHandle | null = null;
+let settleTimer: ReturnType<typeof setTimeout> | null = null;
+// Canais já lidos nesta sessão, inclusive os que não declaram resolução
+const probed = new Set<string>();
+
+function pendingChannels(): Channel[] {
+    const { records } = useResolutionStore.getState();
+    return useChannelStore.getState().getAllChannels(true)
+        .filter(ch => !lookupByChannel(records, ch) && !probed.has(ch.id) && !NO_MANIFEST_RE.test(getChannelStreams(ch)[0].url));
+}
+
+function run(): void {
+    settleTimer = null;
+    if (current || AppState.currentState === 'background' || !useResolutionStore.persist.hasHydrated()) return;
+    // A verificação manual já alimenta o índice
+    if (useHealthStore.getState().isChecking) return;
+    const channels = pendingChannels();
+    if (channels.length === 0) return;
+
+    let heights: Record<string, number> = {};
+    let count = 0;
+    const flush = () => {
+        useResolutionStore.getState().recordMany(heights);
+        heights = {};
+    };
+    const handle = runHealthCheck(channels, {
+        concurrency: 1,
+        intervalMs: PROBE_INTERVAL_MS,
+        onResult: (id, health) => {
+            probed.add(id);
+            if (health.height) heights[id] = health.height;
+            if (++count % FLUSH_EVERY === 0) flush();
+        },
+    });
+    current = handle;
+    handle.done.finally(() => {
+        flush();
+        if (current === handle) current = null;
+    });
+}
+
+function schedule(): void {
+    if (settleTimer) clearTimeout(settleTimer);
+    settleTimer = setTimeout(run, SETTLE_MS);
+}
+
+/**
+ * Mantém o índice de resolução (categorias 4K/FHD/HD/SD) em dia: quando as listas de canais
+ * carregam ou mudam, lê em segundo plano o manifesto dos canais novos. Pausa com o app em
+ * segundo plano. Retorna a função que para o acompanhamento.
+ */
+export function startResolutionIndexer(): () => void {
+    const unsubs = [
+        useChannelStore.subscribe((s, prev) => { if (s.proChannels !== prev.proChannels) schedule(); }),
+        usePlaylistStore.subscribe((s, prev) => { if (s.channels !== prev.channels) schedule(); }),
+        useXtreamStore.subscribe((s, prev) => { if (s.channels !== prev.channels) schedule(); }),
+        useSourceStore.subscribe(schedule),
+        useResolutionStore.persist.onFinishHydration(schedule),
+    ];
+    const appState = AppState.addEventListener('change', (next) => {
+        if (next === 'active') {
+            schedule();
+        } else {
+            current?.cancel();
+        }
+    });
+    schedule();
+    return () => {
+        unsubs.forEach(unsub => unsub());
+        appState.remove();
+        current?.cancel();
+        if (settleTimer) clearTimeout(settleTimer);
+        settleTimer = null;
+    };
+}
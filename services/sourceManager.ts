@@ -0,0 +1,116 @@
+// Gerenciador de fontes — junta lista embutida, Pro, playlists e Xtream numa visão só
+import { channels, adultChannels } from '../data/channels';
+import { useChannelStore } from '../stores/channelStore';
+import { usePlaylistStore } from '../stores/playlistStore';
+import { useXtreamStore } from '../stores/xtreamStore';
+import {
+    useSourceStore,
+    BUNDLED_SOURCE_ID,
+    PRO_SOURCE_ID,
+    playlistSourceId,
+    xtreamSourceId,
+    type SourceKind,
+} from '../stores/sourceStore';
+
+export interface SourceInfo {
+    id: string;
+    kind: SourceKind;
+    /** 'url' | 'file' para playlists */
+    subKind?: string;
+    name: string;
+    defaultName: string;
+    enabled: boolean;
+    refreshHours: number;
+    channelCount: number;
+    updatedAt?: number;
+    error?: string;
+    /** Fontes embutidas e arquivos locais não são baixadas de novo */
+    refreshable: boolean;
+}
+
+/** Todas as fontes na ordem de prioridade da mesclagem */
+export function listSources(): SourceInfo[] {
+    const sources = useSourceStore.getState();
+    const { proChannels, proListMeta, proListError } = useChannelStore.getState();
+    const playlistState = usePlaylistStore.getState();
+    const xtreamState = useXtreamStore.getState();
+
+    const build = (
+        id: string,
+        defaultName: string,
+        info: Omit<SourceInfo, 'id' | 'kind' | 'name' | 'defaultName' | 'enabled' | 'refreshHours'>,
+        kind: SourceKind,
+    ): SourceInfo => {
+        const settings = sources.getSettings(id);
+        return {
+            id,
+            kind,
+            name: settings.name ?? defaultName,
+            defaultName,
+            enabled: settings.enabled,
+            refreshHours: settings.refreshHours,
+            ...info,
+        };
+    };
+
+    return [
+        build(BUNDLED_SOURCE_ID, 'Lista Saimo', {
+            channelCount: channels.length + adultChannels.length,
+            refreshable: false,
+        }, 'bundled'),
+        build(PRO_SOURCE_ID, 'Lista Pro', {
+            channelCount: proListMeta?.channelCount ?? proChannels.length,
+            updatedAt: proListMeta?.fetchedAt,
+            error: proListError ?? undefined,
+            refreshable: true,
+        }, 'pro'),
+        ...playlistState.playlists.map(pl => build(playlistSourceId(pl.id), pl.name, {
+            subKind: pl.kind,
+            channelCount: pl.channelCount,
+            updatedAt: pl.updatedAt,
+            error: pl.error,
+            refreshable: true,
+        }, 'playlist')),
+        ...xtreamState.accounts.map(acc => build(xtreamSourceId(acc.id), acc.name, {
+            channelCount: acc.channelCount,
+            updatedAt: acc.updatedAt,
+            error: acc.error,
+            refreshable: true,
+        }, 'xtream')),
+    ];
+}
+
+/** Atualiza uma fonte agora (ignora o intervalo) */
+export async function refreshSource(sourceId: string): Promise<void> {
+    if (sourceId === BUNDLED_SOURCE_ID) return;
+    if (sourceId === PRO_SOURCE_ID) {
+        await useChannelStore.getState().fetchProChannels(true);
+    } else if (sourceId.startsWith('playlist:')) {
+        await usePlaylistStore.getState().refreshPlaylist(sourceId.slice('playlist:'.length));
+    } else if (sourceId.startsWith('xtream:')) {
+        await useXtreamStore.getState().refreshAccount(sourceId.slice('xtream:'.length));
+    }
+}
+
+let dueRefreshInFlight = false;
+
+/** Atualiza as fontes ativas cujo intervalo já venceu (uma de cada vez) */
+export async function refreshDueSources(): Promise<void> {
+    if (dueRefreshInFlight) return;
+    dueRefreshInFlight = true;
+    try {
+        const now = Date.now();
+        for (const source of listSources()) {
+            if (!source.enabled || !source.refreshable || source.refreshHours <= 0) continue;
+            // Arquivo local: o conteúdo só muda quando o usuário reimporta
+            if (source.subKind === 'file') continue;
+            if (source.updatedAt && now - source.updatedAt < source.refreshHours * 3600_000) continue;
+            console.log('[Sources] atualizando', source.id);
+            await refreshSource(source.id);
+        }
+    } catch (e) {
+        console.warn('[Sources] atualização automática falhou:', e);
+    } finally {
+        dueRefreshInFlight = false;
+    }
+}
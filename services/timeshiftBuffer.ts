@@ -0,0 +1,236 @@
+// Timeshift da TV ao vivo — copia os segmentos HLS do canal para o disco e monta uma playlist local
+import { Paths, File as FSFile, Directory } from 'expo-file-system';
+import {
+    fetchPlaylistText,
+    fetchSegmentBytes,
+    loadMediaPlaylist,
+    parseMediaPlaylist,
+    segmentExtension,
+    type HlsSegment,
+} from './hlsPlaylist';
+
+const MIN_POLL_MS = 2000;
+// Falhas seguidas até desistir do buffer
+const MAX_FAILURES = 5;
+// Segmentos baixados na primeira leitura — o buffer começa no ao vivo
+const INITIAL_SEGMENTS = 3;
+const MIN_READY_SEGMENTS = 2;
+
+interface LocalSegment {
+    name: string;
+    duration: number;
+    discontinuity: boolean;
+    key: string | null;
+    /** Nome do arquivo de inicialização (EXT-X-MAP) no disco */
+    map: string | null;
+}
+
+function timeshiftRoot(): Directory {
+    return new Directory(Paths.cache, 'timeshift');
+}
+
+/** Remove buffers de sessões anteriores */
+export function clearTimeshiftCache(): void {
+    try {
+        const root = timeshiftRoot();
+        if (root.exists) root.delete();
+    } catch (e) {
+        console.warn('[Timeshift] Cache cleanup failed:', e);
+    }
+}
+
+/**
+ * Buffer em disco de um canal HLS ao vivo: acompanha a playlist, baixa cada segmento novo
+ * e descarta os que passam de `maxSeconds`. O player toca `playlistUri` para voltar no tempo.
+ */
+export class TimeshiftBuffer {
+    private dir: Directory;
+    private mediaUrl: string | null = null;
+    private segments: LocalSegment[] = [];
+    private maps = new Map<string, string>();
+    private lastRemoteSeq = -1;
+    private localSeq = 0;
+    private removedSeq = 0;
+    private discontinuitySeq = 0;
+    private targetDuration = 0;
+    private failures = 0;
+    private stopped = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    /** Motivo do buffer ter parado sozinho (stream não HLS, criptografia, rede) */
+    error: string | null = null;
+    bufferedSeconds = 0;
+
+    constructor(
+        private url: string,
+        private headers: Record<string, string> | undefined,
+        private maxSeconds: number,
+    ) {
+        this.dir = new Directory(timeshiftRoot(), `s${Date.now()}`);
+    }
+
+    get playlistUri(): string {
+        return new FSFile(this.dir, 'playlist.m3u8').uri;
+    }
+
+    get ready(): boolean {
+        return !this.error && this.segments.length >= MIN_READY_SEGMENTS;
+    }
+
+    /** Posição na playlist local para ficar `secondsBehind` atrás do ao vivo */
+    positionFor(secondsBehind: number): number {
+        return Math.max(0, this.bufferedSeconds - secondsBehind);
+    }
+
+    start(): void {
+        clearTimeshiftCache();
+        try {
+            this.dir.create({ intermediates: true, idempotent: true });
+        } catch (e) {
+            this.fail(`cache dir: ${e}`);
+            return;
+        }
+        this.poll();
+    }
+
+    stop(): void {
+        this.stopped = true;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        try {
+            if (this.dir.exists) this.dir.delete();
+        } catch { /* o próximo start limpa */ }
+    }
+
+    // ─── Playlist remota ────────────────────────────────────────────────────
+
+    private async poll(): Promise<void> {
+        if (this.stopped) return;
+        try {
+            if (!this.mediaUrl) {
+                const media = await loadMediaPlaylist(this.url, this.headers);
+                this.mediaUrl = media.url;
+                await this.update(media.body);
+            } else {
+                await this.update(await fetchPlaylistText(this.mediaUrl, this.headers));
+            }
+            this.failures = 0;
+        } catch (e: any) {
+            if (this.stopped) return;
+            console.warn('[Timeshift] Update failed:', e?.message ?? e);
+            if (/unsupported/.test(String(e?.message)) || ++this.failures >= MAX_FAILURES) {
+                this.fail(String(e?.message ?? e));
+                return;
+            }
+        }
+        if (this.stopped) return;
+        const interval = Math.max(MIN_POLL_MS, (this.targetDuration || 4) * 1000 / 2);
+        this.timer = setTimeout(() => this.poll(), interval);
+    }
+
+    private async update(body: string): Promise<void> {
+        const { targetDuration, segments } = parseMediaPlaylist(body, this.mediaUrl!);
+        this.targetDuration = targetDuration;
+        if (segments.length === 0) return;
+
+        let fresh: HlsSegment[];
+        let gap = false;
+        if (this.lastRemoteSeq < 0) {
+            fresh = segments.slice(-INITIAL_SEGMENTS);
+        } else if (segments[segments.length - 1].seq < this.lastRemoteSeq) {
+            // Servidor reiniciou a numeração
+            fresh = segments.slice(-INITIAL_SEGMENTS);
+            gap = true;
+        } else {
+            fresh = segments.filter(s => s.seq > this.lastRemoteSeq);
+            gap = fresh.length > 0 && fresh[0].seq > this.lastRemoteSeq + 1;
+        }
+
+        for (const seg of fresh) {
+            if (this.stopped) return;
+            const map = seg.map ? await this.downloadMap(seg.map) : null;
+            const name = `seg${this.localSeq}.${segmentExtension(seg.url)}`;
+            // Com timeout: segmento travado conta como falha no poll em vez de congelar o buffer
+            const bytes = await fetchSegmentBytes(seg.url, this.headers);
+            if (this.stopped) return;
+            new FSFile(this.dir, name).write(bytes);
+            this.segments.push({
+                name,
+                duration: seg.duration || this.targetDuration,
+                discontinuity: seg.discontinuity || gap,
+                key: seg.key,
+                map,
+            });
+            gap = false;
+            this.localSeq++;
+            this.lastRemoteSeq = seg.seq;
+            this.trim();
+            this.writePlaylist();
+        }
+    }
+
+    private async downloadMap(url: string): Promise<string> {
+        const known = this.maps.get(url);
+        if (known) return known;
+        const name = `init${this.maps.size}.${segmentExtension(url)}`;
+        const bytes = await fetchSegmentBytes(url, this.headers);
+        if (this.stopped) return name;
+        new FSFile(this.dir, name).write(bytes);
+        this.maps.set(url, name);
+        return name;
+    }
+
+    // ─── Playlist local ─────────────────────────────────────────────────────
+
+    private trim(): void {
+        let total = this.segments.reduce((sum, s) => sum + s.duration, 0);
+        while (this.segments.length > MIN_READY_SEGMENTS && total - this.segments[0].duration >= this.maxSeconds) {
+            const old = this.segments.shift()!;
+            total -= old.duration;
+            this.removedSeq++;
+            if (old.discontinuity) this.discontinuitySeq++;
+            try {
+                new FSFile(this.dir, old.name).delete();
+            } catch { /* já removido */ }
+        }
+        this.bufferedSeconds = total;
+    }
+
+    private writePlaylist(): void {
+        const target = Math.ceil(Math.max(this.targetDuration, ...this.segments.map(s => s.duration)));
+        const lines = [
+            '#EXTM3U',
+            '#EXT-X-VERSION:6',
+            `#EXT-X-TARGETDURATION:${target}`,
+            `#EXT-X-MEDIA-SEQUENCE:${this.removedSeq}`,
+            `#EXT-X-DISCONTINUITY-SEQUENCE:${this.discontinuitySeq}`,
+        ];
+        let key: string | null = null;
+        let map: string | null = null;
+        for (const seg of this.segments) {
+            if (seg.discontinuity) lines.push('#EXT-X-DISCONTINUITY');
+            if (seg.key !== key) {
+                lines.push(seg.key ?? '#EXT-X-KEY:METHOD=NONE');
+                key = seg.key;
+            }
+            if (seg.map && seg.map !== map) {
+                lines.push(`#EXT-X-MAP:URI="${seg.map}"`);
+                map = seg.map;
+            }
+            lines.push(`#EXTINF:${seg.duration.toFixed(3)},`, seg.name);
+        }
+        try {
+            new FSFile(this.dir, 'playlist.m3u8').write(lines.join('\n') + '\n');
+        } catch (e) {
+            console.warn('[Timeshift] Playlist write failed:', e);
+        }
+    }
+
+    private fail(reason: string): void {
+        console.warn('[Timeshift] Buffer stopped:', reason);
+        this.error = reason;
+        this.stopped = true;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+}
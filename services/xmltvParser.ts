@@ -0,0 +1,347 @@
+// Parser XMLTV incremental — recebe o arquivo em pedaços e nunca guarda o guia inteiro numa string
+import type { ProgramCreditRole } from '../types';
+
+export interface XmltvChannel {
+    id: string;
+    /** Todos os <display-name> do canal */
+    names: string[];
+}
+
+export interface XmltvProgramme {
+    channelId: string;
+    start: Date;
+    stop: Date;
+    title: string;
+    /** <sub-title>, normalmente o título do episódio */
+    subtitle: string;
+    description: string;
+    /** Primeira de `categories` */
+    category: string;
+    categories: string[];
+    episode: XmltvEpisode | null;
+    rating: string;
+    icon: string;
+    year: number | null;
+    credits: Partial<Record<ProgramCreditRole, string[]>> | null;
+    isNew: boolean;
+    isRerun: boolean;
+}
+
+export interface XmltvEpisode {
+    season?: number;
+    episode?: number;
+    /** Texto do episode-num onscreen */
+    label?: string;
+}
+
+export interface XmltvHandlers {
+    onChannel: (channel: XmltvChannel) => void;
+    /** Consultado antes de decodificar o programa — false pula o elemento sem processar */
+    wantsProgramme: (channelId: string) => boolean;
+    onProgramme: (programme: XmltvProgramme) => void;
+}
+
+export function parseXmltvDate(s: string): Date {
+    const m = s.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\s*([+-]\d{4})?/);
+    if (!m) return new Date(NaN);
+    const tz = m[7] ?? '+0000';
+    const sign = tz[0] === '-' ? -1 : 1;
+    const off = sign * (parseInt(tz.slice(1, 3)) * 60 + parseInt(tz.slice(3, 5))) * 60000;
+    return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) - off);
+}
+
+export function decodeXmlEntities(s: string): string {
+    return s.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&apos;/g, "'")
+        .replace(/&nbsp;/g, ' ');
+}
+
+// ─── UTF-8 ────────────────────────────────────────────────────────────────────
+
+/**
+ * Decodifica UTF-8 em pedaços, guardando a sequência incompleta do fim para o próximo.
+ * Usa o TextDecoder nativo quando existe (Hermes nem sempre tem).
+ */
+class Utf8StreamDecoder {
+    private native: { decode: (b?: Uint8Array, o?: { stream: boolean }) => string } | null;
+    private pending: number[] = [];
+
+    constructor() {
+        const TD = (globalThis as any).TextDecoder;
+        this.native = TD ? new TD('utf-8') : null;
+    }
+
+    decode(bytes: Uint8Array, final = false): string {
+        if (this.native) return this.native.decode(bytes, { stream: !final });
+
+        const units: number[] = [];
+        let out = '';
+        const flush = () => {
+            out += String.fromCharCode.apply(null, units);
+            units.length = 0;
+        };
+        let i = 0;
+        let src = bytes;
+        if (this.pending.length > 0) {
+            src = new Uint8Array(this.pending.length + bytes.length);
+            src.set(this.pending);
+            src.set(bytes, this.pending.length);
+            this.pending = [];
+        }
+        const len = src.length;
+        while (i < len) {
+            const b = src[i];
+            let need = 0;
+            let cp = b;
+            if (b >= 0xf0) { need = 3; cp = b & 0x07; }
+            else if (b >= 0xe0) { need = 2; cp = b & 0x0f; }
+            else if (b >= 0xc0) { need = 1; cp = b & 0x1f; }
+            else if (b >= 0x80) cp = 0xfffd;
+            if (i + need >= len && need > 0) {
+                // Sequência cortada no fim do pedaço
+                if (!final) {
+                    for (let j = i; j < len; j++) this.pending.push(src[j]);
+                    break;
+                }
+                units.push(0xfffd);
+                break;
+            }
+            for (let k = 1; k <= need; k++) cp = (cp << 6) | (src[i + k] & 0x3f);
+            i += need + 1;
+            if (cp > 0xffff) {
+                cp -= 0x10000;
+                units.push(0xd800 + (cp >> 10), 0xdc00 + (cp & 0x3ff));
+            } else {
+                units.push(cp);
+            }
+            if (units.length >= 8192) flush();
+        }
+        flush();
+        return out;
+    }
+}
+
+// ─── Metadados do programa ────────────────────────────────────────────────────
+
+const CREDIT_ROLES: ProgramCreditRole[] = [
+    'director', 'actor', 'writer', 'adapter', 'producer',
+    'composer', 'editor', 'presenter', 'commentator', 'guest',
+];
+// Elencos longos só incham o cache — a tela mostra os primeiros
+const MAX_CREDITS_PER_ROLE = 8;
+
+const CREDIT_RE = new RegExp(`<(${CREDIT_ROLES.join('|')})\\b[^>]*>([^<]+)</\\1>`, 'g');
+
+const TITLE_RE = /<title[^>]*>([^<]+)<\/title>/;
+const SUBTITLE_RE = /<sub-title[^>]*>([^<]+)<\/sub-title>/;
+
+function textOf(inner: string, re: RegExp): string {
+    const m = inner.match(re);
+    return m ? decodeXmlEntities(m[1]).trim() : '';
+}
+
+/** xmltv_ns é "temporada.episódio.parte", cada um contado a partir de zero e com "/total" opcional */
+function parseXmltvNs(value: string): XmltvEpisode {
+    const [season, episode] = value.split('.').map(part => parseInt(part.split('/')[0].trim(), 10));
+    const out: XmltvEpisode = {};
+    if (Number.isFinite(season)) out.season = season + 1;
+    if (Number.isFinite(episode)) out.episode = episode + 1;
+    return out;
+}
+
+// "S02E05", "S2 E5", "T2 Ep. 5", "Temporada 2 Episódio 5", "Ep 5"…
+const ONSCREEN_SE_RE = /\b[ST](?:eason|emporada)?\s*(\d{1,3})\s*[.:,-]?\s*E(?:p(?:is[oó]dio|isode)?)?\.?\s*(\d{1,4})/i;
+const ONSCREEN_E_RE = /\bE(?:p(?:is[oó]dio|isode)?)?\.?\s*(\d{1,4})\b/i;
+
+function parseOnscreen(value: string): XmltvEpisode {
+    const out: XmltvEpisode = { label: value };
+    const se = value.match(ONSCREEN_SE_RE);
+    if (se) {
+        out.season = parseInt(se[1], 10);
+        out.episode = parseInt(se[2], 10);
+        return out;
+    }
+    const e = value.match(ONSCREEN_E_RE);
+    if (e) out.episode = parseInt(e[1], 10);
+    return out;
+}
+
+/** xmltv_ns tem prioridade nos números; onscreen completa o que faltar e dá o rótulo */
+function parseEpisodeNums(inner: string): XmltvEpisode | null {
+    const re = /<episode-num([^>]*)>([^<]+)<\/episode-num>/g;
+    let ns: XmltvEpisode | null = null;
+    let onscreen: XmltvEpisode | null = null;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(inner))) {
+        const system = attr(m[1], 'system');
+        const value = decodeXmlEntities(m[2]).trim();
+        if (!value) continue;
+        if (system === 'xmltv_ns') ns = ns ?? parseXmltvNs(value);
+        else if (system === 'onscreen' || !system) onscreen = onscreen ?? parseOnscreen(value);
+    }
+    if (!ns && !onscreen) return null;
+    const episode: XmltvEpisode = { ...onscreen, ...ns };
+    return episode.season || episode.episode || episode.label ? episode : null;
+}
+
+function parseCredits(inner: string): XmltvProgramme['credits'] {
+    const start = inner.indexOf('<credits');
+    if (start < 0) return null;
+    const end = inner.indexOf('</credits>', start);
+    if (end < 0) return null;
+    const block = inner.slice(start, end);
+    const credits: NonNullable<XmltvProgramme['credits']> = {};
+    let found = false;
+    let m: RegExpExecArray | null;
+    CREDIT_RE.lastIndex = 0;
+    while ((m = CREDIT_RE.exec(block))) {
+        const role = m[1] as ProgramCreditRole;
+        const name = decodeXmlEntities(m[2]).trim();
+        if (!name) continue;
+        const list = credits[role] ?? (credits[role] = []);
+        if (list.length < MAX_CREDITS_PER_ROLE) list.push(name);
+        found = true;
+    }
+    return found ? credits : null;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+const CHANNEL_OPEN = '<channel';
+const PROGRAMME_OPEN = '<programme';
+
+function attr(attrs: string, name: string): string {
+    const idx = attrs.indexOf(`${name}="`);
+    if (idx < 0) return '';
+    const start = idx + name.length + 2;
+    const end = attrs.indexOf('"', start);
+    return end > start ? attrs.slice(start, end) : '';
+}
+
+export class XmltvStreamParser {
+    private decoder = new Utf8StreamDecoder();
+    // Só o trecho ainda não processado (no máximo um elemento incompleto + o pedaço atual)
+    private buffer = '';
+
+    channelCount = 0;
+    programmeCount = 0;
+
+    constructor(private handlers: XmltvHandlers) {}
+
+    write(bytes: Uint8Array): void {
+        this.buffer += this.decoder.decode(bytes);
+        this.process();
+    }
+
+    end(): void {
+        this.buffer += this.decoder.decode(new Uint8Array(0), true);
+        this.process();
+        this.buffer = '';
+    }
+
+    private process(): void {
+        const buf = this.buffer;
+        let pos = 0;
+        // Próximas ocorrências em cache — evita reescanear o buffer a cada elemento
+        let nextCh = buf.indexOf(CHANNEL_OPEN);
+        let nextPr = buf.indexOf(PROGRAMME_OPEN);
+        // Início do elemento incompleto, se o pedaço acabar no meio dele
+        let pending = -1;
+
+        while (true) {
+            if (nextCh >= 0 && nextCh < pos) nextCh = buf.indexOf(CHANNEL_OPEN, pos);
+            if (nextPr >= 0 && nextPr < pos) nextPr = buf.indexOf(PROGRAMME_OPEN, pos);
+
+            if (nextCh < 0 && nextPr < 0) {
+                // Guarda só o fim, caso uma tag tenha sido cortada ao meio
+                this.buffer = buf.slice(Math.max(pos, buf.length - PROGRAMME_OPEN.length));
+                return;
+            }
+            const isChannel = nextCh >= 0 && (nextPr < 0 || nextCh < nextPr);
+            const start = isChannel ? nextCh : nextPr;
+            const open = isChannel ? CHANNEL_OPEN : PROGRAMME_OPEN;
+            const close = isChannel ? '</channel>' : '</programme>';
+
+            const tagEnd = buf.indexOf('>', start + open.length);
+            if (tagEnd < 0) { pending = start; break; }
+            let end: number;
+            let innerEnd = tagEnd;
+            if (buf.charCodeAt(tagEnd - 1) === 47 /* '/' */) {
+                end = tagEnd + 1;
+            } else {
+                const closeIdx = buf.indexOf(close, tagEnd);
+                if (closeIdx < 0) { pending = start; break; }
+                innerEnd = closeIdx;
+                end = closeIdx + close.length;
+            }
+
+            const attrs = buf.slice(start + open.length, tagEnd);
+            if (isChannel) this.handleChannel(attrs, buf.slice(tagEnd + 1, innerEnd));
+            else this.handleProgramme(attrs, buf, tagEnd + 1, innerEnd);
+            pos = end;
+        }
+
+        // Elemento incompleto — espera o próximo pedaço
+        this.buffer = buf.slice(pending);
+    }
+
+    private handleChannel(attrs: string, inner: string): void {
+        const id = attr(attrs, 'id');
+        if (!id) return;
+        const names: string[] = [];
+        const re = /<display-name[^>]*>([^<]+)<\/display-name>/g;
+        let m: RegExpExecArray | null;
+        while ((m = re.exec(inner))) {
+            const name = decodeXmlEntities(m[1]).trim();
+            if (name) names.push(name);
+        }
+        this.channelCount++;
+        this.handlers.onChannel({ id, names });
+    }
+
+    private handleProgramme(attrs: string, buf: string, innerStart: number, innerEnd: number): void {
+        this.programmeCount++;
+        const channelId = attr(attrs, 'channel');
+        if (!channelId || !this.handlers.wantsProgramme(channelId)) return;
+
+        const start = parseXmltvDate(attr(attrs, 'start'));
+        const stop = parseXmltvDate(attr(attrs, 'stop'));
+        if (isNaN(start.getTime()) || isNaN(stop.getTime())) return;
+
+        const inner = buf.slice(innerStart, innerEnd);
+        const title = textOf(inner, TITLE_RE);
+        if (!title) return;
+        const dM = inner.match(/<desc[^>]*>([\s\S]*?)<\/desc>/);
+
+        const categories: string[] = [];
+        const catRe = /<category[^>]*>([^<]+)<\/category>/g;
+        let m: RegExpExecArray | null;
+        while ((m = catRe.exec(inner))) {
+            const cat = decodeXmlEntities(m[1]).trim();
+            if (cat && !categories.includes(cat)) categories.push(cat);
+        }
+
+        // <rating system="..."><value>14</value></rating>
+        const rM = inner.match(/<rating[^>]*>\s*<value>([^<]+)<\/value>/);
+        const iconTag = inner.match(/<icon\s([^>]*)>/);
+        const yM = inner.match(/<date>\s*(\d{4})/);
+
+        this.handlers.onProgramme({
+            channelId,
+            start,
+            stop,
+            title,
+            subtitle: textOf(inner, SUBTITLE_RE),
+            description: dM ? decodeXmlEntities(dM[1]).trim() : '',
+            category: categories[0] ?? '',
+            categories,
+            episode: parseEpisodeNums(inner),
+            rating: rM ? decodeXmlEntities(rM[1]).trim() : '',
+            icon: iconTag ? decodeXmlEntities(attr(iconTag[1], 'src')) : '',
+            year: yM ? parseInt(yM[1], 10) : null,
+            credits: parseCredits(inner),
+            isNew: /<new\s*\/?>/.test(inner),
+            isRerun: inner.includes('<previously-shown'),
+        });
+    }
+}
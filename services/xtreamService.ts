@@ -0,0 +1,495 @@
+// Provedor Xtream Codes (player_api.php) → Channel / MediaItem / SeriesEpisodes
+import type { Channel, MediaItem, SeriesEpisodes, Episode } from '../types';
+import { MAX_CATCHUP_DAYS } from './catchupService';
+
+const REQUEST_TIMEOUT_MS = 20000;
+export const XTREAM_ID_PREFIX = 'xt:';
+
+// ============================================================
+// Tipos
+// ============================================================
+
+export interface XtreamCredentials {
+    server: string;
+    username: string;
+    password: string;
+}
+
+export interface XtreamAccount extends XtreamCredentials {
+    id: string;
+    name: string;
+}
+
+export interface XtreamAccountInfo {
+    status: string;
+    expiresAt?: number;
+    maxConnections?: number;
+    activeConnections?: number;
+}
+
+interface XtreamCategory {
+    category_id: string;
+    category_name: string;
+}
+
+interface XtreamLiveStream {
+    stream_id: number | string;
+    name: string;
+    num?: number | string;
+    stream_icon?: string;
+    epg_channel_id?: string | null;
+    category_id?: string | null;
+    is_adult?: number | string;
+    /** 1 quando o servidor grava o canal (catch-up) */
+    tv_archive?: number | string;
+    tv_archive_duration?: number | string;
+}
+
+interface XtreamVodStream {
+    stream_id: number | string;
+    name: string;
+    stream_icon?: string;
+    category_id?: string | null;
+    container_extension?: string;
+    rating?: string | number;
+    rating_5based?: number;
+    added?: string;
+    tmdb?: string | number;
+    is_adult?: number | string;
+}
+
+interface XtreamSeries {
+    series_id: number | string;
+    name: string;
+    cover?: string;
+    plot?: string;
+    genre?: string;
+    releaseDate?: string;
+    rating?: string | number;
+    backdrop_path?: string[];
+    category_id?: string | null;
+    tmdb?: string | number;
+}
+
+interface XtreamEpisode {
+    id: string | number;
+    episode_num: number | string;
+    title?: string;
+    container_extension?: string;
+    info?: { movie_image?: string; plot?: string };
+}
+
+interface XtreamSeriesInfo {
+    info?: XtreamSeries;
+    episodes?: Record<string, XtreamEpisode[]> | XtreamEpisode[][];
+}
+
+interface XtreamVodInfo {
+    info?: {
+        plot?: string;
+        description?: string;
+        genre?: string;
+        director?: string;
+        cast?: string;
+        releasedate?: string;
+        duration_secs?: number;
+        rating?: string | number;
+        movie_image?: string;
+        backdrop_path?: string[];
+        tmdb_id?: string | number;
+    };
+    movie_data?: XtreamVodStream;
+}
+
+// ============================================================
+// Registro de contas (alimentado pelo xtreamStore)
+// ============================================================
+
+const ACCOUNTS = new Map<string, XtreamAccount>();
+
+// Catálogos VOD/séries em memória por conta
+const VOD_CACHE = new Map<string, Map<string, MediaItem[]>>();
+const SERIES_CACHE = new Map<string, Map<string, MediaItem[]>>();
+
+export function setXtreamAccounts(accounts: XtreamAccount[]): void {
+    ACCOUNTS.clear();
+    accounts.forEach(a => ACCOUNTS.set(a.id, a));
+    for (const id of Array.from(VOD_CACHE.keys())) if (!ACCOUNTS.has(id)) VOD_CACHE.delete(id);
+    for (const id of Array.from(SERIES_CACHE.keys())) if (!ACCOUNTS.has(id)) SERIES_CACHE.delete(id);
+}
+
+export function hasXtreamAccounts(): boolean {
+    return ACCOUNTS.size > 0;
+}
+
+// ============================================================
+// IDs — xt:<conta>:<tipo>:<id>
+// ============================================================
+
+type XtreamKind = 'live' | 'vod' | 'series' | 'ep' | 'vodcat' | 'seriescat';
+
+function makeId(accountId: string, kind: XtreamKind, id: string | number): string {
+    return `${XTREAM_ID_PREFIX}${accountId}:${kind}:${id}`;
+}
+
+export function isXtreamId(id: string): boolean {
+    return id.startsWith(XTREAM_ID_PREFIX);
+}
+
+function parseId(id: string): { accountId: string; kind: XtreamKind; itemId: string } | null {
+    const parts = id.slice(XTREAM_ID_PREFIX.length).split(':');
+    if (parts.length < 3) return null;
+    const [accountId, kind, ...rest] = parts;
+    return { accountId, kind: kind as XtreamKind, itemId: rest.join(':') };
+}
+
+// ============================================================
+// HTTP
+// ============================================================
+
+export function normalizeServer(server: string): string {
+    let s = server.trim().replace(/\/+$/, '');
+    if (!/^https?:\/\//i.test(s)) s = `http://${s}`;
+    // Aceita a URL completa do player_api.php colada pelo usuário
+    return s.replace(/\/player_api\.php.*$/i, '');
+}
+
+async function api<T>(creds: XtreamCredentials, action?: string, params: Record<string, string> = {}): Promise<T> {
+    const query = new URLSearchParams({
+        username: creds.username,
+        password: creds.password,
+        ...(action ? { action } : {}),
+        ...params,
+    });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+        const res = await fetch(`${normalizeServer(creds.server)}/player_api.php?${query}`, {
+            signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Xtream HTTP ${res.status}`);
+        return await res.json() as T;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+function requireAccount(accountId: string): XtreamAccount {
+    const account = ACCOUNTS.get(accountId);
+    if (!account) throw new Error('Conta Xtream não encontrada');
+    return account;
+}
+
+function streamUrl(account: XtreamAccount, kind: 'live' | 'movie' | 'series', id: string | number, ext: string): string {
+    const enc = encodeURIComponent;
+    return `${normalizeServer(account.server)}/${kind}/${enc(account.username)}/${enc(account.password)}/${id}.${ext}`;
+}
+
+function toNumber(v: unknown): number {
+    const n = typeof v === 'number' ? v : parseFloat(String(v ?? ''));
+    return Number.isFinite(n) ? n : 0;
+}
+
+function yearOf(date?: string): string {
+    const m = (date ?? '').match(/\d{4}/);
+    return m ? m[0] : '';
+}
+
+function categoryNames(list: XtreamCategory[] | null | undefined): Map<string, string> {
+    const map = new Map<string, string>();
+    (Array.isArray(list) ? list : []).forEach(c => map.set(String(c.category_id), c.category_name));
+    return map;
+}
+
+// ============================================================
+// Login
+// ============================================================
+
+/** Valida as credenciais. Lança erro se o servidor recusar o login. */
+export async function xtreamLogin(creds: XtreamCredentials): Promise<XtreamAccountInfo> {
+    const data = await api<{ user_info?: Record<string, any> }>(creds);
+    const info = data?.user_info;
+    if (!info || String(info.auth) !== '1') {
+        throw new Error('Usuário ou senha inválidos');
+    }
+    const exp = toNumber(info.exp_date);
+    return {
+        status: String(info.status ?? 'Active'),
+        expiresAt: exp > 0 ? exp * 1000 : undefined,
+        maxConnections: toNumber(info.max_connections) || undefined,
+        activeConnections: toNumber(info.active_cons),
+    };
+}
+
+// ============================================================
+// Ao vivo → Channel
+// ============================================================
+
+export async function fetchLiveChannels(account: XtreamAccount): Promise<Channel[]> {
+    const [cats, streams] = await Promise.all([
+        api<XtreamCategory[]>(account, 'get_live_categories'),
+        api<XtreamLiveStream[]>(account, 'get_live_streams'),
+    ]);
+    const names = categoryNames(cats);
+    return (Array.isArray(streams) ? streams : []).map((s): Channel => {
+        const url = streamUrl(account, 'live', s.stream_id, 'm3u8');
+        const num = toNumber(s.num);
+        const archiveDays = toNumber(s.tv_archive_duration);
+        return {
+            id: makeId(account.id, 'live', s.stream_id),
+            name: s.name,
+            url,
+            category: names.get(String(s.category_id)) || account.name,
+            logo: s.stream_icon || '',
+            channelNumber: num > 0 ? num : undefined,
+            streams: [{ url }, { url: streamUrl(account, 'live', s.stream_id, 'ts') }],
+            epgId: s.epg_channel_id || undefined,
+            catchup: toNumber(s.tv_archive) === 1
+                ? { mode: 'xc', days: Math.min(MAX_CATCHUP_DAYS, archiveDays > 0 ? archiveDays : MAX_CATCHUP_DAYS) }
+                : undefined,
+        };
+    });
+}
+
+// ============================================================
+// Filmes / séries → MediaItem
+// ============================================================
+
+function vodToItem(account: XtreamAccount, s: XtreamVodStream, categoryId: string, label: string): MediaItem {
+    return {
+        id: makeId(account.id, 'vod', s.stream_id),
+        name: s.name,
+        url: streamUrl(account, 'movie', s.stream_id, s.container_extension || 'mp4'),
+        category: categoryId,
+        categoryLabel: label,
+        type: 'movie',
+        isAdult: String(s.is_adult) === '1',
+        logo: s.stream_icon || '',
+        tmdb: {
+            id: toNumber(s.tmdb),
+            title: s.name,
+            overview: '',
+            year: yearOf(s.name.match(/\((\d{4})\)/)?.[1]),
+            rating: toNumber(s.rating) || toNumber(s.rating_5based) * 2,
+            genres: [],
+            poster: s.stream_icon || '',
+            cast: [],
+        },
+    };
+}
+
+function seriesToItem(account: XtreamAccount, s: XtreamSeries, categoryId: string, label: string): MediaItem {
+    return {
+        id: makeId(account.id, 'series', s.series_id),
+        name: s.name,
+        url: '',
+        category: categoryId,
+        categoryLabel: label,
+        type: 'tv',
+        isAdult: false,
+        logo: s.cover || '',
+        tmdb: {
+            id: toNumber(s.tmdb),
+            title: s.name,
+            overview: s.plot || '',
+            year: yearOf(s.releaseDate),
+            rating: toNumber(s.rating),
+            genres: s.genre ? s.genre.split(/\s*[,/]\s*/).filter(Boolean) : [],
+            poster: s.cover || '',
+            backdrop: s.backdrop_path?.[0],
+            cast: [],
+        },
+    };
+}
+
+async function loadVodCatalog(account: XtreamAccount): Promise<Map<string, MediaItem[]>> {
+    const cached = VOD_CACHE.get(account.id);
+    if (cached) return cached;
+    const [cats, streams] = await Promise.all([
+        api<XtreamCategory[]>(account, 'get_vod_categories'),
+        api<XtreamVodStream[]>(account, 'get_vod_streams'),
+    ]);
+    const names = categoryNames(cats);
+    const result = new Map<string, MediaItem[]>();
+    for (const s of Array.isArray(streams) ? streams : []) {
+        const catId = makeId(account.id, 'vodcat', s.category_id ?? '0');
+        const label = names.get(String(s.category_id)) || 'Filmes';
+        const list = result.get(catId) ?? [];
+        list.push(vodToItem(account, s, catId, `${label} • ${account.name}`));
+        result.set(catId, list);
+    }
+    VOD_CACHE.set(account.id, result);
+    return result;
+}
+
+async function loadSeriesCatalog(account: XtreamAccount): Promise<Map<string, MediaItem[]>> {
+    const cached = SERIES_CACHE.get(account.id);
+    if (cached) return cached;
+    const [cats, series] = await Promise.all([
+        api<XtreamCategory[]>(account, 'get_series_categories'),
+        api<XtreamSeries[]>(account, 'get_series'),
+    ]);
+    const names = categoryNames(cats);
+    const result = new Map<string, MediaItem[]>();
+    for (const s of Array.isArray(series) ? series : []) {
+        const catId = makeId(account.id, 'seriescat', s.category_id ?? '0');
+        const label = names.get(String(s.category_id)) || 'Séries';
+        const list = result.get(catId) ?? [];
+        list.push(seriesToItem(account, s, catId, `${label} • ${account.name}`));
+        result.set(catId, list);
+    }
+    SERIES_CACHE.set(account.id, result);
+    return result;
+}
+
+/** Todas as categorias VOD + séries de todas as contas (Map<categoryId, items>) */
+export async function loadXtreamCatalog(): Promise<Map<string, MediaItem[]>> {
+    const result = new Map<string, MediaItem[]>();
+    for (const account of Array.from(ACCOUNTS.values())) {
+        try {
+            const [vod, series] = await Promise.all([loadVodCatalog(account), loadSeriesCatalog(account)]);
+            vod.forEach((items, id) => result.set(id, items));
+            series.forEach((items, id) => result.set(id, items));
+        } catch (e) {
+            console.warn('[Xtream] catálogo falhou:', account.name, e);
+        }
+    }
+    return result;
+}
+
+export function isXtreamCategory(categoryId: string): boolean {
+    return categoryId.startsWith(XTREAM_ID_PREFIX);
+}
+
+/** Itens de uma categoria Xtream (uma única "página" — a API não pagina) */
+export async function getXtreamCategoryItems(categoryId: string): Promise<MediaItem[]> {
+    const parsed = parseId(categoryId);
+    if (!parsed) return [];
+    const account = ACCOUNTS.get(parsed.accountId);
+    if (!account) return [];
+    const catalog = parsed.kind === 'seriescat'
+        ? await loadSeriesCatalog(account)
+        : await loadVodCatalog(account);
+    return catalog.get(categoryId) ?? [];
+}
+
+/** Busca por nome/tipo nos catálogos já carregados */
+export function searchXtreamCatalog(query: string, type?: 'movie' | 'tv'): MediaItem[] {
+    const q = query.toLowerCase().trim();
+    const results: MediaItem[] = [];
+    const scan = (cache: Map<string, Map<string, MediaItem[]>>) => {
+        cache.forEach(catalog => catalog.forEach(items => {
+            for (const item of items) {
+                if (type && item.type !== type) continue;
+                if (q && !item.name.toLowerCase().includes(q)) continue;
+                results.push(item);
+            }
+        }));
+    };
+    if (type !== 'tv') scan(VOD_CACHE);
+    if (type !== 'movie') scan(SERIES_CACHE);
+    return results;
+}
+
+function findCachedItem(id: string): MediaItem | undefined {
+    for (const cache of [VOD_CACHE, SERIES_CACHE]) {
+        for (const catalog of Array.from(cache.values())) {
+            for (const items of Array.from(catalog.values())) {
+                const found = items.find(i => i.id === id);
+                if (found) return found;
+            }
+        }
+    }
+    return undefined;
+}
+
+// ============================================================
+// Detalhes (equivalente ao get_item da API)
+// ============================================================
+
+async function getVodItem(account: XtreamAccount, streamId: string): Promise<MediaItem> {
+    const data = await api<XtreamVodInfo>(account, 'get_vod_info', { vod_id: streamId });
+    const movie = data?.movie_data;
+    const info = data?.info ?? {};
+    if (!movie) throw new Error('Filme não encontrado no servidor Xtream');
+    const cached = findCachedItem(makeId(account.id, 'vod', streamId));
+    const base = vodToItem(account, movie, cached?.category ?? '', cached?.categoryLabel ?? account.name);
+    return {
+        ...base,
+        tmdb: {
+            ...base.tmdb!,
+            id: toNumber(info.tmdb_id) || base.tmdb!.id,
+            overview: info.plot || info.description || '',
+            year: yearOf(info.releasedate) || base.tmdb!.year,
+            releaseDate: info.releasedate,
+            runtime: info.duration_secs ? Math.round(info.duration_secs / 60) : undefined,
+            rating: toNumber(info.rating) || base.tmdb!.rating,
+            genres: info.genre ? info.genre.split(/\s*[,/]\s*/).filter(Boolean) : [],
+            poster: info.movie_image || base.tmdb!.poster,
+            backdrop: info.backdrop_path?.[0],
+            director: info.director,
+            cast: (info.cast ?? '').split(',').map(s => s.trim()).filter(Boolean)
+                .map((name, i) => ({ id: -(i + 1), name, character: '', photo: null })),
+        },
+    };
+}
+
+async function getSeriesItem(account: XtreamAccount, seriesId: string): Promise<MediaItem> {
+    const data = await api<XtreamSeriesInfo>(account, 'get_series_info', { series_id: seriesId });
+    if (!data?.info) throw new Error('Série não encontrada no servidor Xtream');
+    const cached = findCachedItem(makeId(account.id, 'series', seriesId));
+    const base = seriesToItem(
+        account,
+        { ...data.info, series_id: seriesId },
+        cached?.category ?? '',
+        cached?.categoryLabel ?? account.name,
+    );
+
+    // `episodes` vem como objeto { "1": [...] } ou, em alguns painéis, como array de temporadas
+    const rawSeasons: [string, XtreamEpisode[]][] = Array.isArray(data.episodes)
+        ? data.episodes.map((eps, i) => [String(i + 1), eps])
+        : Object.entries(data.episodes ?? {});
+
+    const episodes: SeriesEpisodes = {};
+    let total = 0;
+    for (const [season, eps] of rawSeasons) {
+        if (!Array.isArray(eps) || eps.length === 0) continue;
+        episodes[season] = eps
+            .map((e): Episode => ({
+                id: makeId(account.id, 'ep', e.id),
+                episode: toNumber(e.episode_num),
+                name: e.title || `Episódio ${e.episode_num}`,
+                url: streamUrl(account, 'series', e.id, e.container_extension || 'mp4'),
+                logo: e.info?.movie_image || undefined,
+            }))
+            .sort((a, b) => a.episode - b.episode);
+        total += episodes[season].length;
+    }
+
+    return {
+        ...base,
+        episodes,
+        totalSeasons: Object.keys(episodes).length,
+        totalEpisodes: total,
+    };
+}
+
+/** Detalhes completos de um item `xt:` (url, sinopse, episódios) */
+export async function getXtreamItem(id: string): Promise<MediaItem> {
+    const parsed = parseId(id);
+    if (!parsed) throw new Error(`ID Xtream inválido: ${id}`);
+    const account = requireAccount(parsed.accountId);
+    if (parsed.kind === 'vod') return getVodItem(account, parsed.itemId);
+    if (parsed.kind === 'series') return getSeriesItem(account, parsed.itemId);
+    throw new Error(`Tipo Xtream sem detalhes: ${parsed.kind}`);
+}
+
+export function clearXtreamCatalog(accountId?: string): void {
+    if (accountId) {
+        VOD_CACHE.delete(accountId);
+        SERIES_CACHE.delete(accountId);
+    } else {
+        VOD_CACHE.clear();
+        SERIES_CACHE.clear();
+    }
+}
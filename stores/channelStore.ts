@@ -1,41 +1,161 @@
 import { create } from 'zustand';
 import type { Channel, CategoryId } from '../types';
-import { channels, adultChannels, categoryOrder, getChannelsByCategory } from '../data/channels';
+import { channels, adultChannels } from '../data/channels';
 import { registerChannel } from '../services/epgService';
+import { usePlaylistStore } from './playlistStore';
+import { useXtreamStore } from './xtreamStore';
+import { useHealthStore } from './healthStore';
+import { useSettingsStore } from './settingsStore';
+import { useLiveHistoryStore } from './liveHistoryStore';
+import { useLineupStore, applyLineup } from './lineupStore';
+import { getResolutionClass } from './resolutionStore';
+import { useSourceStore, BUNDLED_SOURCE_ID, PRO_SOURCE_ID, playlistSourceId, xtreamSourceId } from './sourceStore';
+import { mergeChannelLists, channelIdsOf, lookupByChannel } from '../services/channelMerge';
+import {
+    loadCachedProList,
+    fetchProList,
+    formatProListDiff,
+    type ProListMeta,
+} from '../services/proListService';
 
 function sortKey(s: string): string {
     return s.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
 }
 
+function isAdultCategory(category: string): boolean {
+    return category === 'ADULTOS' || category === 'Adulto';
+}
+
+// Pro: categoria na ordem da lista, depois número do canal, depois nome
+function sortProChannels(list: Channel[]): Channel[] {
+    const proCatOrder = Array.from(new Set(list.map(ch => ch.category)));
+    return [...list].sort((a, b) => {
+        const ai = proCatOrder.indexOf(a.category);
+        const bi = proCatOrder.indexOf(b.category);
+        if (ai !== bi) return ai - bi;
+        const an = a.channelNumber ?? 99999;
+        const bn = b.channelNumber ?? 99999;
+        if (an !== bn) return an - bn;
+        const ka = sortKey(a.name), kb = sortKey(b.name);
+        if (ka < kb) return -1;
+        if (ka > kb) return 1;
+        return 0;
+    });
+}
+
+// Cache da mesclagem — só refaz quando alguma lista de origem muda de referência
+let mergeCache: { inputs: Channel[][]; result: Channel[] } | null = null;
+let sortedProCache: { input: Channel[]; result: Channel[] } | null = null;
+let bundledChannels: Channel[] | null = null;
+
+/** Canais de todas as fontes ativas, mesclados e sem duplicatas (antes do lineup) */
+function getMergedChannels(proChannels: Channel[]): Channel[] {
+    const sources = useSourceStore.getState();
+    const playlistState = usePlaylistStore.getState();
+    const xtreamState = useXtreamStore.getState();
+
+    // Ordem = prioridade: embutida, Pro, playlists, Xtream
+    const inputs: Channel[][] = [];
+    if (sources.isEnabled(BUNDLED_SOURCE_ID)) {
+        bundledChannels ??= [...channels, ...adultChannels];
+        inputs.push(bundledChannels);
+    }
+    if (sources.isEnabled(PRO_SOURCE_ID) && proChannels.length > 0) {
+        if (sortedProCache?.input !== proChannels) {
+            sortedProCache = { input: proChannels, result: sortProChannels(proChannels) };
+        }
+        inputs.push(sortedProCache.result);
+    }
+    for (const pl of playlistState.playlists) {
+        const list = playlistState.channels[pl.id];
+        if (list?.length && sources.isEnabled(playlistSourceId(pl.id))) inputs.push(list);
+    }
+    for (const acc of xtreamState.accounts) {
+        const list = xtreamState.channels[acc.id];
+        if (list?.length && sources.isEnabled(xtreamSourceId(acc.id))) inputs.push(list);
+    }
+
+    if (
+        mergeCache &&
+        mergeCache.inputs.length === inputs.length &&
+        mergeCache.inputs.every((l, i) => l === inputs[i])
+    ) {
+        return mergeCache.result;
+    }
+    const result = mergeChannelLists(inputs);
+    mergeCache = { inputs, result };
+    return result;
+}
+
+/** Filtra uma lista de canais por categoria, resolução, grupo do usuário, Favoritos ou Recentes */
+export function filterChannelsByCategory(list: Channel[], category: string, favorites: string[]): Channel[] {
+    let allChs = list;
+    const group = useLineupStore.getState().groups.find(g => g.name === category);
+    if (group) {
+        // Grupos seguem a ordem do lineup
+        const ids = new Set(group.channelIds);
+        allChs = allChs.filter(ch => channelIdsOf(ch).some(id => ids.has(id)));
+    } else if (category === 'Favoritos') {
+        const ids = new Set(favorites);
+        allChs = allChs.filter(ch => channelIdsOf(ch).some(id => ids.has(id)));
+    } else if (category === 'Recentes') {
+        // Ordem do histórico (mais recente primeiro); entradas salvas com o id de outra fonte também valem
+        const byId = new Map<string, Channel>();
+        for (const ch of allChs) {
+            for (const id of channelIdsOf(ch)) if (!byId.has(id)) byId.set(id, ch);
+        }
+        const seen = new Set<Channel>();
+        allChs = useLiveHistoryStore.getState().entries
+            .map(e => byId.get(e.channelId))
+            .filter((ch): ch is Channel => !!ch && !seen.has(ch) && !!seen.add(ch));
+    } else if (['4K', 'FHD', 'HD', 'SD'].includes(category)) {
+        // Índice de resolução (manifesto + player); nome só como fallback
+        allChs = allChs.filter(ch => getResolutionClass(ch) === category);
+    } else if (category !== 'Todos') {
+        allChs = allChs.filter(ch => ch.category === category);
+    }
+    return allChs;
+}
+
 interface ChannelStore {
     // Estado
-    selectedCategory: CategoryId | 'Todos' | 'Favoritos' | string;
+    selectedCategory: CategoryId | 'Todos' | 'Favoritos' | 'Recentes' | string;
     currentChannelId: string | null;
     searchQuery: string;
     isLoading: boolean;
-    isProList: boolean;
     proChannels: Channel[];
+    proListMeta: ProListMeta | null;
+    /** Resumo da última atualização ("12 canais novos, 3 removidos") */
+    proListSummary: string | null;
+    proListError: string | null;
 
     // Ações
     setCategory: (category: CategoryId | 'Todos' | 'Favoritos' | string) => void;
     setCurrentChannel: (channelId: string | null) => void;
     setSearchQuery: (query: string) => void;
     setLoading: (loading: boolean) => void;
-    setProList: (isPro: boolean) => void;
-    fetchProChannels: () => Promise<void>;
+    /** `force` ignora o intervalo de atualização da fonte Pro */
+    fetchProChannels: (force?: boolean) => Promise<void>;
+    clearProListSummary: () => void;
 
     // Seletores
+    getAllChannels: (includeAdult: boolean, includeHidden?: boolean) => Channel[];
     getFilteredChannels: (includeAdult: boolean, favorites: string[]) => Channel[];
     getCategories: (includeAdult: boolean) => string[];
 }
 
+// Evita duas revalidações da lista Pro ao mesmo tempo (toggles rápidos)
+let proRefreshInFlight = false;
+
 export const useChannelStore = create<ChannelStore>((set, get) => ({
     selectedCategory: 'Todos',
     currentChannelId: null,
     searchQuery: '',
     isLoading: false,
-    isProList: false,
     proChannels: [],
+    proListMeta: null,
+    proListSummary: null,
+    proListError: null,
 
     setCategory: (category) => {
         set({ selectedCategory: category });
@@ -53,69 +173,76 @@ export const useChannelStore = create<ChannelStore>((set, get) => ({
         set({ isLoading: loading });
     },
 
-    setProList: (isPro) => {
-        set({ isProList: isPro, selectedCategory: 'Todos' });
-    },
+    fetchProChannels: async (force = false) => {
+        if (proRefreshInFlight) return;
+        proRefreshInFlight = true;
+
+        // Mostra o cache em disco na hora; a revalidação roda em seguida
+        let { proChannels, proListMeta } = get();
+        if (proChannels.length === 0) {
+            const cached = loadCachedProList();
+            if (cached) {
+                cached.channels.forEach(ch => registerChannel(ch.id, ch.name, ch.epgId));
+                proChannels = cached.channels;
+                proListMeta = cached.meta;
+                set({ proChannels, proListMeta });
+            } else {
+                set({ isLoading: true });
+            }
+        }
+
+        // Dentro do intervalo configurado na fonte (0 = só manual): o cache basta
+        const { refreshHours } = useSourceStore.getState().getSettings(PRO_SOURCE_ID);
+        const fresh = refreshHours <= 0 || Date.now() - (proListMeta?.fetchedAt ?? 0) < refreshHours * 3600_000;
+        if (!force && proChannels.length > 0 && proListMeta && fresh) {
+            proRefreshInFlight = false;
+            return;
+        }
 
-    fetchProChannels: async () => {
         try {
-            set({ isLoading: true });
-            const res = await fetch('https://raw.githubusercontent.com/gabrielsaimo/Saimo-TV/main/public/data/lista_pro.json');
-            const data: Channel[] = await res.json();
-            // Register all pro channels with EPG service for name-based matching
-            data.forEach(ch => registerChannel(ch.id, ch.name));
-            set({ proChannels: data, isLoading: false });
+            const result = await fetchProList(proListMeta ? { channels: proChannels, meta: proListMeta } : null);
+            if (result.status === 'updated') {
+                // Só re-registra no EPG quando a lista muda de fato
+                result.channels.forEach(ch => registerChannel(ch.id, ch.name, ch.epgId));
+                set({
+                    proChannels: result.channels,
+                    proListMeta: result.meta,
+                    proListSummary: result.diff ? formatProListDiff(result.diff) : null,
+                    proListError: null,
+                });
+            } else {
+                set({ proListMeta: result.meta, proListError: null });
+            }
         } catch (error) {
-            console.error('Failed to fetch pro channels:', error);
+            console.warn('[ProList] revalidação falhou:', error);
+            set({
+                proListError: get().proChannels.length > 0
+                    ? 'Sem conexão — mostrando a lista salva'
+                    : 'Não foi possível baixar a lista Pro',
+            });
+        } finally {
+            proRefreshInFlight = false;
             set({ isLoading: false });
         }
     },
 
+    clearProListSummary: () => {
+        set({ proListSummary: null });
+    },
+
+    getAllChannels: (includeAdult: boolean, includeHidden = false) => {
+        // Lineup do usuário (ordem, ocultos, nomes/logos) sobre a lista completa:
+        // a numeração não muda quando o conteúdo adulto é desbloqueado
+        const lineup = applyLineup(getMergedChannels(get().proChannels), includeHidden);
+        return includeAdult ? lineup : lineup.filter(ch => !isAdultCategory(ch.category));
+    },
+
     getFilteredChannels: (includeAdult: boolean, favorites: string[]) => {
-        const { selectedCategory, searchQuery, isProList, proChannels } = get();
-
-        // Base de canais
-        let allChs: Channel[] = [];
-        if (isProList) {
-            const base = includeAdult
-                ? proChannels
-                : proChannels.filter(ch => ch.category !== 'ADULTOS' && ch.category !== 'Adulto');
-            // Sort pro channels: by channelNumber if present, else by category+name
-            const proCatOrder = Array.from(new Set(base.map(ch => ch.category)));
-            allChs = [...base].sort((a, b) => {
-                const ai = proCatOrder.indexOf(a.category);
-                const bi = proCatOrder.indexOf(b.category);
-                if (ai !== bi) return ai - bi;
-                const an = a.channelNumber ?? 99999;
-                const bn = b.channelNumber ?? 99999;
-                if (an !== bn) return an - bn;
-                const ka = sortKey(a.name), kb = sortKey(b.name);
-                if (ka < kb) return -1;
-                if (ka > kb) return 1;
-                return 0;
-            });
-        } else {
-            allChs = includeAdult
-                ? [...channels, ...adultChannels]
-                : channels;
-        }
+        const { selectedCategory, searchQuery } = get();
+        let allChs = get().getAllChannels(includeAdult);
 
         // Filtro por categoria ou resolução
-        if (selectedCategory === 'Favoritos') {
-            allChs = allChs.filter(ch => favorites.includes(ch.id));
-        } else if (['4K', 'FHD', 'HD', 'SD'].includes(selectedCategory as string)) {
-            const res = (selectedCategory as string).toLowerCase();
-            allChs = allChs.filter(ch => {
-                const name = ch.name.toLowerCase();
-                if (res === '4k') return name.includes('4k');
-                if (res === 'fhd') return name.includes('fhd') && !name.includes('4k');
-                if (res === 'hd') return (name.includes(' hd') || name.endsWith('hd')) && !name.includes('fhd');
-                if (res === 'sd') return name.includes('sd');
-                return true;
-            });
-        } else if (selectedCategory !== 'Todos') {
-            allChs = allChs.filter(ch => ch.category === selectedCategory);
-        }
+        allChs = filterChannelsByCategory(allChs, selectedCategory, favorites);
 
         // Filtro por busca
         if (searchQuery.trim()) {
@@ -126,22 +253,25 @@ export const useChannelStore = create<ChannelStore>((set, get) => ({
             );
         }
 
+        // Saúde dos canais: esconde ou joga para o fim os que falharam na verificação
+        const { records } = useHealthStore.getState();
+        const isDead = (ch: Channel) => lookupByChannel(records, ch)?.status === 'dead';
+        if (useSettingsStore.getState().onlyWorkingChannels) {
+            allChs = allChs.filter(ch => !isDead(ch));
+        } else if (allChs.some(isDead)) {
+            allChs = [...allChs.filter(ch => !isDead(ch)), ...allChs.filter(isDead)];
+        }
+
         return allChs;
     },
 
     getCategories: (includeAdult: boolean) => {
-        const { isProList, proChannels } = get();
         const resolutions = ['4K', 'FHD', 'HD', 'SD'];
 
-        if (isProList) {
-            const cats = Array.from(new Set(proChannels.map(ch => ch.category)));
-            const filteredCats = includeAdult ? cats : cats.filter(c => c !== 'ADULTOS' && c !== 'Adulto');
-            return ['Todos', 'Favoritos', ...resolutions, ...filteredCats];
-        }
-
-        if (includeAdult) {
-            return ['Todos', 'Favoritos', ...resolutions, ...categoryOrder];
-        }
-        return ['Todos', 'Favoritos', ...resolutions, ...categoryOrder.filter(c => c !== 'Adulto')];
+        // Categorias na ordem em que aparecem nas fontes (já normalizadas na mesclagem)
+        const cats = Array.from(new Set(getMergedChannels(get().proChannels).map(ch => ch.category)));
+        const filteredCats = includeAdult ? cats : cats.filter(c => !isAdultCategory(c));
+        const groupNames = useLineupStore.getState().groups.map(g => g.name);
+        return ['Todos', 'Favoritos', ...groupNames, 'Recentes', ...resolutions, ...filteredCats];
     },
 }));
@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Fontes XMLTV do guia (.xml ou .xml.gz). A ordem da lista é a prioridade:
+// quando duas fontes cobrem o mesmo horário de um canal, vale a de cima.
+
+export interface EpgFeed {
+    id: string;
+    url: string;
+    name?: string;
+    enabled: boolean;
+}
+
+export const DEFAULT_EPG_FEED: EpgFeed = {
+    id: 'default',
+    url: 'https://iptv-epg.org/files/epg-br.xml',
+    name: 'iptv-epg.org (Brasil)',
+    enabled: true,
+};
+
+interface EpgFeedStore {
+    feeds: EpgFeed[];
+
+    addFeed: (url: string, name?: string) => EpgFeed;
+    removeFeed: (id: string) => void;
+    setEnabled: (id: string, enabled: boolean) => void;
+    /** Sobe (-1) ou desce (+1) a fonte na ordem de prioridade */
+    moveFeed: (id: string, delta: number) => void;
+    resetFeeds: () => void;
+}
+
+function newFeedId(): string {
+    return `feed${Date.now().toString(36)}`;
+}
+
+export function feedLabel(feed: EpgFeed): string {
+    if (feed.name) return feed.name;
+    try {
+        return new URL(feed.url).hostname;
+    } catch {
+        return feed.url;
+    }
+}
+
+export const useEpgFeedStore = create<EpgFeedStore>()(
+    persist(
+        (set, get) => ({
+            feeds: [DEFAULT_EPG_FEED],
+
+            addFeed: (url: string, name?: string) => {
+                const trimmed = url.trim();
+                if (!/^https?:\/\/\S+$/i.test(trimmed)) {
+                    throw new Error('Informe uma URL http(s) válida');
+                }
+                if (get().feeds.some(f => f.url === trimmed)) {
+                    throw new Error('Essa fonte já está na lista');
+                }
+                const feed: EpgFeed = { id: newFeedId(), url: trimmed, name: name?.trim() || undefined, enabled: true };
+                set((s) => ({ feeds: [...s.feeds, feed] }));
+                return feed;
+            },
+
+            removeFeed: (id: string) => {
+                set((s) => ({ feeds: s.feeds.filter(f => f.id !== id) }));
+            },
+
+            setEnabled: (id: string, enabled: boolean) => {
+                set((s) => ({ feeds: s.feeds.map(f => (f.id === id ? { ...f, enabled } : f)) }));
+            },
+
+            moveFeed: (id: string, delta: number) => {
+                const feeds = [...get().feeds];
+                const from = feeds.findIndex(f => f.id === id);
+                const to = from + delta;
+                if (from < 0 || to < 0 || to >= feeds.length) return;
+                const [feed] = feeds.splice(from, 1);
+                feeds.splice(to, 0, feed);
+                set({ feeds });
+            },
+
+            resetFeeds: () => set({ feeds: [DEFAULT_EPG_FEED] }),
+        }),
+        {
+            name: 'saimo-epg-feeds',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                feeds: state.feeds,
+            }),
+        }
+    )
+);
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Correspondências de EPG escolhidas à mão: appId → id do canal no XMLTV (null = sem guia)
+
+interface EpgMatchStore {
+    overrides: Record<string, string | null>;
+
+    setOverride: (appId: string, xmlId: string | null) => void;
+    clearOverride: (appId: string) => void;
+    clearAll: () => void;
+}
+
+export const useEpgMatchStore = create<EpgMatchStore>()(
+    persist(
+        (set, get) => ({
+            overrides: {},
+
+            setOverride: (appId: string, xmlId: string | null) => {
+                set((s) => ({ overrides: { ...s.overrides, [appId]: xmlId } }));
+            },
+
+            clearOverride: (appId: string) => {
+                if (!(appId in get().overrides)) return;
+                const { [appId]: _, ...rest } = get().overrides;
+                set({ overrides: rest });
+            },
+
+            clearAll: () => set({ overrides: {} }),
+        }),
+        {
+            name: 'saimo-epg-matches',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                overrides: state.overrides,
+            }),
+        }
+    )
+);
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel } from '../types';
+import { channelIdsOf } from '../services/channelMerge';
 
 interface FavoritesStore {
     favorites: string[];
@@ -9,6 +11,10 @@ interface FavoritesStore {
     removeFavorite: (channelId: string) => void;
     toggleFavorite: (channelId: string) => void;
     isFavorite: (channelId: string) => boolean;
+    /** Favorito por qualquer id do canal (canais mesclados) */
+    isChannelFavorite: (channel: Channel) => boolean;
+    /** Desfavoritar remove todos os ids do canal; favoritar usa o id principal */
+    toggleChannelFavorite: (channel: Channel) => void;
     clearFavorites: () => void;
 }
 
@@ -51,6 +57,24 @@ export const useFavoritesStore = create<FavoritesStore>()(
                 return get().favoriteIds.has(channelId);
             },
 
+            isChannelFavorite: (channel: Channel) => {
+                const { favoriteIds } = get();
+                return channelIdsOf(channel).some(id => favoriteIds.has(id));
+            },
+
+            toggleChannelFavorite: (channel: Channel) => {
+                if (!get().isChannelFavorite(channel)) {
+                    get().addFavorite(channel.id);
+                    return;
+                }
+                const ids = new Set(channelIdsOf(channel));
+                const newFavorites = get().favorites.filter(id => !ids.has(id));
+                set({
+                    favorites: newFavorites,
+                    favoriteIds: new Set(newFavorites),
+                });
+            },
+
             clearFavorites: () => {
                 set({ favorites: [], favoriteIds: new Set<string>() });
             },
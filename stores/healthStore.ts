@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel } from '../types';
+import { runHealthCheck, type ChannelHealth, type HealthCheckHandle } from '../services/channelHealth';
+import { useResolutionStore } from './resolutionStore';
+import { useStreamStore, getChannelStreams } from './streamStore';
+import { lookupByChannel } from '../services/channelMerge';
+
+interface HealthStore {
+    records: Record<string, ChannelHealth>;
+    isChecking: boolean;
+    progress: { done: number; total: number };
+
+    startCheck: (channels: Channel[]) => Promise<void>;
+    cancelCheck: () => void;
+    clearHealth: () => void;
+    isDead: (channel: Channel) => boolean;
+}
+
+// Handle da verificação em andamento (não persiste)
+let currentCheck: HealthCheckHandle | null = null;
+
+export const useHealthStore = create<HealthStore>()(
+    persist(
+        (set, get) => ({
+            records: {},
+            isChecking: false,
+            progress: { done: 0, total: 0 },
+
+            startCheck: async (channels: Channel[]) => {
+                if (currentCheck) return;
+                const byId = new Map(channels.map(ch => [ch.id, ch]));
+                // Acumula resultados e grava em lotes para não re-renderizar a lista a cada probe
+                let pending: Record<string, ChannelHealth> = {};
+                const flush = () => {
+                    if (Object.keys(pending).length === 0) return;
+                    const batch = pending;
+                    pending = {};
+                    set((s) => ({ records: { ...s.records, ...batch } }));
+                    // A verificação também alimenta o índice de resolução pelo manifesto
+                    const heights: Record<string, number> = {};
+                    for (const [id, h] of Object.entries(batch)) if (h.height) heights[id] = h.height;
+                    useResolutionStore.getState().recordMany(heights);
+                    // Principal fora e alternativo no ar: o player já começa pelo que respondeu
+                    for (const [id, h] of Object.entries(batch)) {
+                        const channel = byId.get(id);
+                        if (h.status === 'dead' || !h.streamUrl || !channel) continue;
+                        if (getChannelStreams(channel)[0].url !== h.streamUrl) {
+                            useStreamStore.getState().setLastWorking(id, h.streamUrl);
+                        }
+                    }
+                };
+
+                set({ isChecking: true, progress: { done: 0, total: channels.length } });
+                currentCheck = runHealthCheck(channels, {
+                    onResult: (id, health) => { pending[id] = health; },
+                    onProgress: (done, total) => {
+                        if (done % 10 === 0 || done === total) flush();
+                        set({ progress: { done, total } });
+                    },
+                });
+                try {
+                    await currentCheck.done;
+                } finally {
+                    flush();
+                    currentCheck = null;
+                    set({ isChecking: false });
+                }
+            },
+
+            cancelCheck: () => {
+                currentCheck?.cancel();
+            },
+
+            clearHealth: () => {
+                set({ records: {} });
+            },
+
+            isDead: (channel: Channel) => {
+                return lookupByChannel(get().records, channel)?.status === 'dead';
+            },
+        }),
+        {
+            name: 'saimo-health',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                records: state.records,
+            }),
+        }
+    )
+);
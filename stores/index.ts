@@ -3,3 +3,15 @@ export { useFavoritesStore } from './favoritesStore';
 export { useSettingsStore } from './settingsStore';
 export { useChannelStore } from './channelStore';
 export { useDownloadStore } from './downloadStore';
+export { usePlaylistStore } from './playlistStore';
+export { useXtreamStore } from './xtreamStore';
+export { useStreamStore } from './streamStore';
+export { useHealthStore } from './healthStore';
+export { useLiveHistoryStore } from './liveHistoryStore';
+export { useMultiViewStore } from './multiViewStore';
+export { useLineupStore } from './lineupStore';
+export { useResolutionStore } from './resolutionStore';
+export { useSourceStore } from './sourceStore';
+export { useEpgMatchStore } from './epgMatchStore';
+export { useEpgFeedStore } from './epgFeedStore';
+export { useReminderStore } from './reminderStore';
@@ -0,0 +1,174 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel } from '../types';
+import { channelIdsOf, lookupByChannel } from '../services/channelMerge';
+
+// Lineup do usuário: ordem, canais ocultos, nomes/logos próprios e grupos.
+// Fica por cima da lista base do channelStore (offiline.json, Pro, playlists, Xtream).
+
+export interface ChannelOverride {
+    name?: string;
+    logo?: string;
+}
+
+export interface ChannelGroup {
+    id: string;
+    name: string;
+    channelIds: string[];
+}
+
+interface LineupStore {
+    // Ordem personalizada (ids); canais fora dela mantêm a ordem natural, no fim
+    order: string[];
+    hidden: string[];
+    overrides: Record<string, ChannelOverride>;
+    groups: ChannelGroup[];
+
+    moveChannel: (currentIds: string[], fromId: string, toId: string) => void;
+    setHidden: (channel: Channel, hidden: boolean) => void;
+    setOverride: (channel: Channel, override: ChannelOverride | null) => void;
+    createGroup: (name: string) => ChannelGroup;
+    renameGroup: (groupId: string, name: string) => void;
+    deleteGroup: (groupId: string) => void;
+    toggleInGroup: (groupId: string, channel: Channel) => void;
+    resetLineup: () => void;
+}
+
+export const useLineupStore = create<LineupStore>()(
+    persist(
+        (set, get) => ({
+            order: [],
+            hidden: [],
+            overrides: {},
+            groups: [],
+
+            moveChannel: (currentIds: string[], fromId: string, toId: string) => {
+                if (fromId === toId) return;
+                const ids = currentIds.filter(id => id !== fromId);
+                const to = ids.indexOf(toId);
+                if (to < 0) return;
+                // Descendo: entra depois do alvo; subindo: antes
+                const movingDown = currentIds.indexOf(fromId) < currentIds.indexOf(toId);
+                ids.splice(movingDown ? to + 1 : to, 0, fromId);
+                set({ order: ids });
+            },
+
+            setHidden: (channel: Channel, hidden: boolean) => {
+                const ids = channelIdsOf(channel);
+                const rest = get().hidden.filter(id => !ids.includes(id));
+                set({ hidden: hidden ? [...rest, channel.id] : rest });
+            },
+
+            setOverride: (channel: Channel, override: ChannelOverride | null) => {
+                const rest = { ...get().overrides };
+                channelIdsOf(channel).forEach(id => delete rest[id]);
+                const name = override?.name?.trim();
+                const logo = override?.logo?.trim();
+                if (!name && !logo) {
+                    set({ overrides: rest });
+                    return;
+                }
+                set({ overrides: { ...rest, [channel.id]: { name: name || undefined, logo: logo || undefined } } });
+            },
+
+            createGroup: (name: string) => {
+                const group: ChannelGroup = {
+                    id: `grp_${Date.now().toString(36)}`,
+                    name: name.trim(),
+                    channelIds: [],
+                };
+                set((s) => ({ groups: [...s.groups, group] }));
+                return group;
+            },
+
+            renameGroup: (groupId: string, name: string) => {
+                set((s) => ({
+                    groups: s.groups.map(g => g.id === groupId ? { ...g, name: name.trim() } : g),
+                }));
+            },
+
+            deleteGroup: (groupId: string) => {
+                set((s) => ({ groups: s.groups.filter(g => g.id !== groupId) }));
+            },
+
+            toggleInGroup: (groupId: string, channel: Channel) => {
+                const ids = channelIdsOf(channel);
+                set((s) => ({
+                    groups: s.groups.map(g => {
+                        if (g.id !== groupId) return g;
+                        return isInGroup(g, channel)
+                            ? { ...g, channelIds: g.channelIds.filter(id => !ids.includes(id)) }
+                            : { ...g, channelIds: [...g.channelIds, channel.id] };
+                    }),
+                }));
+            },
+
+            resetLineup: () => {
+                set({ order: [], hidden: [], overrides: {} });
+            },
+        }),
+        {
+            name: 'saimo-lineup',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                order: state.order,
+                hidden: state.hidden,
+                overrides: state.overrides,
+                groups: state.groups,
+            }),
+        }
+    )
+);
+
+/** O canal (por qualquer um dos seus ids) está no grupo? */
+export function isInGroup(group: ChannelGroup, channel: Channel): boolean {
+    return channelIdsOf(channel).some(id => group.channelIds.includes(id));
+}
+
+/** Nome/logo personalizados do canal, salvos com qualquer um dos seus ids */
+export function getOverride(channel: Channel): ChannelOverride | undefined {
+    return lookupByChannel(useLineupStore.getState().overrides, channel);
+}
+
+/** Aplica nome/logo personalizados a um canal */
+export function withOverride(channel: Channel): Channel {
+    const override = getOverride(channel);
+    if (!override) return channel;
+    return {
+        ...channel,
+        name: override.name ?? channel.name,
+        logo: override.logo ?? channel.logo,
+    };
+}
+
+/**
+ * Aplica o lineup à lista base completa (com adultos): ordem personalizada, overrides e ocultos.
+ * Com ordem personalizada, `channelNumber` passa a seguir essa ordem
+ * (ocultos e adultos contam, para a numeração não mudar ao esconder ou desbloquear canais).
+ */
+export function applyLineup(channels: Channel[], includeHidden = false): Channel[] {
+    const { order, hidden, overrides } = useLineupStore.getState();
+    let list = channels;
+
+    if (order.length > 0) {
+        const pos = new Map(order.map((id, i) => [id, i]));
+        // Canal mesclado fica na posição do primeiro id seu que aparece na ordem
+        const position = (ch: Channel) => {
+            const found = channelIdsOf(ch).map(id => pos.get(id)).filter((p): p is number => p !== undefined);
+            return found.length > 0 ? Math.min(...found) : undefined;
+        };
+        list = channels
+            .map((ch, i) => ({ ch, key: position(ch) ?? order.length + i }))
+            .sort((a, b) => a.key - b.key)
+            .map(({ ch }, i) => ({ ...ch, channelNumber: i + 1 }));
+    }
+
+    if (Object.keys(overrides).length > 0) list = list.map(withOverride);
+
+    if (!includeHidden && hidden.length > 0) {
+        const hiddenSet = new Set(hidden);
+        list = list.filter(ch => !channelIdsOf(ch).some(id => hiddenSet.has(id)));
+    }
+    return list;
+}
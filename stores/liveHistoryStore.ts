@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const MAX_ENTRIES = 50;
+
+export interface LiveHistoryEntry {
+    channelId: string;
+    /** Última vez que o canal foi aberto */
+    watchedAt: number;
+    /** Tempo total assistido (ms), somando todas as sessões */
+    watchedMs: number;
+}
+
+interface LiveHistoryStore {
+    // Mais recente primeiro
+    entries: LiveHistoryEntry[];
+
+    recordStart: (channelId: string) => void;
+    addWatchTime: (channelId: string, ms: number) => void;
+    removeEntry: (channelId: string) => void;
+    clearHistory: () => void;
+    getLastChannelId: () => string | null;
+}
+
+export const useLiveHistoryStore = create<LiveHistoryStore>()(
+    persist(
+        (set, get) => ({
+            entries: [],
+
+            recordStart: (channelId: string) => {
+                const { entries } = get();
+                const existing = entries.find(e => e.channelId === channelId);
+                const entry = { channelId, watchedAt: Date.now(), watchedMs: existing?.watchedMs ?? 0 };
+                set({
+                    entries: [entry, ...entries.filter(e => e.channelId !== channelId)].slice(0, MAX_ENTRIES),
+                });
+            },
+
+            addWatchTime: (channelId: string, ms: number) => {
+                if (ms <= 0) return;
+                set((s) => ({
+                    entries: s.entries.map(e => e.channelId === channelId
+                        ? { ...e, watchedMs: e.watchedMs + ms }
+                        : e),
+                }));
+            },
+
+            removeEntry: (channelId: string) => {
+                set((s) => ({ entries: s.entries.filter(e => e.channelId !== channelId) }));
+            },
+
+            clearHistory: () => {
+                set({ entries: [] });
+            },
+
+            getLastChannelId: () => {
+                return get().entries[0]?.channelId ?? null;
+            },
+        }),
+        {
+            name: 'saimo-live-history',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                entries: state.entries,
+            }),
+        }
+    )
+);
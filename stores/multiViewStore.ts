@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+
+// Mais que isso estoura memória/decodificadores em aparelhos modestos
+export const MULTIVIEW_MAX_TILES = 4;
+
+interface MultiViewStore {
+    // Canais nos quadros, na ordem do grid
+    channelIds: string[];
+    // Único quadro com áudio
+    audioChannelId: string | null;
+
+    addChannel: (channelId: string) => boolean;
+    replaceChannel: (oldId: string, newId: string) => void;
+    removeChannel: (channelId: string) => void;
+    setAudioChannel: (channelId: string) => void;
+    clear: () => void;
+}
+
+export const useMultiViewStore = create<MultiViewStore>((set, get) => ({
+    channelIds: [],
+    audioChannelId: null,
+
+    addChannel: (channelId: string) => {
+        const { channelIds, audioChannelId } = get();
+        if (channelIds.includes(channelId)) return true;
+        if (channelIds.length >= MULTIVIEW_MAX_TILES) return false;
+        set({
+            channelIds: [...channelIds, channelId],
+            audioChannelId: audioChannelId ?? channelId,
+        });
+        return true;
+    },
+
+    replaceChannel: (oldId: string, newId: string) => {
+        const { channelIds, audioChannelId } = get();
+        if (channelIds.includes(newId)) return;
+        set({
+            channelIds: channelIds.map(id => id === oldId ? newId : id),
+            audioChannelId: audioChannelId === oldId ? newId : audioChannelId,
+        });
+    },
+
+    removeChannel: (channelId: string) => {
+        const { channelIds, audioChannelId } = get();
+        const remaining = channelIds.filter(id => id !== channelId);
+        set({
+            channelIds: remaining,
+            // Áudio passa para o primeiro quadro restante
+            audioChannelId: audioChannelId === channelId ? (remaining[0] ?? null) : audioChannelId,
+        });
+    },
+
+    setAudioChannel: (channelId: string) => {
+        if (get().channelIds.includes(channelId)) set({ audioChannelId: channelId });
+    },
+
+    clear: () => {
+        set({ channelIds: [], audioChannelId: null });
+    },
+}));
@@ -0,0 +1,191 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel } from '../types';
+import { registerChannel } from '../services/epgService';
+import {
+    fetchPlaylist,
+    pickPlaylistFile,
+    readPlaylistFile,
+    copyPlaylistFile,
+    savePlaylistChannels,
+    loadPlaylistChannels,
+    deletePlaylistFiles,
+} from '../services/playlistService';
+import type { ParsedPlaylist } from '../services/m3uParser';
+import { useSourceStore, playlistSourceId } from './sourceStore';
+
+export interface Playlist {
+    id: string;
+    name: string;
+    kind: 'url' | 'file';
+    /** URL remota ou URI do arquivo copiado para o app */
+    source: string;
+    channelCount: number;
+    epgUrl?: string;
+    updatedAt: number;
+    error?: string;
+}
+
+interface PlaylistStore {
+    playlists: Playlist[];
+    // Canais por playlist — mantidos em disco, fora do AsyncStorage
+    channels: Record<string, Channel[]>;
+    isImporting: boolean;
+
+    addFromUrl: (name: string, url: string) => Promise<Playlist>;
+    importFile: () => Promise<Playlist | null>;
+    refreshPlaylist: (id: string) => Promise<void>;
+    removePlaylist: (id: string) => void;
+    loadFromDisk: () => void;
+
+    getAllChannels: () => Channel[];
+    getCategories: () => string[];
+}
+
+function newPlaylistId(): string {
+    return `m3u${Date.now().toString(36)}`;
+}
+
+function registerForEPG(channels: Channel[]): void {
+    channels.forEach(ch => registerChannel(ch.id, ch.name, ch.epgId));
+}
+
+export const usePlaylistStore = create<PlaylistStore>()(
+    persist(
+        (set, get) => ({
+            playlists: [],
+            channels: {},
+            isImporting: false,
+
+            addFromUrl: async (name: string, url: string) => {
+                const id = newPlaylistId();
+                const label = name.trim() || 'Minha lista';
+                set({ isImporting: true });
+                try {
+                    const parsed = await fetchPlaylist(url.trim(), id, label);
+                    if (parsed.channels.length === 0) throw new Error('Nenhum canal encontrado na playlist');
+                    const playlist: Playlist = {
+                        id,
+                        name: label,
+                        kind: 'url',
+                        source: url.trim(),
+                        channelCount: parsed.channels.length,
+                        epgUrl: parsed.epgUrl,
+                        updatedAt: Date.now(),
+                    };
+                    savePlaylistChannels(id, parsed.channels);
+                    registerForEPG(parsed.channels);
+                    set((s) => ({
+                        playlists: [...s.playlists, playlist],
+                        channels: { ...s.channels, [id]: parsed.channels },
+                    }));
+                    return playlist;
+                } finally {
+                    set({ isImporting: false });
+                }
+            },
+
+            importFile: async () => {
+                const picked = await pickPlaylistFile();
+                if (!picked) return null;
+                const id = newPlaylistId();
+                const fileName = picked.split('/').pop()?.replace(/\.m3u8?$/i, '') ?? '';
+                let label = fileName || 'Arquivo local';
+                try { label = decodeURIComponent(label); } catch {}
+                set({ isImporting: true });
+                try {
+                    const localUri = copyPlaylistFile(picked, id);
+                    const parsed = readPlaylistFile(localUri, id, label);
+                    if (parsed.channels.length === 0) {
+                        deletePlaylistFiles(id);
+                        throw new Error('Nenhum canal encontrado no arquivo');
+                    }
+                    const playlist: Playlist = {
+                        id,
+                        name: label,
+                        kind: 'file',
+                        source: localUri,
+                        channelCount: parsed.channels.length,
+                        epgUrl: parsed.epgUrl,
+                        updatedAt: Date.now(),
+                    };
+                    savePlaylistChannels(id, parsed.channels);
+                    registerForEPG(parsed.channels);
+                    set((s) => ({
+                        playlists: [...s.playlists, playlist],
+                        channels: { ...s.channels, [id]: parsed.channels },
+                    }));
+                    return playlist;
+                } finally {
+                    set({ isImporting: false });
+                }
+            },
+
+            refreshPlaylist: async (id: string) => {
+                const playlist = get().playlists.find(p => p.id === id);
+                if (!playlist) return;
+                const patch = (p: Partial<Playlist>) => set((s) => ({
+                    playlists: s.playlists.map(pl => (pl.id === id ? { ...pl, ...p } : pl)),
+                }));
+                try {
+                    const parsed: ParsedPlaylist = playlist.kind === 'url'
+                        ? await fetchPlaylist(playlist.source, id, playlist.name)
+                        : readPlaylistFile(playlist.source, id, playlist.name);
+                    savePlaylistChannels(id, parsed.channels);
+                    registerForEPG(parsed.channels);
+                    set((s) => ({ channels: { ...s.channels, [id]: parsed.channels } }));
+                    patch({
+                        channelCount: parsed.channels.length,
+                        epgUrl: parsed.epgUrl,
+                        updatedAt: Date.now(),
+                        error: undefined,
+                    });
+                } catch (e: any) {
+                    console.warn('[Playlist] refresh falhou:', id, e);
+                    // Mantém os canais anteriores — só registra o erro
+                    patch({ error: e?.message || 'Falha ao atualizar' });
+                }
+            },
+
+            removePlaylist: (id: string) => {
+                deletePlaylistFiles(id);
+                useSourceStore.getState().forgetSource(playlistSourceId(id));
+                set((s) => {
+                    const channels = { ...s.channels };
+                    delete channels[id];
+                    return { playlists: s.playlists.filter(p => p.id !== id), channels };
+                });
+            },
+
+            loadFromDisk: () => {
+                const channels: Record<string, Channel[]> = {};
+                for (const pl of get().playlists) {
+                    channels[pl.id] = loadPlaylistChannels(pl.id);
+                    registerForEPG(channels[pl.id]);
+                }
+                set({ channels });
+            },
+
+            getAllChannels: () => {
+                const { playlists, channels } = get();
+                return playlists.flatMap(p => channels[p.id] ?? []);
+            },
+
+            getCategories: () => {
+                return Array.from(new Set(get().getAllChannels().map(ch => ch.category)));
+            },
+        }),
+        {
+            name: 'saimo-playlists',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                playlists: state.playlists,
+            }),
+            // Canais ficam em disco — carrega depois que os metadados voltam
+            onRehydrateStorage: () => (state) => {
+                state?.loadFromDisk();
+            },
+        }
+    )
+);
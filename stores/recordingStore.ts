@@ -0,0 +1,157 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel, DownloadStatus, DownloadTask, Program, ScheduledRecording } from '../types';
+import { useDownloadStore } from './downloadStore';
+import { channelMatchesId } from '../services/channelMerge';
+import { scheduleRecordingNotification, cancelRecordingNotification } from '../services/downloadNotifications';
+
+// Gravações agendadas pelo EPG. Na hora de começar saem daqui e viram tarefas
+// do downloadManager (ver recordingScheduler).
+
+/** Gravações ao mesmo tempo — cada uma é um stream ao vivo inteiro baixando */
+export const MAX_SIMULTANEOUS_RECORDINGS = 2;
+
+// Tarefa de gravação que ainda ocupa o stream
+const ACTIVE_STATUSES: DownloadStatus[] = ['queued', 'downloading', 'paused'];
+
+export function recordingId(channelId: string, startTime: Date | number): string {
+    return `${channelId}@${typeof startTime === 'number' ? startTime : startTime.getTime()}`;
+}
+
+/** Janela gravada, já com as margens */
+export function recordingWindow(r: ScheduledRecording): { start: number; end: number } {
+    return {
+        start: r.startTime - r.paddingBefore * 60000,
+        end: r.endTime + r.paddingAfter * 60000,
+    };
+}
+
+/**
+ * Gravação em andamento do programa: o agendamento já saiu da agenda e virou tarefa do
+ * downloadManager. Cobre o fim do programa no mesmo canal — o início pode ter atrasado.
+ */
+export function findProgramRecordingTask(
+    tasks: Record<string, DownloadTask>,
+    channel: Channel,
+    program: Program
+): DownloadTask | undefined {
+    const end = program.endTime.getTime();
+    return Object.values(tasks).find(t => !!t.recording
+        && ACTIVE_STATUSES.includes(t.status)
+        && channelMatchesId(channel, t.recording.channelId)
+        && t.recording.startTime < end
+        && t.recording.endTime >= end);
+}
+
+/** Gravação agendada ou em andamento ocupando um horário */
+export interface RecordingSlot {
+    id: string;
+    title: string;
+    channelName: string;
+    start: number;
+    end: number;
+    /** Já gravando (tarefa do downloadManager) */
+    active: boolean;
+}
+
+function recordingSlots(): RecordingSlot[] {
+    const scheduled = useRecordingStore.getState().recordings.map(r => ({
+        id: r.id,
+        title: r.title,
+        channelName: r.channelName,
+        ...recordingWindow(r),
+        active: false,
+    }));
+    const running = Object.values(useDownloadStore.getState().tasks)
+        .filter(t => t.recording && ACTIVE_STATUSES.includes(t.status))
+        .map(t => ({
+            id: t.id,
+            title: t.title,
+            channelName: t.recording!.channelName,
+            start: t.recording!.startTime,
+            end: t.recording!.endTime,
+            active: true,
+        }));
+    return [...scheduled, ...running];
+}
+
+/**
+ * Gravações que já lotam algum momento de [start, end) — vazio se cabe mais uma.
+ * Devolve as que estão ativas no horário mais cheio, para o usuário escolher o que substituir.
+ */
+export function findRecordingConflicts(start: number, end: number, ignoreId?: string): RecordingSlot[] {
+    const overlapping = recordingSlots().filter(s => s.id !== ignoreId && s.start < end && s.end > start);
+    const points = [start, ...overlapping.map(s => s.start).filter(t => t > start)];
+    let peak: RecordingSlot[] = [];
+    for (const t of points) {
+        const busy = overlapping.filter(s => s.start <= t && s.end > t);
+        if (busy.length > peak.length) peak = busy;
+    }
+    return peak.length >= MAX_SIMULTANEOUS_RECORDINGS ? peak : [];
+}
+
+interface RecordingStore {
+    recordings: ScheduledRecording[];
+
+    /** null se o programa (com a margem) já terminou */
+    addRecording: (channel: Channel, program: Program, paddingBefore: number, paddingAfter: number) => ScheduledRecording | null;
+    removeRecording: (id: string) => void;
+    hasRecording: (channelId: string, startTime: Date) => boolean;
+    /** Descarta gravações cuja janela já terminou (app fechado o tempo todo) */
+    pruneRecordings: () => void;
+}
+
+export const useRecordingStore = create<RecordingStore>()(
+    persist(
+        (set, get) => ({
+            recordings: [],
+
+            addRecording: (channel: Channel, program: Program, paddingBefore: number, paddingAfter: number) => {
+                const recording: ScheduledRecording = {
+                    id: recordingId(channel.id, program.startTime),
+                    channelId: channel.id,
+                    channelName: channel.name,
+                    channelLogo: channel.logo || undefined,
+                    title: program.title,
+                    startTime: program.startTime.getTime(),
+                    endTime: program.endTime.getTime(),
+                    paddingBefore,
+                    paddingAfter,
+                };
+                if (recordingWindow(recording).end <= Date.now()) return null;
+                // Sem permissão de notificação a gravação acontece igual, só não avisa
+                scheduleRecordingNotification(recording).catch(() => {});
+                set((s) => ({
+                    recordings: [...s.recordings.filter(r => r.id !== recording.id), recording]
+                        .sort((a, b) => a.startTime - b.startTime),
+                }));
+                return recording;
+            },
+
+            removeRecording: (id: string) => {
+                cancelRecordingNotification(id);
+                set((s) => ({ recordings: s.recordings.filter(r => r.id !== id) }));
+            },
+
+            hasRecording: (channelId: string, startTime: Date) => {
+                const id = recordingId(channelId, startTime);
+                return get().recordings.some(r => r.id === id);
+            },
+
+            pruneRecordings: () => {
+                const now = Date.now();
+                const recordings = get().recordings;
+                const upcoming = recordings.filter(r => recordingWindow(r).end > now);
+                if (upcoming.length !== recordings.length) set({ recordings: upcoming });
+            },
+        }),
+        {
+            name: 'saimo-recordings',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                recordings: state.recordings,
+            }),
+        }
+    )
+);
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel, Program, ProgramReminder } from '../types';
+import { scheduleReminderNotification, cancelReminderNotification } from '../services/downloadNotifications';
+
+// Lembretes de programas do EPG. O id é canal + início, então o lembrete continua
+// valendo quando o guia é recarregado e os programas ganham ids novos.
+
+export const REMINDER_LEAD_OPTIONS = [5, 15];
+
+export function reminderId(channelId: string, startTime: Date | number): string {
+    return `${channelId}@${typeof startTime === 'number' ? startTime : startTime.getTime()}`;
+}
+
+interface ReminderStore {
+    reminders: ProgramReminder[];
+
+    /** false se o programa já começou ou a notificação não pôde ser agendada */
+    addReminder: (channel: Channel, program: Program, leadMinutes: number) => Promise<boolean>;
+    removeReminder: (id: string) => void;
+    hasReminder: (channelId: string, startTime: Date) => boolean;
+    /** Descarta lembretes de programas que já começaram */
+    pruneReminders: () => void;
+}
+
+export const useReminderStore = create<ReminderStore>()(
+    persist(
+        (set, get) => ({
+            reminders: [],
+
+            addReminder: async (channel: Channel, program: Program, leadMinutes: number) => {
+                const reminder: ProgramReminder = {
+                    id: reminderId(channel.id, program.startTime),
+                    channelId: channel.id,
+                    channelName: channel.name,
+                    title: program.title,
+                    startTime: program.startTime.getTime(),
+                    endTime: program.endTime.getTime(),
+                    leadMinutes,
+                };
+                if (reminder.startTime <= Date.now()) return false;
+                // Reagendar substitui o aviso anterior (mesmo identificador)
+                if (!(await scheduleReminderNotification(reminder))) return false;
+                set((s) => ({
+                    reminders: [...s.reminders.filter(r => r.id !== reminder.id), reminder]
+                        .sort((a, b) => a.startTime - b.startTime),
+                }));
+                return true;
+            },
+
+            removeReminder: (id: string) => {
+                cancelReminderNotification(id);
+                set((s) => ({ reminders: s.reminders.filter(r => r.id !== id) }));
+            },
+
+            hasReminder: (channelId: string, startTime: Date) => {
+                const id = reminderId(channelId, startTime);
+                return get().reminders.some(r => r.id === id);
+            },
+
+            pruneReminders: () => {
+                const now = Date.now();
+                const reminders = get().reminders;
+                const upcoming = reminders.filter(r => r.startTime > now);
+                if (upcoming.length !== reminders.length) set({ reminders: upcoming });
+            },
+        }),
+        {
+            name: 'saimo-reminders',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                reminders: state.reminders,
+            }),
+        }
+    )
+);
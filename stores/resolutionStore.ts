@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel } from '../types';
+import { channelIdsOf } from '../services/channelMerge';
+
+export type ResolutionClass = '4K' | 'FHD' | 'HD' | 'SD';
+
+export interface ResolutionRecord {
+    /** Maior altura conhecida (px) */
+    height: number;
+    /** 'playback' = visto no player; vale mais que o manifesto */
+    source: 'manifest' | 'playback';
+    updatedAt: number;
+}
+
+interface ResolutionStore {
+    records: Record<string, ResolutionRecord>;
+
+    recordHeight: (channelId: string, height: number, source: ResolutionRecord['source']) => void;
+    recordMany: (heights: Record<string, number>) => void;
+    clearResolutions: () => void;
+}
+
+export function heightToClass(height: number): ResolutionClass {
+    if (height >= 2160) return '4K';
+    if (height >= 1080) return 'FHD';
+    if (height >= 720) return 'HD';
+    return 'SD';
+}
+
+// Heurística antiga pelo nome — só para canais que o resolutionIndexer ainda não leu
+function classFromName(name: string): ResolutionClass | null {
+    const n = name.toLowerCase();
+    if (n.includes('4k') || n.includes('uhd')) return '4K';
+    if (n.includes('fhd') || n.includes('1080')) return 'FHD';
+    if (/\bhd\b/.test(n)) return 'HD';
+    if (/\bsd\b/.test(n)) return 'SD';
+    return null;
+}
+
+/** Classe de resolução do canal: medida (manifesto/player) ou, sem medição, pelo nome */
+export function getResolutionClass(channel: Channel): ResolutionClass | null {
+    const { records } = useResolutionStore.getState();
+    // Canal mesclado: qualquer um dos seus ids; o visto no player vale mais
+    const found = channelIdsOf(channel).map(id => records[id]).filter((r): r is ResolutionRecord => !!r);
+    const record = found.find(r => r.source === 'playback') ?? found[0];
+    if (record) return heightToClass(record.height);
+    return classFromName(channel.name);
+}
+
+export const useResolutionStore = create<ResolutionStore>()(
+    persist(
+        (set, get) => ({
+            records: {},
+
+            recordHeight: (channelId: string, height: number, source: ResolutionRecord['source']) => {
+                if (!(height > 0)) return;
+                const prev = get().records[channelId];
+                // Manifesto não sobrescreve o que o player já viu; player guarda a maior altura vista
+                if (prev?.source === 'playback' && source === 'manifest') return;
+                if (prev?.source === source && prev.height >= height) return;
+                set((s) => ({
+                    records: { ...s.records, [channelId]: { height, source, updatedAt: Date.now() } },
+                }));
+            },
+
+            recordMany: (heights: Record<string, number>) => {
+                const { records } = get();
+                const next = { ...records };
+                let changed = false;
+                for (const [channelId, height] of Object.entries(heights)) {
+                    if (!(height > 0) || records[channelId]?.source === 'playback') continue;
+                    next[channelId] = { height, source: 'manifest', updatedAt: Date.now() };
+                    changed = true;
+                }
+                if (changed) set({ records: next });
+            },
+
+            clearResolutions: () => {
+                set({ records: {} });
+            },
+        }),
+        {
+            name: 'saimo-resolutions',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                records: state.records,
+            }),
+        }
+    )
+);
@@ -4,6 +4,12 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const DEFAULT_PIN = '1234';
 
+/** Minutos de timeshift (pausar/voltar o ao vivo); 0 = desligado */
+export const TIMESHIFT_OPTIONS = [0, 5, 15, 30];
+
+/** Margens das gravações agendadas: [minutos antes do início, minutos depois do fim] */
+export const RECORDING_PADDING_OPTIONS: [number, number][] = [[0, 0], [2, 5], [5, 10], [10, 15]];
+
 export interface SettingsStore {
     // PIN e controle adulto
     adultPin: string;
@@ -12,10 +18,17 @@ export interface SettingsStore {
     // Player
     autoplay: boolean;
     volume: number;
+    resumeLastChannel: boolean;
+    timeshiftMinutes: number;
+
+    // Gravações
+    recordingPaddingBefore: number;
+    recordingPaddingAfter: number;
 
     // UI
     showChannelNumber: boolean;
     showEPG: boolean;
+    onlyWorkingChannels: boolean;
 
     // Ações
     setAdultPin: (pin: string) => void;
@@ -24,8 +37,12 @@ export interface SettingsStore {
     lockAdult: () => void;
     setAutoplay: (value: boolean) => void;
     setVolume: (value: number) => void;
+    setResumeLastChannel: (value: boolean) => void;
+    setTimeshiftMinutes: (minutes: number) => void;
+    setRecordingPadding: (before: number, after: number) => void;
     setShowChannelNumber: (value: boolean) => void;
     setShowEPG: (value: boolean) => void;
+    setOnlyWorkingChannels: (value: boolean) => void;
     resetSettings: () => void;
 }
 
@@ -34,8 +51,13 @@ const initialState = {
     adultUnlocked: false,
     autoplay: true,
     volume: 1,
+    resumeLastChannel: false,
+    timeshiftMinutes: 0,
+    recordingPaddingBefore: 2,
+    recordingPaddingAfter: 5,
     showChannelNumber: true,
     showEPG: true,
+    onlyWorkingChannels: false,
 };
 
 export const useSettingsStore = create<SettingsStore>()(
@@ -69,6 +91,21 @@ export const useSettingsStore = create<SettingsStore>()(
                 set({ volume: Math.max(0, Math.min(1, value)) });
             },
 
+            setResumeLastChannel: (value: boolean) => {
+                set({ resumeLastChannel: value });
+            },
+
+            setTimeshiftMinutes: (minutes: number) => {
+                set({ timeshiftMinutes: Math.max(0, Math.round(minutes)) });
+            },
+
+            setRecordingPadding: (before: number, after: number) => {
+                set({
+                    recordingPaddingBefore: Math.max(0, Math.round(before)),
+                    recordingPaddingAfter: Math.max(0, Math.round(after)),
+                });
+            },
+
             setShowChannelNumber: (value: boolean) => {
                 set({ showChannelNumber: value });
             },
@@ -77,6 +114,10 @@ export const useSettingsStore = create<SettingsStore>()(
                 set({ showEPG: value });
             },
 
+            setOnlyWorkingChannels: (value: boolean) => {
+                set({ onlyWorkingChannels: value });
+            },
+
             resetSettings: () => {
                 set(initialState);
             },
@@ -89,8 +130,13 @@ export const useSettingsStore = create<SettingsStore>()(
                 adultUnlocked: state.adultUnlocked,
                 autoplay: state.autoplay,
                 volume: state.volume,
+                resumeLastChannel: state.resumeLastChannel,
+                timeshiftMinutes: state.timeshiftMinutes,
+                recordingPaddingBefore: state.recordingPaddingBefore,
+                recordingPaddingAfter: state.recordingPaddingAfter,
                 showChannelNumber: state.showChannelNumber,
                 showEPG: state.showEPG,
+                onlyWorkingChannels: state.onlyWorkingChannels,
             }),
         }
     )
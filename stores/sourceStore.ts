@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Fontes de canais: lista embutida, lista Pro, playlists M3U (URL/arquivo) e contas Xtream.
+// Ids: 'bundled', 'pro', 'playlist:<id>', 'xtream:<id>'
+
+export type SourceKind = 'bundled' | 'pro' | 'playlist' | 'xtream';
+
+export interface SourceSettings {
+    enabled: boolean;
+    /** Intervalo de atualização automática em horas (0 = só manual) */
+    refreshHours: number;
+    /** Nome personalizado (senão usa o da playlist/conta) */
+    name?: string;
+}
+
+export const BUNDLED_SOURCE_ID = 'bundled';
+export const PRO_SOURCE_ID = 'pro';
+
+export const REFRESH_OPTIONS_HOURS = [0, 6, 12, 24];
+
+const DEFAULTS: Record<SourceKind, SourceSettings> = {
+    bundled: { enabled: true, refreshHours: 0 },
+    pro: { enabled: false, refreshHours: 6 },
+    playlist: { enabled: true, refreshHours: 24 },
+    xtream: { enabled: true, refreshHours: 12 },
+};
+
+export function playlistSourceId(playlistId: string): string {
+    return `playlist:${playlistId}`;
+}
+
+export function xtreamSourceId(accountId: string): string {
+    return `xtream:${accountId}`;
+}
+
+export function sourceKindOf(sourceId: string): SourceKind {
+    if (sourceId === BUNDLED_SOURCE_ID) return 'bundled';
+    if (sourceId === PRO_SOURCE_ID) return 'pro';
+    return sourceId.startsWith('xtream:') ? 'xtream' : 'playlist';
+}
+
+interface SourceStore {
+    // Só o que o usuário mudou; o resto vem de DEFAULTS
+    settings: Record<string, Partial<SourceSettings>>;
+
+    getSettings: (sourceId: string) => SourceSettings;
+    isEnabled: (sourceId: string) => boolean;
+    setEnabled: (sourceId: string, enabled: boolean) => void;
+    setRefreshHours: (sourceId: string, hours: number) => void;
+    setName: (sourceId: string, name: string) => void;
+    forgetSource: (sourceId: string) => void;
+}
+
+export const useSourceStore = create<SourceStore>()(
+    persist(
+        (set, get) => ({
+            settings: {},
+
+            getSettings: (sourceId: string) => {
+                return { ...DEFAULTS[sourceKindOf(sourceId)], ...get().settings[sourceId] };
+            },
+
+            isEnabled: (sourceId: string) => {
+                return get().getSettings(sourceId).enabled;
+            },
+
+            setEnabled: (sourceId: string, enabled: boolean) => {
+                set((s) => ({ settings: { ...s.settings, [sourceId]: { ...s.settings[sourceId], enabled } } }));
+            },
+
+            setRefreshHours: (sourceId: string, hours: number) => {
+                set((s) => ({ settings: { ...s.settings, [sourceId]: { ...s.settings[sourceId], refreshHours: hours } } }));
+            },
+
+            setName: (sourceId: string, name: string) => {
+                const trimmed = name.trim();
+                set((s) => ({
+                    settings: { ...s.settings, [sourceId]: { ...s.settings[sourceId], name: trimmed || undefined } },
+                }));
+            },
+
+            forgetSource: (sourceId: string) => {
+                const { [sourceId]: _, ...rest } = get().settings;
+                set({ settings: rest });
+            },
+        }),
+        {
+            name: 'saimo-sources',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                settings: state.settings,
+            }),
+        }
+    )
+);
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Channel, ChannelDRM, ChannelStream } from '../types';
+
+interface StreamStore {
+    // channelId → URL do último stream que carregou com sucesso
+    lastWorking: Record<string, string>;
+    setLastWorking: (channelId: string, url: string) => void;
+    getPreferredIndex: (channel: Channel) => number;
+}
+
+/** Lista de streams do canal — sempre ao menos um (a URL principal) */
+export function getChannelStreams(channel: Channel): ChannelStream[] {
+    if (channel.streams && channel.streams.length > 0) {
+        return channel.streams.map(s => ({ ...s, headers: s.headers ?? channel.headers }));
+    }
+    return [{ url: channel.url, headers: channel.headers }];
+}
+
+/** DRM efetivo de um stream: o próprio (canal mesclado) ou o do canal */
+export function getStreamDrm(channel: Channel, stream: ChannelStream): ChannelDRM | undefined {
+    return stream.drm === undefined ? channel.drm : (stream.drm ?? undefined);
+}
+
+export const useStreamStore = create<StreamStore>()(
+    persist(
+        (set, get) => ({
+            lastWorking: {},
+
+            setLastWorking: (channelId: string, url: string) => {
+                if (get().lastWorking[channelId] === url) return;
+                set((s) => ({ lastWorking: { ...s.lastWorking, [channelId]: url } }));
+            },
+
+            getPreferredIndex: (channel: Channel) => {
+                const { lastWorking } = get();
+                // Canal mesclado: o stream pode ter sido salvo com o id de outra fonte
+                const url = lastWorking[channel.id] ?? channel.aliasIds?.map(id => lastWorking[id]).find(Boolean);
+                if (!url) return 0;
+                const idx = getChannelStreams(channel).findIndex(s => s.url === url);
+                return idx >= 0 ? idx : 0;
+            },
+        }),
+        {
+            name: 'saimo-streams',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                lastWorking: state.lastWorking,
+            }),
+        }
+    )
+);
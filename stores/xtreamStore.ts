@@ -0,0 +1,182 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import type { Channel } from '../types';
+import { registerChannel } from '../services/epgService';
+import {
+    xtreamLogin,
+    fetchLiveChannels,
+    setXtreamAccounts,
+    clearXtreamCatalog,
+    normalizeServer,
+    type XtreamAccount,
+    type XtreamCredentials,
+} from '../services/xtreamService';
+import { resetXtreamCatalog } from '../services/apiService';
+import { useSourceStore, xtreamSourceId } from './sourceStore';
+
+export interface XtreamAccountState extends XtreamAccount {
+    status?: string;
+    expiresAt?: number;
+    maxConnections?: number;
+    channelCount: number;
+    updatedAt: number;
+    error?: string;
+}
+
+interface XtreamStore {
+    accounts: XtreamAccountState[];
+    // Canais ao vivo por conta — recarregados a cada sessão
+    channels: Record<string, Channel[]>;
+    isLoggingIn: boolean;
+
+    addAccount: (name: string, creds: XtreamCredentials) => Promise<XtreamAccountState>;
+    refreshAccount: (id: string) => Promise<void>;
+    removeAccount: (id: string) => void;
+    refreshAll: () => Promise<void>;
+
+    getAllChannels: () => Channel[];
+    getCategories: () => string[];
+}
+
+// Senha fica no SecureStore; o estado persistido guarda só a chave (derivada do id da conta)
+function passwordKey(id: string): string {
+    return `saimo_xtream_${id}`;
+}
+
+/** Conta como vai para o AsyncStorage — sem a senha */
+type PersistedAccount = Omit<XtreamAccountState, 'password'> & { password?: string };
+
+async function loadPasswords(accounts: PersistedAccount[]): Promise<XtreamAccountState[]> {
+    return Promise.all(accounts.map(async (a) => {
+        // Versões antigas persistiam a senha em texto — move para o SecureStore
+        if (a.password) {
+            await SecureStore.setItemAsync(passwordKey(a.id), a.password).catch((e) => {
+                console.warn('[Xtream] Could not store password:', a.name, e);
+            });
+            return a as XtreamAccountState;
+        }
+        const password = await SecureStore.getItemAsync(passwordKey(a.id)).catch(() => null);
+        return { ...a, password: password ?? '' };
+    }));
+}
+
+function syncService(accounts: XtreamAccountState[]): void {
+    setXtreamAccounts(accounts.map(({ id, name, server, username, password }) => ({
+        id, name, server, username, password,
+    })));
+    // Catálogo de filmes/séries mescla as contas — recarrega na próxima visita à aba Filmes
+    resetXtreamCatalog();
+}
+
+export const useXtreamStore = create<XtreamStore>()(
+    persist(
+        (set, get) => ({
+            accounts: [],
+            channels: {},
+            isLoggingIn: false,
+
+            addAccount: async (name: string, creds: XtreamCredentials) => {
+                const server = normalizeServer(creds.server);
+                set({ isLoggingIn: true });
+                try {
+                    const info = await xtreamLogin({ ...creds, server });
+                    const account: XtreamAccountState = {
+                        id: `x${Date.now().toString(36)}`,
+                        name: name.trim() || server.replace(/^https?:\/\//, ''),
+                        server,
+                        username: creds.username.trim(),
+                        password: creds.password,
+                        status: info.status,
+                        expiresAt: info.expiresAt,
+                        maxConnections: info.maxConnections,
+                        channelCount: 0,
+                        updatedAt: Date.now(),
+                    };
+                    const live = await fetchLiveChannels(account);
+                    live.forEach(ch => registerChannel(ch.id, ch.name, ch.epgId));
+                    account.channelCount = live.length;
+                    await SecureStore.setItemAsync(passwordKey(account.id), account.password);
+
+                    const accounts = [...get().accounts, account];
+                    syncService(accounts);
+                    set((s) => ({ accounts, channels: { ...s.channels, [account.id]: live } }));
+                    return account;
+                } finally {
+                    set({ isLoggingIn: false });
+                }
+            },
+
+            refreshAccount: async (id: string) => {
+                const account = get().accounts.find(a => a.id === id);
+                if (!account) return;
+                const patch = (p: Partial<XtreamAccountState>) => set((s) => ({
+                    accounts: s.accounts.map(a => (a.id === id ? { ...a, ...p } : a)),
+                }));
+                try {
+                    const info = await xtreamLogin(account);
+                    const live = await fetchLiveChannels(account);
+                    live.forEach(ch => registerChannel(ch.id, ch.name, ch.epgId));
+                    clearXtreamCatalog(id);
+                    resetXtreamCatalog();
+                    set((s) => ({ channels: { ...s.channels, [id]: live } }));
+                    patch({
+                        status: info.status,
+                        expiresAt: info.expiresAt,
+                        maxConnections: info.maxConnections,
+                        channelCount: live.length,
+                        updatedAt: Date.now(),
+                        error: undefined,
+                    });
+                } catch (e: any) {
+                    console.warn('[Xtream] refresh falhou:', account.name, e);
+                    patch({ error: e?.message || 'Falha ao conectar' });
+                }
+            },
+
+            removeAccount: (id: string) => {
+                const accounts = get().accounts.filter(a => a.id !== id);
+                syncService(accounts);
+                SecureStore.deleteItemAsync(passwordKey(id)).catch(() => {});
+                useSourceStore.getState().forgetSource(xtreamSourceId(id));
+                set((s) => {
+                    const channels = { ...s.channels };
+                    delete channels[id];
+                    return { accounts, channels };
+                });
+            },
+
+            refreshAll: async () => {
+                for (const account of get().accounts) {
+                    await get().refreshAccount(account.id);
+                }
+            },
+
+            getAllChannels: () => {
+                const { accounts, channels } = get();
+                return accounts.flatMap(a => channels[a.id] ?? []);
+            },
+
+            getCategories: () => {
+                return Array.from(new Set(get().getAllChannels().map(ch => ch.category)));
+            },
+        }),
+        {
+            name: 'saimo-xtream',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                accounts: state.accounts.map(({ password, ...account }): PersistedAccount => account),
+            }),
+            // Lê as senhas, registra as contas no serviço e busca os canais ao vivo em background
+            onRehydrateStorage: () => (state) => {
+                if (!state || state.accounts.length === 0) return;
+                loadPasswords(state.accounts).then((accounts) => {
+                    useXtreamStore.setState({ accounts });
+                    syncService(accounts);
+                    useXtreamStore.getState().refreshAll();
+                });
+            },
+        }
+    )
+);
@@ -3,14 +3,40 @@
 // ===== CHANNEL TYPES =====
 
 export interface ChannelDRM {
+    /**
+     * Chaves ClearKey (`kid:key`, JWK JSON, base64url…) ou URL de um servidor
+     * de licença ClearKey. Formatos aceitos em services/clearKey.ts
+     */
     clearKey?: string;
+    /** URL do servidor de licença Widevine */
     widevine?: string;
+    /** Headers enviados na requisição de licença (token, Origin etc.) */
+    licenseHeaders?: Record<string, string>;
+}
+
+/**
+ * Como montar a URL do arquivo (catch-up):
+ * default = `source` é a URL inteira; append = `source` vai no fim da URL do canal;
+ * shift = acrescenta utc/lutc; flussonic e xc = derivadas da URL do canal
+ */
+export type CatchupMode = 'default' | 'append' | 'shift' | 'flussonic' | 'xc';
+
+export interface ChannelCatchup {
+    mode: CatchupMode;
+    /** Modelo com {utc}, {duration}, {Y}… (default/append) */
+    source?: string;
+    /** Quantos dias para trás o servidor guarda */
+    days: number;
 }
 
 export interface ChannelStream {
     url: string;
     quality?: string;
     headers?: Record<string, string>;
+    /** DRM próprio do stream (canais mesclados de várias fontes). null = sem DRM; ausente = usa o do canal */
+    drm?: ChannelDRM | null;
+    /** Catch-up próprio do stream (mesma regra do `drm`) */
+    catchup?: ChannelCatchup | null;
 }
 
 export interface Channel {
@@ -24,24 +50,43 @@ export interface Channel {
     headers?: Record<string, string>;
     streams?: ChannelStream[];
     epgId?: string;
+    /** Ids do mesmo canal em outras fontes, mesclados neste */
+    aliasIds?: string[];
+    catchup?: ChannelCatchup;
 }
 
 // ===== EPG TYPES =====
 
+export type ProgramCreditRole =
+    | 'director' | 'actor' | 'writer' | 'adapter' | 'producer'
+    | 'composer' | 'editor' | 'presenter' | 'commentator' | 'guest';
+
 export interface Program {
     id: string;
     title: string;
     description?: string;
     startTime: Date;
     endTime: Date;
+    /** Primeira categoria — a lista completa fica em `categories` */
     category?: string;
+    categories?: string[];
+    /** Classificação indicativa (ex.: "14", "L") */
     rating?: string;
     thumbnail?: string;
+    /** Ano de produção */
+    year?: number;
+    credits?: Partial<Record<ProgramCreditRole, string[]>>;
+    /** Inédito (<new/> no XMLTV) */
+    isNew?: boolean;
+    /** Reprise (<previously-shown/> no XMLTV) */
+    isRerun?: boolean;
     isLive?: boolean;
     episodeInfo?: {
         season?: number;
         episode?: number;
         episodeTitle?: string;
+        /** Numeração como a emissora exibe (episode-num onscreen) */
+        label?: string;
     };
 }
 
@@ -57,6 +102,33 @@ export interface CurrentProgram {
     remaining?: number; // minutos restantes
 }
 
+/** Lembrete de programa — identificado por canal + horário de início, não pelo id do programa */
+export interface ProgramReminder {
+    id: string;
+    channelId: string;
+    channelName: string;
+    title: string;
+    startTime: number;
+    endTime: number;
+    /** Minutos de antecedência do aviso */
+    leadMinutes: number;
+}
+
+/** Gravação agendada a partir do EPG — mesmo id de canal + início dos lembretes */
+export interface ScheduledRecording {
+    id: string;
+    channelId: string;
+    channelName: string;
+    channelLogo?: string;
+    title: string;
+    /** Horário do programa, sem as margens */
+    startTime: number;
+    endTime: number;
+    /** Minutos gravados antes do início e depois do fim */
+    paddingBefore: number;
+    paddingAfter: number;
+}
+
 // ===== SETTINGS TYPES =====
 
 export interface Settings {
@@ -207,10 +279,25 @@ export interface DownloadMediaSnapshot {
     };
 }
 
+export type DownloadItemType = 'movie' | 'episode' | 'recording';
+
+/** Gravação de canal ao vivo (DVR) — janela já com as margens */
+export interface RecordingInfo {
+    channelId: string;
+    channelName: string;
+    channelLogo?: string;
+    startTime: number;
+    endTime: number;
+    /** Headers do stream (User-Agent, Referer) */
+    headers?: Record<string, string>;
+    /** Último segmento HLS já no arquivo — retomada após reiniciar o app não repete nada */
+    lastSegment?: number;
+}
+
 export interface DownloadItem {
     id: string;
     mediaId: string;
-    itemType: 'movie' | 'episode';
+    itemType: DownloadItemType;
     title: string;
     subtitle?: string;
     posterUrl?: string;
@@ -221,13 +308,14 @@ export interface DownloadItem {
     seasonNumber?: number;
     episodeNumber?: number;
     mediaSnapshot: DownloadMediaSnapshot;
+    recording?: RecordingInfo;
     downloadedAt: number;
 }
 
 export interface DownloadTask {
     id: string;
     mediaId: string;
-    itemType: 'movie' | 'episode';
+    itemType: DownloadItemType;
     title: string;
     subtitle?: string;
     posterUrl?: string;
@@ -235,6 +323,7 @@ export interface DownloadTask {
     seasonNumber?: number;
     episodeNumber?: number;
     mediaSnapshot: DownloadMediaSnapshot;
+    recording?: RecordingInfo;
     status: DownloadStatus;
     progress: number;
     bytesDownloaded: number;